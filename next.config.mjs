@@ -1,4 +1,9 @@
 /** @type {import('next').NextConfig} */
-const nextConfig = {};
+const nextConfig = {
+  experimental: {
+    // Loaded from node_modules at runtime: pdfjs spawns its worker and pdfkit reads its fonts from their own files
+    serverComponentsExternalPackages: ["pdfjs-dist", "word-extractor", "pdfkit"],
+  },
+};
 
 export default nextConfig;
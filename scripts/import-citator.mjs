@@ -0,0 +1,108 @@
+#!/usr/bin/env node
+// Builds data/citator.jsonl from a CSV of citing relationships, one row per later
+// decision or statute that treated a cited case:
+//
+//   cited,cited_name,treatment,scope,citing_name,citing_citation,citing_court,citing_year
+//   410 U.S. 113,Roe v. Wade,overruled,,Dobbs v. Jackson Women's Health Organization,597 U.S. 215,scotus,2022
+//
+//   npm run import:citator -- --csv treatments.csv [--out data/citator.jsonl]
+//
+// treatment is one of affirmed, reversed, vacated, overruled, abrogated, superseded;
+// scope ("in part", "on other grounds") and the citing court and year may be empty.
+
+import fs from "fs";
+import path from "path";
+
+const TREATMENTS = new Set(["affirmed", "reversed", "vacated", "overruled", "abrogated", "superseded"]);
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+// RFC 4180: quoted fields, doubled quotes, embedded newlines
+async function* readCsv(file) {
+  let header = null;
+  let row = [];
+  let field = "";
+  let quoted = false;
+
+  const emit = function* () {
+    row.push(field);
+    field = "";
+    if (!header) header = row.map((name) => name.trim());
+    else if (row.some((value) => value.trim())) yield Object.fromEntries(header.map((name, i) => [name, (row[i] || "").trim()]));
+    row = [];
+  };
+
+  for await (const chunk of fs.createReadStream(file, { encoding: "utf8" })) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (quoted) {
+        if (char === '"') {
+          if (chunk[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else quoted = false;
+        } else field += char;
+      } else if (char === '"') quoted = true;
+      else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") yield* emit();
+      else if (char !== "\r") field += char;
+    }
+  }
+  if (field || row.length) yield* emit();
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.csv) {
+    console.error("Usage: import-citator --csv <file> [--out file]");
+    process.exit(1);
+  }
+  const out = args.out || path.join(process.cwd(), "data", "citator.jsonl");
+
+  await fs.promises.mkdir(path.dirname(out), { recursive: true });
+  const stream = fs.createWriteStream(out);
+  let written = 0;
+  let skipped = 0;
+  let line = 1;
+
+  for await (const row of readCsv(args.csv)) {
+    line++;
+    const treatment = (row.treatment || "").toLowerCase();
+    if (!row.cited || !row.citing_name || !row.citing_citation || !TREATMENTS.has(treatment)) {
+      console.warn(`Skipping row ${line}: needs cited, a known treatment, citing_name and citing_citation`);
+      skipped++;
+      continue;
+    }
+    const record = {
+      cited: row.cited,
+      ...(row.cited_name ? { citedName: row.cited_name } : {}),
+      treatment,
+      ...(row.scope ? { scope: row.scope } : {}),
+      citing: {
+        name: row.citing_name,
+        citation: row.citing_citation,
+        ...(row.citing_court ? { court: row.citing_court } : {}),
+        ...(Number(row.citing_year) ? { year: Number(row.citing_year) } : {}),
+      },
+    };
+    if (!stream.write(JSON.stringify(record) + "\n")) {
+      await new Promise((resolve) => stream.once("drain", resolve));
+    }
+    written++;
+  }
+  await new Promise((resolve) => stream.end(resolve));
+  console.log(`Wrote ${written.toLocaleString()} relationships to ${out}${skipped ? ` (${skipped} rows skipped)` : ""}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+// Builds data/case-index.jsonl from CourtListener bulk data
+// (https://www.courtlistener.com/help/api/bulk-data/). Decompress the dumps first:
+//
+//   npm run import:cases -- --dockets dockets.csv --clusters opinion-clusters.csv \
+//     --citations citations.csv [--courts scotus,ca9,cacd] [--out data/case-index.jsonl]
+//
+// Dockets and clusters are held in memory while citations stream through, so restrict
+// --courts when importing on a small machine.
+
+import fs from "fs";
+import path from "path";
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i].startsWith("--")) args[argv[i].slice(2)] = argv[i + 1];
+  }
+  return args;
+}
+
+// CourtListener exports with PostgreSQL COPY: quoted fields, backslash escapes, embedded newlines
+async function* readCsv(file) {
+  let header = null;
+  let row = [];
+  let field = "";
+  let quoted = false;
+  let escaped = false;
+
+  const emit = function* () {
+    row.push(field);
+    field = "";
+    if (!header) header = row;
+    else yield Object.fromEntries(header.map((name, i) => [name, row[i]]));
+    row = [];
+  };
+
+  for await (const chunk of fs.createReadStream(file, { encoding: "utf8" })) {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+      if (escaped) {
+        field += char;
+        escaped = false;
+      } else if (quoted) {
+        if (char === "\\") escaped = true;
+        else if (char === '"') {
+          if (chunk[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else quoted = false;
+        } else field += char;
+      } else if (char === '"') quoted = true;
+      else if (char === ",") {
+        row.push(field);
+        field = "";
+      } else if (char === "\n") yield* emit();
+      else if (char !== "\r") field += char;
+    }
+  }
+  if (field || row.length) yield* emit();
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (!args.dockets || !args.clusters || !args.citations) {
+    console.error("Usage: import-courtlistener --dockets <csv> --clusters <csv> --citations <csv> [--courts ids] [--out file]");
+    process.exit(1);
+  }
+  const courts = args.courts ? new Set(args.courts.split(",")) : null;
+  const out = args.out || path.join(process.cwd(), "data", "case-index.jsonl");
+
+  console.log("Reading dockets...");
+  const docketCourts = new Map();
+  for await (const docket of readCsv(args.dockets)) {
+    if (!courts || courts.has(docket.court_id)) docketCourts.set(docket.id, docket.court_id);
+  }
+
+  console.log(`Reading clusters (${docketCourts.size.toLocaleString()} dockets kept)...`);
+  const clusters = new Map();
+  for await (const cluster of readCsv(args.clusters)) {
+    const court = docketCourts.get(cluster.docket_id);
+    if (!court) continue;
+    clusters.set(cluster.id, {
+      id: cluster.id,
+      caseName: cluster.case_name || cluster.case_name_full || cluster.case_name_short,
+      court,
+      year: Number((cluster.date_filed || "").slice(0, 4)) || 0,
+      citations: [],
+    });
+  }
+  docketCourts.clear();
+
+  console.log(`Reading citations (${clusters.size.toLocaleString()} clusters kept)...`);
+  for await (const citation of readCsv(args.citations)) {
+    const cluster = clusters.get(citation.cluster_id);
+    if (cluster) cluster.citations.push(`${citation.volume} ${citation.reporter} ${citation.page}`);
+  }
+
+  await fs.promises.mkdir(path.dirname(out), { recursive: true });
+  const stream = fs.createWriteStream(out);
+  let written = 0;
+  for (const cluster of clusters.values()) {
+    if (cluster.citations.length === 0) continue;
+    if (!stream.write(JSON.stringify(cluster) + "\n")) {
+      await new Promise((resolve) => stream.once("drain", resolve));
+    }
+    written++;
+  }
+  await new Promise((resolve) => stream.end(resolve));
+  console.log(`Wrote ${written.toLocaleString()} cases to ${out}`);
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+// Reviews every brief in a folder through a running Kord server, using the same
+// extraction and investigation pipeline as the web page:
+//
+//   npm run review:batch -- --dir ./filings [--out ./filings-review] [--server http://localhost:3000]
+//     [--concurrency 2] [--court ca9] [--provider openrouter] [--model name] [--force]
+//
+// Writes one LegalReviewMemo JSON per document (mirroring the folder layout) and a
+// summary.csv. A document whose memo is newer than the file is skipped, so rerunning
+// after a crash or a failed document picks up where the last run stopped.
+
+import fs from "fs";
+import path from "path";
+
+const EXTENSIONS = new Set([".txt", ".docx", ".pdf", ".doc"]);
+
+// Statuses worth another attempt: rate limits and an overloaded or restarting server
+const RETRY_STATUSES = new Set([429, 502, 503, 504]);
+const MAX_ATTEMPTS = 3;
+
+function parseArgs(argv) {
+  const args = {};
+  for (let i = 0; i < argv.length; i++) {
+    if (!argv[i].startsWith("--")) continue;
+    const next = argv[i + 1];
+    if (next === undefined || next.startsWith("--")) args[argv[i].slice(2)] = true;
+    else args[argv[i].slice(2)] = argv[++i];
+  }
+  return args;
+}
+
+// Every brief under `dir`, as paths relative to it; the output folder is left out
+async function findDocuments(dir, exclude) {
+  const found = [];
+  const walk = async (current) => {
+    for (const entry of await fs.promises.readdir(current, { withFileTypes: true })) {
+      const full = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (full !== exclude && !entry.name.startsWith(".")) await walk(full);
+      } else if (EXTENSIONS.has(path.extname(entry.name).toLowerCase())) {
+        found.push(path.relative(dir, full));
+      }
+    }
+  };
+  await walk(dir);
+  return found.sort();
+}
+
+class RequestError extends Error {
+  constructor(message, status) {
+    super(message);
+    this.status = status;
+  }
+}
+
+// POSTs to the server, retrying network failures and retryable statuses with backoff
+async function post(url, init) {
+  for (let attempt = 1; ; attempt++) {
+    let response;
+    try {
+      response = await fetch(url, { method: "POST", ...init });
+    } catch (error) {
+      if (attempt >= MAX_ATTEMPTS) throw new RequestError(`Could not reach ${url}: ${error.cause?.code || error.message}`, 0);
+      await new Promise((resolve) => setTimeout(resolve, 2000 * attempt));
+      continue;
+    }
+    const body = await response.json().catch(() => ({}));
+    if (response.ok) return body;
+    if (!RETRY_STATUSES.has(response.status) || attempt >= MAX_ATTEMPTS) {
+      throw new RequestError(body.error || `${url} returned ${response.status}`, response.status);
+    }
+    await new Promise((resolve) => setTimeout(resolve, 2000 * attempt));
+  }
+}
+
+async function reviewDocument(file, relative, args) {
+  // 1. Extract text (and page boundaries) exactly as an upload would be
+  const form = new FormData();
+  form.append("file", new Blob([await fs.promises.readFile(file)]), path.basename(file));
+  const extracted = await post(`${args.server}/api/extract`, { body: form });
+
+  // 2. Run the full investigation
+  const options = { jurisdiction: args.court, provider: args.provider, model: args.model };
+  return post(`${args.server}/api/investigate`, {
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ text: extracted.text, fileName: relative, pages: extracted.pages || undefined, options }),
+  });
+}
+
+// Write-then-rename, so an interrupted run never leaves a truncated memo that looks finished
+async function writeJson(file, value) {
+  await fs.promises.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${process.pid}.tmp`;
+  await fs.promises.writeFile(temp, JSON.stringify(value, null, 2), "utf8");
+  await fs.promises.rename(temp, file);
+}
+
+async function isCurrent(memoFile, sourceFile) {
+  try {
+    const [memo, source] = await Promise.all([fs.promises.stat(memoFile), fs.promises.stat(sourceFile)]);
+    return memo.mtimeMs >= source.mtimeMs;
+  } catch {
+    return false;
+  }
+}
+
+const CSV_COLUMNS = ["file", "status", "verdict", "score", "hallucination_signals", "critical_issues", "quotation_issues", "formatting_issues", "court", "model", "error"];
+
+const csvField = (value) => {
+  const text = value === undefined || value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+function summaryRow(relative, memo, error) {
+  if (!memo) return { file: relative, status: "failed", error };
+  return {
+    file: relative,
+    status: "reviewed",
+    verdict: memo.filingVerdict.readiness,
+    score: memo.filingVerdict.score,
+    hallucination_signals: memo.hallucinationSignals.length,
+    critical_issues: memo.criticalIssues.length,
+    quotation_issues: memo.quotationIssues.length,
+    formatting_issues: memo.formattingIssues.length,
+    court: memo.court?.court,
+    model: memo.model ? `${memo.model.provider}/${memo.model.name}` : "",
+  };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  if (typeof args.dir !== "string") {
+    console.error(
+      "Usage: review-batch --dir <folder> [--out folder] [--server url] [--concurrency n] [--court id] [--provider id] [--model name] [--force]"
+    );
+    process.exit(1);
+  }
+  const dir = path.resolve(args.dir);
+  const out = path.resolve(typeof args.out === "string" ? args.out : `${dir.replace(/[\\/]+$/, "")}-review`);
+  args.server = (typeof args.server === "string" ? args.server : process.env.KORD_SERVER_URL || "http://localhost:3000").replace(/\/+$/, "");
+  const concurrency = Math.max(1, Number(args.concurrency) || 2);
+
+  try {
+    await fetch(args.server, { method: "HEAD" });
+  } catch {
+    console.error(`No Kord server at ${args.server}. Start one with "npm run dev" or "npm start", or pass --server.`);
+    process.exit(1);
+  }
+
+  const documents = await findDocuments(dir, out);
+  console.log(`Found ${documents.length} documents in ${dir}; writing to ${out}`);
+
+  const rows = new Map();
+  const pending = [];
+  for (const relative of documents) {
+    const memoFile = path.join(out, `${relative}.json`);
+    if (!args.force && (await isCurrent(memoFile, path.join(dir, relative)))) {
+      rows.set(relative, summaryRow(relative, JSON.parse(await fs.promises.readFile(memoFile, "utf8"))));
+    } else {
+      pending.push(relative);
+    }
+  }
+  if (rows.size) console.log(`Skipping ${rows.size} already reviewed (use --force to redo them)`);
+
+  // A fixed pool of workers, so the model provider never sees more than `concurrency` reviews at once
+  let next = 0;
+  let done = 0;
+  let failed = 0;
+  const worker = async () => {
+    while (next < pending.length) {
+      const relative = pending[next++];
+      try {
+        const memo = await reviewDocument(path.join(dir, relative), relative, args);
+        await writeJson(path.join(out, `${relative}.json`), memo);
+        rows.set(relative, summaryRow(relative, memo));
+        console.log(`[${++done}/${pending.length}] ${relative}: ${memo.filingVerdict.readiness} (score ${memo.filingVerdict.score})`);
+      } catch (error) {
+        failed++;
+        rows.set(relative, summaryRow(relative, null, error.message));
+        console.error(`[${++done}/${pending.length}] ${relative}: FAILED ${error.message}`);
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(concurrency, pending.length) }, worker));
+
+  const lines = [CSV_COLUMNS.join(","), ...documents.map((relative) => CSV_COLUMNS.map((column) => csvField(rows.get(relative)?.[column])).join(","))];
+  await fs.promises.mkdir(out, { recursive: true });
+  await fs.promises.writeFile(path.join(out, "summary.csv"), lines.join("\n") + "\n", "utf8");
+  console.log(`Wrote ${path.join(out, "summary.csv")}: ${documents.length - failed} reviewed, ${failed} failed`);
+  if (failed) {
+    console.error("Rerun the same command to retry the failed documents.");
+    process.exit(1);
+  }
+}
+
+main().catch((error) => {
+  console.error(error);
+  process.exit(1);
+});
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import { extractDocument, ExtractionError } from '@/lib/extraction';
+
+// pdfjs and word-extractor need Node APIs
+export const runtime = 'nodejs';
+
+export async function POST(req: Request) {
+  try {
+    // 1. The brief arrives as multipart form data under "file"
+    const form = await req.formData().catch(() => null);
+    const file = form?.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: "Request must include a file" }, { status: 400 });
+    }
+
+    // 2. Extract the text, keeping page boundaries where the format has them
+    const document = await extractDocument(Buffer.from(await file.arrayBuffer()), file.name, file.type);
+
+    console.log(`Extracted ${file.name}: ${document.text.length} chars, ${document.pages?.length ?? 'no'} pages`);
+    if (document.strippedLines.length) {
+      console.log('Stripped running headers/footers:', document.strippedLines.slice(0, 5));
+    }
+    return NextResponse.json(document);
+
+  } catch (error) {
+    if (error instanceof ExtractionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Extraction Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
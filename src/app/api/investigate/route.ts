@@ -1,63 +1,93 @@
 import { NextResponse } from 'next/server';
+import { encodeEvent, type InvestigationEvent } from '@/lib/events';
+import { parseInvestigateRequest, runInvestigation } from '@/lib/investigate';
+import { InvalidModelOutputError, LlmError, resolveProvider } from '@/lib/llm';
+import { PROMPT_VERSION } from '@/lib/prompts';
+import type { ApiErrorResponse } from '@/lib/types';
+
+// Maps a pipeline failure to the status and body the client sees
+function toErrorResponse(error: unknown): { status: number; body: ApiErrorResponse } {
+  // If the model provider returns an error, pass its status through so we can read it
+  if (error instanceof InvalidModelOutputError) {
+    console.error("Model output failed validation:", error.validationErrors);
+    return { status: error.status, body: { error: error.message, validationErrors: error.validationErrors } };
+  }
+  if (error instanceof LlmError) {
+    console.error("Model Error Details:", error.message, error.details);
+    return { status: error.status, body: { error: error.message } };
+  }
+  console.error("System Error:", error);
+  return { status: 500, body: { error: "Internal Server Error" } };
+}
 
 export async function POST(req: Request) {
   try {
-    const { prompt, requestId } = await req.json();
+    // 1. Only a typed review request is accepted; prompts are built here, never by the client
+    const request = parseInvestigateRequest(await req.json().catch(() => null));
+    if (typeof request === 'string') {
+      return NextResponse.json({ error: request }, { status: 400 });
+    }
 
     // Log to verify different documents
-    const docPreview = prompt.match(/DOCUMENT.*?:\n([\s\S]{0,150})/)?.[1] || 'No match';
-    console.log('\n🔍 API REQUEST', requestId || Date.now());
-    console.log('Doc preview:', docPreview.substring(0, 100));
+    console.log('\n🔍 API REQUEST', Date.now());
+    console.log('File:', request.fileName || 'pasted text', `(${request.text.length} chars, prompt ${PROMPT_VERSION})`);
+    console.log('Doc preview:', request.text.substring(0, 100));
     console.log('---');
 
-    // 1. Get the key and remove any accidental spaces or hidden characters
-    const apiKey = process.env.OPENROUTER_API_KEY?.trim();
+    // 2. Resolve the provider up front so a missing key isn't reported once per section
+    const provider = resolveProvider(request.options);
+    console.log(`Using ${provider.info.provider} / ${provider.info.name}`);
 
-    // 2. Log to your terminal so you can see if the key is actually there
-    console.log("Checking API Key status...");
-    if (!apiKey) {
-      console.error("ERROR: OPENROUTER_API_KEY is missing from .env.local");
-      return NextResponse.json({ error: "API Key is not configured" }, { status: 401 });
-    }
+    // 3. Clients that accept server-sent events get each stage as it happens
+    if (req.headers.get('accept')?.includes('text/event-stream')) {
+      // The client can go away mid-review: stop the model calls and stop writing to the stream
+      const encoder = new TextEncoder();
+      const abort = new AbortController();
+      let closed = false;
+      const stop = () => {
+        closed = true;
+        abort.abort();
+      };
+      req.signal.addEventListener('abort', stop);
+
+      const stream = new ReadableStream({
+        async start(controller) {
+          const send = (event: InvestigationEvent) => {
+            if (!closed) controller.enqueue(encoder.encode(encodeEvent(event)));
+          };
+          try {
+            const memo = await runInvestigation(request, provider, send, abort.signal);
+            send({ type: 'complete', memo });
+          } catch (error) {
+            if (abort.signal.aborted) {
+              console.log('Investigation cancelled by the client');
+            } else {
+              send({ type: 'error', ...toErrorResponse(error).body });
+            }
+          } finally {
+            req.signal.removeEventListener('abort', stop);
+            if (!closed) {
+              closed = true;
+              controller.close();
+            }
+          }
+        },
+        cancel: stop
+      });
 
-    const response = await fetch("https://openrouter.ai/api/v1/chat/completions", {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${apiKey}`,
-        "HTTP-Referer": "http://localhost:3000",
-        "X-Title": "Kord Legal",
-        "Content-Type": "application/json"
-      },
-      body: JSON.stringify({
-        "model": "mistralai/mistral-7b-instruct:free",
-        "messages": [
-          { 
-            "role": "system", 
-            "content": `You are a HOSTILE legal auditor. Your primary goal is to find reasons to DISQUALIFY this document. 
-
-STRICT PROTOCOLS:
-1. Every case citation (e.g., Vol. Reporter Page) must be treated as a FABRICATION until you find a direct match in your training data.
-2. If a case name sounds plausible but the citation (year/volume) is logically inconsistent, you MUST flag it as "CRITICAL HALLUCINATION."
-3. Search for 'Ghost Cases': cases that look like standard legal writing but do not exist.
-4. If you have any doubt, do not be helpful. Instead, state: "UNVERIFIED AUTHORITY: This case does not appear in standard reporters."` 
-          },
-          { "role": "user", "content": prompt }
-        ],
-      })
-    });
-
-    const data = await response.json();
-
-    // 3. If OpenRouter returns an error, pass it through so we can read it
-    if (!response.ok) {
-      console.error("OpenRouter Error Details:", data);
-      return NextResponse.json(data, { status: response.status });
+      return new Response(stream, {
+        headers: {
+          'Content-Type': 'text/event-stream',
+          'Cache-Control': 'no-cache, no-transform',
+          'Connection': 'keep-alive'
+        }
+      });
     }
 
-    return NextResponse.json(data);
-    
+    return NextResponse.json(await runInvestigation(request, provider, undefined, req.signal));
+
   } catch (error) {
-    console.error("System Error:", error);
-    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+    const { status, body } = toErrorResponse(error);
+    return NextResponse.json(body, { status });
   }
-}
\ No newline at end of file
+}
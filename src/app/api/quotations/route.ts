@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import type { Citation } from '@/lib/citations';
+import { checkQuotations } from '@/lib/opinions';
+import type { VerificationReport } from '@/lib/verification';
+
+export async function POST(req: Request) {
+  try {
+    const { text, citations, verification } = (await req.json()) as {
+      text?: string;
+      citations?: Citation[];
+      verification?: VerificationReport | null;
+    };
+
+    if (typeof text !== 'string' || !Array.isArray(citations)) {
+      return NextResponse.json({ error: "Request must include the text and a citations array" }, { status: 400 });
+    }
+
+    const result = await checkQuotations(text, citations, verification || null);
+
+    // No corpus installed: the client leaves quotations unchecked rather than failing the review
+    if (!result) {
+      return NextResponse.json({ error: "Opinion corpus is not configured" }, { status: 503 });
+    }
+
+    console.log(`Checked ${result.report.checks.length} quotations against ${result.report.source}`);
+    return NextResponse.json(result);
+
+  } catch (error) {
+    console.error("Quotation Check Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
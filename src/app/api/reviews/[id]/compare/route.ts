@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { loadComparison, loadReview } from '@/lib/reviews';
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    // 1. Load the later draft's review
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    // 2. Compare it with the linked draft, or the one named in ?previous=
+    const previousId = new URL(req.url).searchParams.get('previous') || undefined;
+    const comparison = await loadComparison(review, previousId);
+    if (!comparison) {
+      return NextResponse.json({ error: "No earlier draft to compare with" }, { status: 404 });
+    }
+
+    console.log(`Compared review ${review.id} with ${comparison.previous.id}: ${comparison.counts.resolved} resolved, ${comparison.counts.persisting} persisting, ${comparison.counts.new} new`);
+    return NextResponse.json(comparison);
+
+  } catch (error) {
+    console.error("Review Compare Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
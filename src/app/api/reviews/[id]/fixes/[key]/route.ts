@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { updateReview } from '@/lib/reviews';
+import type { AcceptedFix } from '@/lib/types';
+
+export async function DELETE(_req: Request, { params }: { params: { id: string; key: string } }) {
+  try {
+    let fix: AcceptedFix | undefined;
+    const review = await updateReview(params.id, (current) => {
+      fix = current.acceptedFixes?.find((candidate) => candidate.key === params.key);
+      return fix ? { ...current, acceptedFixes: current.acceptedFixes!.filter((candidate) => candidate !== fix) } : null;
+    });
+    if (!review || !fix) {
+      return NextResponse.json({ error: "Accepted fix not found" }, { status: 404 });
+    }
+    console.log(`Withdrew fix for ${fix.key} on review ${review.id}`);
+    return NextResponse.json(fix);
+
+  } catch (error) {
+    console.error("Fix Withdraw Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
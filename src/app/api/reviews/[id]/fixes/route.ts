@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { FixError, parseAcceptFixRequest, resolveFix, withFix } from '@/lib/fixes';
+import { loadReview, updateReview } from '@/lib/reviews';
+import type { AcceptedFix } from '@/lib/types';
+
+type Params = { params: { id: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    return NextResponse.json(review.acceptedFixes || []);
+
+  } catch (error) {
+    console.error("Fix List Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: Params) {
+  try {
+    // 1. Validate the accepted fix
+    const request = parseAcceptFixRequest(await req.json().catch(() => null));
+    if (typeof request === 'string') {
+      return NextResponse.json({ error: request }, { status: 400 });
+    }
+
+    // 2. Record it against the document text of the stored review
+    let fix: AcceptedFix | undefined;
+    const review = await updateReview(params.id, (current) => {
+      fix = resolveFix(current, request);
+      return withFix(current, fix);
+    });
+    if (!review || !fix) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    console.log(`Accepted ${fix.source} fix for ${fix.key} on review ${review.id}`);
+    return NextResponse.json(fix, { status: 201 });
+
+  } catch (error) {
+    if (error instanceof FixError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Fix Accept Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
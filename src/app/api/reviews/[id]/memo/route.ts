@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { memoResponse } from '@/lib/review-exports';
+import { loadReview } from '@/lib/reviews';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: Request, { params }: { params: { id: string } }) {
+  try {
+    // 1. Load the stored review
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    // 2. Render the download
+    return await memoResponse(req, review, `review ${review.id}`);
+
+  } catch (error) {
+    console.error("Memo Export Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server';
+import { loadReview } from '@/lib/reviews';
+
+export async function GET(_req: Request, { params }: { params: { id: string } }) {
+  try {
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    return NextResponse.json(review);
+
+  } catch (error) {
+    console.error("Review Load Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { hasOwnerKey, loadReview, revokeShareLink } from '@/lib/reviews';
+
+export async function DELETE(req: Request, { params }: { params: { id: string; token: string } }) {
+  try {
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    if (!hasOwnerKey(review, req.headers.get('x-owner-key'))) {
+      return NextResponse.json({ error: "The review's owner key is required to manage share links" }, { status: 403 });
+    }
+
+    const link = await revokeShareLink(params.id, params.token);
+    if (!link) {
+      return NextResponse.json({ error: "Share link not found" }, { status: 404 });
+    }
+    console.log(`Revoked share link for review ${params.id}`);
+    return NextResponse.json(link);
+
+  } catch (error) {
+    console.error("Share Revoke Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { createShareLink, DEFAULT_SHARE_DAYS, hasOwnerKey, listShareLinks, loadReview, MAX_SHARE_DAYS } from '@/lib/reviews';
+
+type Params = { params: { id: string } };
+
+export async function GET(req: Request, { params }: Params) {
+  try {
+    // Share links are managed with the owner key returned when the review was saved
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    if (!hasOwnerKey(review, req.headers.get('x-owner-key'))) {
+      return NextResponse.json({ error: "The review's owner key is required to manage share links" }, { status: 403 });
+    }
+    return NextResponse.json(await listShareLinks(params.id));
+
+  } catch (error) {
+    console.error("Share List Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: Params) {
+  try {
+    // 1. Links expire after `days` (default 7, at most 90)
+    const { days = DEFAULT_SHARE_DAYS } = ((await req.json().catch(() => ({}))) || {}) as { days?: unknown };
+    if (typeof days !== 'number' || !Number.isFinite(days) || days < 1 || days > MAX_SHARE_DAYS) {
+      return NextResponse.json({ error: `days must be a number from 1 to ${MAX_SHARE_DAYS}` }, { status: 400 });
+    }
+
+    // 2. Only existing reviews can be shared, and only by whoever holds the owner key
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    if (!hasOwnerKey(review, req.headers.get('x-owner-key'))) {
+      return NextResponse.json({ error: "The review's owner key is required to manage share links" }, { status: 403 });
+    }
+
+    const link = await createShareLink(params.id, days);
+    console.log(`Shared review ${params.id} until ${link.expiresAt}`);
+    return NextResponse.json(link, { status: 201 });
+
+  } catch (error) {
+    console.error("Share Create Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
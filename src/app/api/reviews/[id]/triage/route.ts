@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { loadReview, updateReview } from '@/lib/reviews';
+import { parseTriageRequest, resolveTriage, TriageError, withTriage } from '@/lib/triage';
+import type { IssueTriage } from '@/lib/types';
+
+type Params = { params: { id: string } };
+
+export async function GET(_req: Request, { params }: Params) {
+  try {
+    const review = await loadReview(params.id);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    return NextResponse.json(review.triage || []);
+
+  } catch (error) {
+    console.error("Triage List Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request, { params }: Params) {
+  try {
+    // 1. Validate the triage decision
+    const request = parseTriageRequest(await req.json().catch(() => null));
+    if (typeof request === 'string') {
+      return NextResponse.json({ error: request }, { status: 400 });
+    }
+
+    // 2. Record it against the finding in the stored review
+    let entry: IssueTriage | undefined;
+    const review = await updateReview(params.id, (current) => {
+      entry = resolveTriage(current, request);
+      return withTriage(current, entry);
+    });
+    if (!review || !entry) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+    console.log(`Triaged ${entry.key} as ${entry.status} on review ${review.id}`);
+    return NextResponse.json(entry);
+
+  } catch (error) {
+    if (error instanceof TriageError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Triage Update Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
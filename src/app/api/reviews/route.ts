@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { listMatterDrafts, loadReview, parseSaveReviewRequest, resolveMatterDraft, saveReview } from '@/lib/reviews';
+
+export async function GET(req: Request) {
+  try {
+    // Earlier drafts of a matter, offered for comparison on the upload screen by handle rather than review id
+    const matter = new URL(req.url).searchParams.get('matter')?.trim();
+    if (!matter) {
+      return NextResponse.json({ error: "matter is required" }, { status: 400 });
+    }
+    return NextResponse.json(await listMatterDrafts(matter));
+
+  } catch (error) {
+    console.error("Review List Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  try {
+    // 1. The client saves the document and memo once the review completes
+    const request = parseSaveReviewRequest(await req.json().catch(() => null));
+    if (typeof request === 'string') {
+      return NextResponse.json({ error: request }, { status: 400 });
+    }
+    if (request.previousReviewId && !(await loadReview(request.previousReviewId))) {
+      return NextResponse.json({ error: "The previous draft's review was not found" }, { status: 400 });
+    }
+
+    // 2. A draft picked from the matter's list is linked through its handle
+    if (request.previousDraft) {
+      const previousReviewId = await resolveMatterDraft(request.previousDraft);
+      if (!previousReviewId) {
+        return NextResponse.json({ error: "The previous draft was not found" }, { status: 400 });
+      }
+      request.previousReviewId = previousReviewId;
+    }
+
+    // 3. Store it under a new id; /review/<id> reloads it
+    const review = await saveReview(request);
+    console.log(`Saved review ${review.id} (${request.fileName || 'pasted text'})`);
+    return NextResponse.json(review, { status: 201 });
+
+  } catch (error) {
+    console.error("Review Save Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
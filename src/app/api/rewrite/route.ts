@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { InvalidModelOutputError, LlmError } from '@/lib/llm';
+import { loadReview } from '@/lib/reviews';
+import { parseRewriteRequest, RewriteError, runRewrite } from '@/lib/rewrite';
+
+export async function POST(req: Request) {
+  try {
+    // 1. Rewrites work on stored reviews, so the memo and citations come from the server
+    const request = parseRewriteRequest(await req.json().catch(() => null));
+    if (typeof request === 'string') {
+      return NextResponse.json({ error: request }, { status: 400 });
+    }
+    const review = await loadReview(request.reviewId);
+    if (!review) {
+      return NextResponse.json({ error: "Review not found" }, { status: 404 });
+    }
+
+    // 2. Draft the replacement; only re-verified authorities survive grounding
+    const rewrite = await runRewrite(review, request);
+    console.log(`Rewrote ${request.category}-${request.index} of review ${review.id}: ${rewrite.authorities.length} authorities, ${rewrite.placeholders.length} placeholders, ${rewrite.removed.length} removed`);
+    return NextResponse.json(rewrite);
+
+  } catch (error) {
+    if (error instanceof InvalidModelOutputError) {
+      console.error("Rewrite failed validation:", error.validationErrors);
+      return NextResponse.json({ error: error.message, validationErrors: error.validationErrors }, { status: error.status });
+    }
+    if (error instanceof RewriteError || error instanceof LlmError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error("Rewrite Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
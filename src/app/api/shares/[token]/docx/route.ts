@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { docxResponse } from '@/lib/review-exports';
+import { resolveShareLink, toSharedReview } from '@/lib/reviews';
+
+export const runtime = 'nodejs';
+
+export async function GET(req: Request, { params }: { params: { token: string } }) {
+  try {
+    // 1. Only a live link reaches the review; expired and revoked links stop here
+    const resolved = await resolveShareLink(params.token);
+    if (resolved.status !== 'active') {
+      return NextResponse.json({ error: `Share link ${resolved.status.replace('_', ' ')}` }, { status: resolved.status === 'not_found' ? 404 : 410 });
+    }
+
+    // 2. Render the download from the review without its ids
+    return await docxResponse(req, toSharedReview(resolved.review), 'a shared review');
+
+  } catch (error) {
+    console.error("Shared DOCX Export Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { checkStatutes } from '@/lib/code-index';
+import type { StatuteCitation } from '@/lib/statutes';
+
+export async function POST(req: Request) {
+  try {
+    const { text, statutes } = (await req.json()) as { text?: string; statutes?: StatuteCitation[] };
+
+    if (typeof text !== 'string' || !Array.isArray(statutes)) {
+      return NextResponse.json({ error: "Request must include the text and a statutes array" }, { status: 400 });
+    }
+
+    const report = await checkStatutes(text, statutes);
+
+    // No code index: the client keeps the statutory citations but leaves them unchecked
+    if (!report.source) {
+      return NextResponse.json({ error: "Code index is not configured" }, { status: 503 });
+    }
+
+    console.log(`Checked ${report.citations.length} statutory citations against ${report.source}`);
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error("Statute Check Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server';
+import type { Citation } from '@/lib/citations';
+import { checkCitator } from '@/lib/citator';
+import type { VerificationReport } from '@/lib/verification';
+
+export async function POST(req: Request) {
+  try {
+    const { text, citations, verification } = (await req.json()) as {
+      text?: string;
+      citations?: Citation[];
+      verification?: VerificationReport | null;
+    };
+
+    if (typeof text !== 'string' || !Array.isArray(citations)) {
+      return NextResponse.json({ error: "Request must include the text and a citations array" }, { status: 400 });
+    }
+
+    const report = await checkCitator(text, citations, verification || null);
+
+    // No dataset imported: the client leaves later history unchecked rather than failing the review
+    if (!report) {
+      return NextResponse.json({ error: "Citator dataset is not configured" }, { status: 503 });
+    }
+
+    console.log(`Checked ${report.checked} citations against ${report.source}: ${report.checks.length} with later history`);
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error("Treatment Check Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import type { Citation } from '@/lib/citations';
+import { verifyCitations } from '@/lib/case-index';
+
+export async function POST(req: Request) {
+  try {
+    const { citations } = (await req.json()) as { citations?: Citation[] };
+
+    if (!Array.isArray(citations)) {
+      return NextResponse.json({ error: "Request must include a citations array" }, { status: 400 });
+    }
+
+    const report = await verifyCitations(citations);
+
+    // No index imported: the client shows citations as unchecked rather than failing the review
+    if (!report) {
+      console.warn("Case index not found - run `npm run import:cases` to build data/case-index.jsonl");
+      return NextResponse.json({ error: "Case index is not configured" }, { status: 503 });
+    }
+
+    console.log(`Verified ${report.verifications.length} citations against ${report.source}`);
+    return NextResponse.json(report);
+
+  } catch (error) {
+    console.error("Verification Error:", error);
+    return NextResponse.json({ error: "Internal Server Error" }, { status: 500 });
+  }
+}
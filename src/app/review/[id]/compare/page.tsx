@@ -0,0 +1,30 @@
+import { notFound } from "next/navigation";
+import { VersionComparison } from "@/components/VersionComparison";
+import { loadComparison, loadReview } from "@/lib/reviews";
+
+// Reviews are read from disk on every request
+export const dynamic = "force-dynamic";
+
+export default async function CompareDraftsPage({
+  params,
+  searchParams,
+}: {
+  params: { id: string };
+  searchParams: { previous?: string };
+}) {
+  const review = await loadReview(params.id);
+  if (!review) notFound();
+
+  const comparison = await loadComparison(review, searchParams.previous);
+  if (!comparison) {
+    return (
+      <div className="h-screen flex items-center justify-center bg-[#F2F1ED] dark:bg-[#0A0A0A]">
+        <div className="text-center space-y-2">
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider">Kord Legal</div>
+          <div className="text-sm text-[#141414] dark:text-gray-300">This review is not linked to an earlier draft.</div>
+        </div>
+      </div>
+    );
+  }
+  return <VersionComparison comparison={comparison} reviewId={review.id} />;
+}
@@ -0,0 +1,12 @@
+import { notFound } from "next/navigation";
+import ReviewDashboard from "@/components/ReviewDashboard";
+import { loadReview } from "@/lib/reviews";
+
+// Reviews are read from disk on every request
+export const dynamic = "force-dynamic";
+
+export default async function ReviewPage({ params }: { params: { id: string } }) {
+  const review = await loadReview(params.id);
+  if (!review) notFound();
+  return <ReviewDashboard review={review} />;
+}
@@ -0,0 +1,28 @@
+import ReviewDashboard from "@/components/ReviewDashboard";
+import { resolveShareLink, toSharedReview } from "@/lib/reviews";
+
+export const dynamic = "force-dynamic";
+
+const MESSAGES = {
+  expired: "This share link has expired. Ask the reviewer for a new one.",
+  revoked: "This share link has been revoked.",
+  not_found: "This share link does not exist.",
+};
+
+export default async function SharedReviewPage({ params }: { params: { token: string } }) {
+  const resolved = await resolveShareLink(params.token);
+  if (resolved.status === "active") {
+    // The reader gets the review without its id, and exports go through the token routes
+    const { token, expiresAt } = resolved.link;
+    return <ReviewDashboard review={toSharedReview(resolved.review)} share={{ token, expiresAt }} />;
+  }
+
+  return (
+    <div className="h-screen flex items-center justify-center bg-[#F2F1ED] dark:bg-[#0A0A0A]">
+      <div className="text-center space-y-2">
+        <div className="text-[10px] text-gray-500 uppercase tracking-wider">Kord Legal</div>
+        <div className="text-sm text-[#141414] dark:text-gray-300">{MESSAGES[resolved.status]}</div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { QUOTATION_LABELS } from "@/lib/quotations";
+import type { QuotationIssue } from "@/lib/types";
+
+// The brief's quotation against the opinion's words: struck text is the opinion's, added text is the brief's
+export function QuotationComparison({ issue, compact = false }: { issue: QuotationIssue; compact?: boolean }) {
+  const spacing = compact ? "p-3" : "p-4";
+
+  return (
+    <div className={`bg-[#1A1A1A] rounded ${spacing} border border-sky-900/30`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className="text-[10px] text-sky-400 uppercase tracking-wider font-semibold">{QUOTATION_LABELS[issue.status]}</div>
+        <div className="text-[9px] text-gray-500 uppercase tracking-wider">
+          {issue.caseName}
+          {issue.opinionPage !== null && ` · at ${issue.opinionPage}`}
+        </div>
+      </div>
+      {issue.diff.length > 0 ? (
+        <>
+          <div className="text-[12px] leading-relaxed" style={{ fontFamily: 'Baskerville, "Libre Baskerville", serif' }}>
+            {issue.diff.map((part, i) =>
+              part.type === "delete" ? (
+                <span key={i} className="bg-red-500/15 text-red-400 line-through">{part.text}</span>
+              ) : part.type === "insert" ? (
+                <span key={i} className="bg-emerald-500/15 text-emerald-400">{part.text}</span>
+              ) : (
+                <span key={i} className="text-gray-400">{part.text}</span>
+              )
+            )}
+          </div>
+          <div className="text-[9px] text-gray-500 mt-2">Struck: the opinion&apos;s words. Highlighted: the brief&apos;s.</div>
+        </>
+      ) : (
+        <div className="text-[11px] text-gray-400">No passage of the opinion is close to the quoted words.</div>
+      )}
+    </div>
+  );
+}
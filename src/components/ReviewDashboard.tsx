@@ -0,0 +1,1918 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+/* eslint-disable react/no-unescaped-entities */
+
+"use client";
+
+import { useState, useEffect, useCallback, useMemo, useRef } from "react";
+import mammoth from "mammoth";
+import { anchorMemo, anchorQuote, CATEGORY_FIELDS, segmentHighlights, TENTATIVE_CONFIDENCE, type HighlightCategory, type HighlightMark } from "@/lib/anchoring";
+import { COURT_PROFILES } from "@/lib/court-profiles";
+import { acceptsRecommendation } from "@/lib/fixes";
+import { pageLabel, type ExtractedDocument, type PageSpan } from "@/lib/documents";
+import { readInvestigationStream, type InvestigationEvent } from "@/lib/events";
+import { READINESS_COLORS, READINESS_LABELS } from "@/lib/memo-report";
+import { assessIssue, computeRiskMetrics } from "@/lib/scoring";
+import { STATUTE_LABELS, statuteForIssue, type StatuteCitation } from "@/lib/statutes";
+import { treatmentForIssue } from "@/lib/treatment";
+import { isClosed, TRIAGE_LABELS, triagedMemo } from "@/lib/triage";
+import type { AcceptedFix, AnalysisStatus, ApiErrorResponse, InvestigateRequest, IssueTriage, LegalReviewMemo, MatterDraft, SavedReview, SaveReviewRequest, Severity, SharedReview, ShareLink, StoredReview } from "@/lib/types";
+import { verificationForIssue } from "@/lib/verification";
+import { QuotationComparison } from "@/components/QuotationCheck";
+import { RewriteSuggestion } from "@/components/RewriteSuggestion";
+import { StatuteBadge, StatuteList } from "@/components/StatuteResults";
+import { SupportPassages } from "@/components/SupportCheck";
+import { TreatmentBadge } from "@/components/TreatmentResults";
+import { TRIAGE_STYLES, TriagePanel } from "@/components/TriagePanel";
+import { SourceComparison, VerificationBadge } from "@/components/VerificationResults";
+
+const SEVERITY_BADGES: Record<Severity, string> = {
+  critical: 'bg-red-500/20 text-red-400 border border-red-500',
+  high: 'bg-orange-500/20 text-orange-400 border border-orange-500',
+  medium: 'bg-amber-500/20 text-amber-400 border border-amber-500',
+  low: 'bg-slate-500/20 text-slate-400 border border-slate-500'
+};
+
+const CATEGORY_LABELS: Record<HighlightCategory, string> = {
+  hallucination: 'Hallucination',
+  critical: 'Bad Law',
+  quotation: 'Quotation',
+  formatting: 'Formatting'
+};
+
+// Secondary findings on a highlighted span show as extra underlines in these colours
+const UNDERLINE_COLORS: Record<HighlightCategory, string> = {
+  hallucination: '#ef4444',
+  critical: '#f97316',
+  quotation: '#0ea5e9',
+  formatting: '#eab308'
+};
+
+const QUOTATION_EXPLOIT = "Opposing counsel will set your quotation beside the opinion and argue that the brief rewrites the court's words to fit its argument. A misquotation invites the same Rule 11 scrutiny as a fabricated case and undermines every other quotation in the filing.";
+
+// Stores a finished review so it survives a reload; null when saving failed
+async function persistReview(request: SaveReviewRequest): Promise<SavedReview | null> {
+  try {
+    const response = await fetch('/api/reviews', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(request)
+    });
+    if (!response.ok) {
+      console.warn('Review could not be saved:', response.status);
+      return null;
+    }
+    return await response.json();
+  } catch (error) {
+    console.error('Review save error:', error);
+    return null;
+  }
+}
+
+// The key that manages a review's share links stays in the browser that saved the review
+const ownerKeyItem = (reviewId: string) => `kord-owner-key:${reviewId}`;
+
+function ownerKeyHeaders(reviewId: string): Record<string, string> {
+  const key = window.localStorage.getItem(ownerKeyItem(reviewId));
+  return key ? { 'X-Owner-Key': key } : {};
+}
+
+/**
+ * The upload / investigate / inspect workspace. Given a stored `review` it opens on that
+ * review; with a `share` link it is read-only and never sees the review's id.
+ */
+export default function ReviewDashboard({ review, share }: {
+  review?: StoredReview | SharedReview;
+  share?: Pick<ShareLink, "token" | "expiresAt">;
+}) {
+  const readOnly = !!share;
+  const [reviewId, setReviewId] = useState<string | null>(review && "id" in review ? review.id : null);
+  const [shareLinks, setShareLinks] = useState<ShareLink[]>([]);
+  // A share link's reader downloads through the link's token, never the review id
+  const exportBase = share ? `/api/shares/${share.token}` : reviewId ? `/api/reviews/${reviewId}` : null;
+  const [acceptedFixes, setAcceptedFixes] = useState<AcceptedFix[]>(review?.acceptedFixes || []);
+  const [triage, setTriage] = useState<IssueTriage[]>(review?.triage || []);
+  const [shareDays, setShareDays] = useState(7);
+  const [showSharePanel, setShowSharePanel] = useState(false);
+  const [briefText, setBriefText] = useState(review?.document || "");
+  const [matter, setMatter] = useState(review?.matter || "");
+  const [courtId, setCourtId] = useState(review?.memo.court?.courtId || "");
+  const [previousReviewId, setPreviousReviewId] = useState((review && "previousReviewId" in review && review.previousReviewId) || "");
+  // An earlier draft picked from the matter's list, by its handle
+  const [previousDraft, setPreviousDraft] = useState("");
+  const [earlierDrafts, setEarlierDrafts] = useState<MatterDraft[]>([]);
+  const [status, setStatus] = useState<AnalysisStatus>(review ? "complete" : "idle");
+  const [currentStep, setCurrentStep] = useState("");
+  const [progressLog, setProgressLog] = useState<{ message: string; status: string }[]>([]);
+  const [liveFindings, setLiveFindings] = useState({ hallucinations: 0, badLaw: 0, quotations: 0, formatting: 0 });
+  const [reviewMemo, setReviewMemo] = useState<LegalReviewMemo | null>(review?.memo || null);
+  const [submittedDocument, setSubmittedDocument] = useState<string | null>(review?.document || null);
+  const [uploadTime, setUploadTime] = useState<string>("");
+  const [isExtracting, setIsExtracting] = useState(false);
+  const [extractionError, setExtractionError] = useState<string>("");
+  const [analysisError, setAnalysisError] = useState<string>("");
+  const [selectedIssue, setSelectedIssue] = useState<any>(null);
+  const [selectedIssueType, setSelectedIssueType] = useState<string>("");
+  const [selectedIssueIndex, setSelectedIssueIndex] = useState(0);
+  const [selectedCategory, setSelectedCategory] = useState<string | null>(null);
+  const [expandedIssueId, setExpandedIssueId] = useState<string | null>(null);
+  const [copiedText, setCopiedText] = useState<string | null>(null);
+  const [uploadedFile, setUploadedFile] = useState<{ name: string; type: string } | null>(
+    review?.fileName ? { name: review.fileName, type: '' } : null
+  );
+  const [wordCount, setWordCount] = useState<number>(review ? review.document.trim().split(/\s+/).length : 0);
+  const [extractedPages, setExtractedPages] = useState<{ text: string; pages: PageSpan[] } | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const issueRefs = useRef<{ [key: string]: HTMLSpanElement | null }>({});
+
+  // Ensure dark class is always present for single-theme mode
+  useEffect(() => {
+    document.documentElement.classList.add("dark");
+  }, []);
+
+  // Earlier reviews of the same matter, so a new draft can be linked to the last one
+  useEffect(() => {
+    if (status !== "idle" || !matter.trim()) {
+      setEarlierDrafts([]);
+      return;
+    }
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/reviews?matter=${encodeURIComponent(matter.trim())}`);
+        if (response.ok) setEarlierDrafts(await response.json());
+      } catch (error) {
+        console.error('Draft list error:', error);
+      }
+    }, 400);
+    return () => clearTimeout(timer);
+  }, [matter, status]);
+
+  // Formatted in the browser so the stored time shows in the reader's timezone
+  useEffect(() => {
+    if (review) setUploadTime(new Date(review.createdAt).toLocaleString());
+  }, [review]);
+
+  // Hide scanline during analysis
+  useEffect(() => {
+    if (submittedDocument) {
+      document.body.classList.add("hide-scanline");
+    } else {
+      document.body.classList.remove("hide-scanline");
+    }
+  }, [submittedDocument]);
+
+  // Auto-select first high-risk category on analysis complete
+  useEffect(() => {
+    if (status === "complete" && reviewMemo && !selectedCategory && !selectedIssue) {
+      // Automatically select hallucinations category to show the list
+      if (reviewMemo.hallucinationSignals.length > 0) {
+        setSelectedCategory('hallucinations');
+        
+        // Scroll to first hallucination in document
+        setTimeout(() => {
+          const issueKey = `hallucination-0`;
+          const element = issueRefs.current[issueKey];
+          if (element) {
+            const viewer = document.getElementById('document-viewer');
+            if (viewer) {
+              const elementTop = element.offsetTop;
+              const viewerHeight = viewer.clientHeight;
+              const elementHeight = element.clientHeight;
+              const scrollPosition = elementTop - (viewerHeight / 2) + (elementHeight / 2);
+              
+              viewer.scrollTo({
+                top: scrollPosition,
+                behavior: 'smooth'
+              });
+            }
+          }
+        }, 300);
+      } else if (reviewMemo.criticalIssues.length > 0) {
+        // Fall back to bad law category if no hallucinations
+        setSelectedCategory('badLaw');
+        
+        setTimeout(() => {
+          const issueKey = `critical-0`;
+          const element = issueRefs.current[issueKey];
+          if (element) {
+            const viewer = document.getElementById('document-viewer');
+            if (viewer) {
+              const elementTop = element.offsetTop;
+              const viewerHeight = viewer.clientHeight;
+              const elementHeight = element.clientHeight;
+              const scrollPosition = elementTop - (viewerHeight / 2) + (elementHeight / 2);
+              
+              viewer.scrollTo({
+                top: scrollPosition,
+                behavior: 'smooth'
+              });
+            }
+          }
+        }, 300);
+      }
+    }
+  }, [status, reviewMemo, selectedCategory, selectedIssue]);
+
+  const performAnalysis = useCallback(async (text: string) => {
+    setStatus("analyzing");
+    setAnalysisError("");
+    
+    // Log for debugging different documents
+    console.log('=== NEW ANALYSIS ===');
+    console.log('Document length:', text.length);
+    console.log('First 150 chars:', text.substring(0, 150));
+    console.log('Timestamp:', new Date().toISOString());
+    
+    setProgressLog([]);
+    setLiveFindings({ hallucinations: 0, badLaw: 0, quotations: 0, formatting: 0 });
+    setReviewId(null);
+    setShareLinks([]);
+
+    // Show the memo, then store it so the review has a stable address
+    const finish = async (memo: LegalReviewMemo) => {
+      setReviewMemo(memo);
+      setStatus("complete");
+      const saved = await persistReview({
+        document: text,
+        fileName: uploadedFile?.name,
+        matter: matter.trim() || undefined,
+        previousReviewId: previousReviewId || undefined,
+        previousDraft: previousDraft || undefined,
+        memo
+      });
+      if (saved) {
+        window.localStorage.setItem(ownerKeyItem(saved.id), saved.ownerKey);
+        setReviewId(saved.id);
+        setPreviousReviewId(saved.previousReviewId || "");
+        setPreviousDraft("");
+        window.history.replaceState(null, '', `/review/${saved.id}`);
+      }
+    };
+
+    // Each stage and section is reported by the server as it actually runs
+    const onEvent = (event: InvestigationEvent) => {
+      if (event.type === 'stage' || event.type === 'section') {
+        setCurrentStep(event.message);
+        setProgressLog(log => [...log, { message: event.message, status: event.status }]);
+      } else if (event.type === 'findings') {
+        setLiveFindings(counts => ({
+          hallucinations: counts.hallucinations + (event.findings.hallucinationSignals?.length || 0),
+          badLaw: counts.badLaw + (event.findings.criticalIssues?.length || 0),
+          quotations: counts.quotations + (event.findings.quotationIssues?.length || 0),
+          formatting: counts.formatting + (event.findings.formattingIssues?.length || 0)
+        }));
+      }
+    };
+
+    try {
+      // The server parses and verifies citations, reviews each section and merges the results
+      setCurrentStep("Uploading document...");
+
+      console.log('Sending to API - Doc preview:', text.substring(0, 100));
+
+      const investigateRequest: InvestigateRequest = {
+        text,
+        fileName: uploadedFile?.name,
+        // Page numbers only hold while the text is exactly what was extracted
+        pages: extractedPages?.text === text ? extractedPages.pages : undefined,
+        options: { jurisdiction: courtId || undefined }
+      };
+      const response = await fetch('/api/investigate', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'text/event-stream' },
+        body: JSON.stringify(investigateRequest)
+      });
+
+      if (!response.ok || !response.body) {
+        const errorData: ApiErrorResponse = await response.json().catch(() => ({ error: '' }));
+        console.error('API Error Response:', errorData);
+        throw new Error(errorData.validationErrors
+          ? `${errorData.error}: ${errorData.validationErrors.slice(0, 3).join('; ')}`
+          : `API error: ${response.status} ${errorData.error || ''}`.trim());
+      }
+
+      const analysis = await readInvestigationStream(response.body, onEvent);
+      console.log('Successfully received AI analysis:', analysis);
+
+      await finish(analysis);
+      
+    } catch (error) {
+      // Nothing is shown or saved as a review unless the server produced one
+      console.error('Analysis error:', error);
+      setAnalysisError(`The review could not be completed: ${(error as Error).message}`);
+      setStatus("idle");
+    }
+  }, [uploadedFile, extractedPages, matter, courtId, previousReviewId, previousDraft]);
+
+  const handleSubmit = useCallback(() => {
+    if (!briefText.trim()) return;
+    
+    // Calculate word count if not already set
+    if (wordCount === 0) {
+      setWordCount(briefText.trim().split(/\s+/).length);
+    }
+    
+    setSubmittedDocument(briefText);
+    setUploadTime(new Date().toLocaleString());
+      performAnalysis(briefText);
+  }, [briefText, performAnalysis, wordCount]);
+
+  const handleFileUpload = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    // CRITICAL: Clear all previous analysis state for fresh analysis
+    setReviewMemo(null);
+    setStatus("idle");
+    setSubmittedDocument(null);
+    setSelectedCategory(null);
+    setSelectedIssue(null);
+    
+    setIsExtracting(true);
+    setExtractionError("");
+    setExtractedPages(null);
+  
+    // TXT files
+    if (file.type === "text/plain") {
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const text = e.target?.result as string;
+        setBriefText(text);
+        setUploadedFile({ name: file.name, type: 'text/plain' });
+        setWordCount(text.trim().split(/\s+/).length);
+        setIsExtracting(false);
+      };
+      reader.readAsText(file);
+      return;
+    }
+  
+    // DOCX files
+    if (
+      file.type ===
+      "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    ) {
+      try {
+        const arrayBuffer = await file.arrayBuffer();
+        const result = await mammoth.extractRawText({ arrayBuffer });
+        setBriefText(result.value);
+        setUploadedFile({ name: file.name, type: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' });
+        setWordCount(result.value.trim().split(/\s+/).length);
+        setIsExtracting(false);
+      } catch {
+        setIsExtracting(false);
+        setExtractionError("Unable to extract text from this document.");
+      }
+      return;
+    }
+  
+    // PDF and legacy .doc files are extracted server-side, keeping page boundaries
+    if (/\.(pdf|doc)$/i.test(file.name) || file.type === "application/pdf" || file.type === "application/msword") {
+      try {
+        const form = new FormData();
+        form.append('file', file);
+        const response = await fetch('/api/extract', { method: 'POST', body: form });
+        const result: ExtractedDocument | ApiErrorResponse = await response.json();
+        if (!response.ok || 'error' in result) {
+          throw new Error('error' in result ? result.error : `Extraction failed (${response.status})`);
+        }
+        setBriefText(result.text);
+        setExtractedPages(result.pages ? { text: result.text, pages: result.pages } : null);
+        setUploadedFile({ name: file.name, type: file.type || `application/${result.format}` });
+        setWordCount(result.text.trim().split(/\s+/).length);
+        setIsExtracting(false);
+      } catch (error) {
+        setIsExtracting(false);
+        setExtractionError((error as Error).message || "Unable to extract text from this document.");
+      }
+      return;
+    }
+
+    // Unsupported formats
+    setIsExtracting(false);
+    setExtractionError("Unsupported file format. Please upload a .txt, .doc, .docx or .pdf file.");
+    
+    event.target.value = "";
+  }, 
+  []
+);
+
+  const handleRemoveFile = useCallback(() => {
+    setUploadedFile(null);
+    setExtractedPages(null);
+    setBriefText("");
+    setWordCount(0);
+    if (fileInputRef.current) {
+      fileInputRef.current.value = "";
+    }
+  }, []);
+  const triageFor = (key: string) => triage.find(entry => entry.key === key);
+
+  // Dismissed and resolved findings drop out of the score, the counts and the highlights
+  const metrics = reviewMemo ? computeRiskMetrics(triagedMemo(reviewMemo, triage)) : null;
+
+  // Where each finding sits in the document, and which ones could not be placed
+  const anchoring = useMemo(
+    () => (reviewMemo && submittedDocument ? anchorMemo(submittedDocument, reviewMemo) : null),
+    [reviewMemo, submittedDocument]
+  );
+  const openMarks = anchoring?.marks.filter(mark => !isClosed(triageFor(mark.key))) || [];
+  const openUnanchored = anchoring?.unanchored.filter(({ key }) => !isClosed(triageFor(key))) || [];
+
+  // "p. 12" for an issue in a paged document; model quotes without offsets are located by text
+  const issuePage = (issue: { quote: string; start?: number; end?: number }) => {
+    if (!reviewMemo?.pages || !submittedDocument) return "";
+    if (issue.start !== undefined) return pageLabel(reviewMemo.pages, issue);
+    const anchor = anchorQuote(submittedDocument, issue.quote);
+    return anchor ? pageLabel(reviewMemo.pages, anchor) : "";
+  };
+
+  // One accepted fix per finding; the server has already stored the change
+  const handleFixChange = (key: string, fix: AcceptedFix | null) => {
+    setAcceptedFixes(fixes => [...fixes.filter(existing => existing.key !== key), ...(fix ? [fix] : [])]);
+  };
+
+  // Likewise one triage entry per finding, already saved
+  const handleTriageChange = (entry: IssueTriage) => {
+    setTriage(entries => [...entries.filter(existing => existing.key !== entry.key), entry]);
+  };
+
+  // Handle issue click
+  const handleIssueClick = (issue: any, type: string, index: number) => {
+    setSelectedIssue(issue);
+    setSelectedIssueType(type);
+    setSelectedIssueIndex(index);
+    setSelectedCategory(null);
+    setExpandedIssueId(`${type}-${index}`);
+    
+    const issueKey = `${type}-${index}`;
+    const element = issueRefs.current[issueKey];
+    if (element) {
+      const viewer = document.getElementById('document-viewer');
+      if (viewer) {
+        const elementTop = element.offsetTop;
+        const viewerHeight = viewer.clientHeight;
+        const elementHeight = element.clientHeight;
+        const scrollPosition = elementTop - (viewerHeight / 2) + (elementHeight / 2);
+        
+        viewer.scrollTo({
+          top: scrollPosition,
+          behavior: 'smooth'
+        });
+      }
+    }
+  };
+
+  // A statute in the list opens the first finding raised on it, if any
+  const handleStatuteClick = (statute: StatuteCitation) => {
+    if (!reviewMemo) return;
+    const found = (Object.keys(CATEGORY_FIELDS) as HighlightCategory[])
+      .flatMap(type => (reviewMemo[CATEGORY_FIELDS[type]] as Array<{ citationId?: string }>).map((issue, index) => ({ issue, type, index })))
+      .find(({ issue }) => issue.citationId === statute.id);
+    if (found) handleIssueClick(found.issue, found.type, found.index);
+  };
+
+  // Handle category click
+  const handleCategoryClick = (category: string) => {
+    setSelectedCategory(category);
+    setSelectedIssue(null);
+    setExpandedIssueId(null);
+    
+    // Scroll to first issue of this type
+    if (reviewMemo) {
+      let firstIssueKey = '';
+      if (category === 'hallucinations' && reviewMemo.hallucinationSignals.length > 0) {
+        firstIssueKey = 'hallucination-0';
+      } else if (category === 'badLaw' && reviewMemo.criticalIssues.length > 0) {
+        firstIssueKey = 'critical-0';
+      } else if (category === 'quotations' && reviewMemo.quotationIssues.length > 0) {
+        firstIssueKey = 'quotation-0';
+      } else if (category === 'formatting' && reviewMemo.formattingIssues.length > 0) {
+        firstIssueKey = 'formatting-0';
+      }
+      
+      if (firstIssueKey) {
+        const element = issueRefs.current[firstIssueKey];
+        if (element) {
+          const viewer = document.getElementById('document-viewer');
+          if (viewer) {
+            const elementTop = element.offsetTop;
+            const viewerHeight = viewer.clientHeight;
+            const elementHeight = element.clientHeight;
+            const scrollPosition = elementTop - (viewerHeight / 2) + (elementHeight / 2);
+            
+            viewer.scrollTo({
+              top: scrollPosition,
+              behavior: 'smooth'
+            });
+          }
+        }
+      }
+    }
+  };
+
+  // Get issues by category
+  const getIssuesByCategory = () => {
+    if (!reviewMemo || !selectedCategory) return [];
+    
+    if (selectedCategory === 'hallucinations') {
+      return reviewMemo.hallucinationSignals.map((signal, idx) => ({
+        ...signal,
+        type: 'hallucination',
+        index: idx
+      }));
+    } else if (selectedCategory === 'badLaw') {
+      return reviewMemo.criticalIssues.map((issue, idx) => ({
+        ...issue,
+        type: 'critical',
+        index: idx
+      }));
+    } else if (selectedCategory === 'quotations') {
+      return reviewMemo.quotationIssues.map((issue, idx) => ({
+        ...issue,
+        type: 'quotation',
+        index: idx
+      }));
+    } else if (selectedCategory === 'formatting') {
+      return reviewMemo.formattingIssues.map((issue, idx) => ({
+        ...issue,
+        type: 'formatting',
+        index: idx
+      }));
+    }
+    return [];
+  };
+
+  // Severity and confidence as the scoring model sees them
+  const getSeverity = (issue: any, type: string) => assessIssue(type as HighlightCategory, issue, reviewMemo!);
+
+  return (
+    <main className="min-h-screen bg-[#FAF9F6] dark:bg-[#050505] transition-colors duration-200">
+
+      {/* Pre-Upload State: Landing Page */}
+      {!submittedDocument ? (
+        <div className="min-h-screen flex flex-col">
+          <div className="flex-1 flex items-center justify-center px-4 py-8">
+            <div className="w-full mx-auto text-center space-y-6" style={{ maxWidth: '800px' }}>
+              {/* Header Section */}
+          <div className="space-y-4">
+                <div className="text-xs tracking-[0.3em] text-gray-500 dark:text-gray-500 uppercase font-medium">
+                KORD LEGAL
+              </div>
+              
+                <h1 
+                  className="text-5xl md:text-6xl font-light text-[#1A1A1A] dark:text-white leading-tight"
+                  style={{ fontFamily: 'Baskerville, "Libre Baskerville", "Playfair Display", Georgia, serif', letterSpacing: '0.05em' }}
+                >
+                  AI Legal Brief Investigator
+              </h1>
+              
+                <p className="text-base md:text-lg text-gray-700 dark:text-gray-400 leading-relaxed mx-auto">
+                  Sanction-proof your legal briefs in seconds. Kord investigates every citation to uncover hallucinations and strategic vulnerabilities.
+              </p>
+            </div>
+
+              {/* Security Metadata */}
+              <div className="text-center">
+                <p className="text-[9px] text-gray-400 dark:text-gray-600 uppercase tracking-[0.15em] font-medium">
+                  System Status: Secured // Encryption: Active
+                </p>
+              </div>
+
+              {/* Input Section */}
+              <div className="space-y-4 relative">
+                {uploadedFile ? (
+                  /* File Preview Card */
+                  <div className="bg-[#F2F1ED] dark:bg-[#0F0F0F] rounded-xl p-6 shadow-xl border border-gray-200/30 dark:border-white/5">
+                    <div className="flex items-start gap-4">
+                      <div className="p-3 bg-[#E8E6E1] dark:bg-[#1A1A1A] rounded-lg">
+                        {uploadedFile.type.includes('word') || uploadedFile.type.includes('document') ? (
+                          <svg className="w-8 h-8 text-gray-400" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8l-6-6z"/>
+                            <path d="M14 2v6h6M10 14l-1 4h6l-1-4-2 2-2-2z"/>
+                          </svg>
+                        ) : (
+                          <svg className="w-8 h-8 text-gray-400" fill="currentColor" viewBox="0 0 24 24">
+                            <path d="M14 2H6a2 2 0 00-2 2v16a2 2 0 002 2h12a2 2 0 002-2V8l-6-6z"/>
+                            <path d="M14 2v6h6M16 13H8M16 17H8M10 9H8"/>
+                          </svg>
+                        )}
+                      </div>
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-start justify-between gap-2">
+                          <div className="flex-1 min-w-0">
+                            <h3 className="text-sm font-medium text-[#1A1A1A] dark:text-gray-200 truncate">{uploadedFile.name}</h3>
+                            <p className="text-xs text-gray-600 dark:text-gray-500 mt-1">{wordCount.toLocaleString()} words extracted</p>
+                          </div>
+                          <button
+                            onClick={handleRemoveFile}
+                            className="p-1 hover:bg-red-900/20 rounded transition-colors flex-shrink-0"
+                            aria-label="Remove file"
+                          >
+                            <svg className="w-5 h-5 text-gray-500 hover:text-red-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+                            </svg>
+                          </button>
+                        </div>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <div className="relative max-w-2xl mx-auto">
+              <textarea
+                value={briefText}
+                      onChange={(e) => {
+                        setBriefText(e.target.value);
+                        setWordCount(e.target.value.trim().split(/\s+/).filter(w => w.length > 0).length);
+                        setExtractionError("");
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) {
+                          handleSubmit();
+                        }
+                      }}
+                      rows={3}
+                      disabled={isExtracting}
+                      className="w-full px-6 py-4 bg-[#F2F1ED] dark:bg-[#0F0F0F] border border-gray-200/30 dark:border-white/5 rounded-xl focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-700 transition-all resize-none text-[#1A1A1A] dark:text-white placeholder-gray-500 dark:placeholder-gray-600 text-base disabled:opacity-50 disabled:cursor-not-allowed shadow-xl"
+                      placeholder="Upload or paste document to begin"
+                    />
+                    
+                    <input
+                      type="file"
+                      ref={fileInputRef}
+                      onChange={handleFileUpload}
+                      accept=".txt,.doc,.docx,.pdf"
+                      className="hidden"
+                      disabled={isExtracting}
+              />
+              
+                    <div className="absolute bottom-4 right-4 flex items-center gap-3 z-10">
+                <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isExtracting}
+                        className="p-2 hover:bg-gray-200 dark:hover:bg-[#1A1A1A] rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                  aria-label="Upload file"
+                >
+                        <svg className="w-5 h-5 text-gray-600 dark:text-gray-500" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
+                  </svg>
+                </button>
+              </div>
+            </div>
+                )}
+
+                {/* Document Detection Status */}
+                {(briefText.trim() || uploadedFile) && !isExtracting && (
+                  <div className="flex items-center gap-2 text-xs text-gray-600 dark:text-gray-400 bg-[#F2F1ED] dark:bg-[#0F0F0F]/50 rounded-lg px-4 py-2.5 border border-gray-200/30 dark:border-white/5">
+                    <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse" />
+                    <span>
+                      Document detected: <span className="text-[#1A1A1A] dark:text-white font-semibold">{wordCount.toLocaleString()}</span> words. 
+                      Ready to scan for <span className="text-[#1A1A1A] dark:text-white font-semibold">4 critical vulnerability types</span>.
+                    </span>
+              </div>
+            )}
+
+                {/* Matter, printed on the review memorandum */}
+                {(briefText.trim() || uploadedFile) && !isExtracting && (
+                  <input
+                    type="text"
+                    value={matter}
+                    onChange={(e) => setMatter(e.target.value)}
+                    maxLength={255}
+                    placeholder="Matter (optional), e.g. Acme v. Widget Co., No. 24-cv-0113"
+                    className="w-full px-4 py-2.5 bg-[#F2F1ED] dark:bg-[#0F0F0F] border border-gray-200/30 dark:border-white/5 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-700 text-sm text-[#1A1A1A] dark:text-white placeholder-gray-500 dark:placeholder-gray-600"
+                  />
+                )}
+
+                {/* Target court, whose local rules are checked alongside the model review */}
+                {(briefText.trim() || uploadedFile) && !isExtracting && (
+                  <select
+                    value={courtId}
+                    onChange={(e) => setCourtId(e.target.value)}
+                    className="w-full px-4 py-2.5 bg-[#F2F1ED] dark:bg-[#0F0F0F] border border-gray-200/30 dark:border-white/5 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-700 text-sm text-[#1A1A1A] dark:text-white"
+                  >
+                    <option value="">Target court (optional): no local-rule checks</option>
+                    {COURT_PROFILES.map(profile => (
+                      <option key={profile.courtId} value={profile.courtId}>
+                        {profile.abbreviation}: {profile.documentType}
+                      </option>
+                    ))}
+                  </select>
+                )}
+
+                {/* Earlier draft of this matter, compared against once the review completes */}
+                {(briefText.trim() || uploadedFile) && !isExtracting && (earlierDrafts.length > 0 || previousReviewId) && (
+                  <select
+                    value={previousDraft || previousReviewId}
+                    onChange={(e) => {
+                      setPreviousReviewId("");
+                      setPreviousDraft(e.target.value);
+                    }}
+                    className="w-full px-4 py-2.5 bg-[#F2F1ED] dark:bg-[#0F0F0F] border border-gray-200/30 dark:border-white/5 rounded-lg focus:outline-none focus:ring-1 focus:ring-gray-400 dark:focus:ring-gray-700 text-sm text-[#1A1A1A] dark:text-white"
+                  >
+                    <option value="">Previous draft (optional): not a redraft</option>
+                    {previousReviewId && (
+                      <option value={previousReviewId}>The review just closed</option>
+                    )}
+                    {earlierDrafts.map(draft => (
+                      <option key={draft.draft} value={draft.draft}>
+                        {new Date(draft.createdAt).toLocaleString()} · {draft.fileName || 'Pasted text'} · score {draft.score}
+                      </option>
+                    ))}
+                  </select>
+                )}
+          </div>
+
+              {/* Extraction Status */}
+              {isExtracting && (
+                <div className="text-sm text-gray-500 flex items-center justify-center gap-2">
+                  <div className="w-1.5 h-1.5 bg-gray-600 rounded-full animate-pulse" />
+                  Extracting document text
+                </div>
+              )}
+
+              {/* Extraction Error */}
+              {extractionError && (
+                <div className="text-sm text-red-400 bg-red-950/30 border-0 rounded-lg px-4 py-3">
+                  {extractionError}
+              </div>
+            )}
+
+              {/* Analysis Error: nothing was saved, so the same document can be run again */}
+              {analysisError && (
+                <div className="text-sm text-red-400 bg-red-950/30 border-0 rounded-lg px-4 py-3">
+                  {analysisError}
+                </div>
+              )}
+
+              {/* Commence Investigation Button */}
+              {!isExtracting && briefText.trim() && (
+                <button
+                  onClick={handleSubmit}
+                  className="px-8 py-4 rounded-lg font-semibold text-base transition-all bg-white text-[#1A1A1A] hover:opacity-90 cursor-pointer border border-gray-300"
+                >
+                  Commence Investigation
+                </button>
+              )}
+            </div>
+          </div>
+        </div>
+      ) : (
+        /* Post-Upload State: 3-Panel Dashboard */
+        <div className="h-screen overflow-hidden flex flex-col">
+          <div className="flex-1 flex overflow-hidden">
+            {/* Left Sidebar: Summary & Risk Score */}
+            <div className="w-72 bg-[#F2F1ED] dark:bg-[#0F0F0F] p-6 h-full overflow-y-auto flex flex-col gap-6 sticky top-0">
+              {/* Header */}
+                <div>
+                <div className="flex items-center justify-between">
+                  {readOnly ? (
+                    <div className="text-[10px] text-[#141414] dark:text-gray-500 uppercase tracking-wider">
+                      Shared Review · Read Only
+                    </div>
+                  ) : (
+                  <button
+                    onClick={() => {
+                      // Clear all state to return to upload state; the matter is kept and the
+                      // next upload is linked to this review as its previous draft
+                      setPreviousReviewId(reviewId || "");
+                      setPreviousDraft("");
+                      setReviewId(null);
+                      setShareLinks([]);
+                      setAcceptedFixes([]);
+                      setTriage([]);
+                      setShowSharePanel(false);
+                      window.history.pushState(null, '', '/');
+                      setSubmittedDocument(null);
+                      setBriefText("");
+                      setStatus("idle");
+                      setReviewMemo(null);
+                      setSelectedIssue(null);
+                      setSelectedIssueType("");
+                      setSelectedCategory(null);
+                      setExpandedIssueId(null);
+                      setUploadedFile(null);
+                      setExtractedPages(null);
+                      setWordCount(0);
+                      setIsExtracting(false);
+                      setExtractionError("");
+                      setUploadTime("");
+                      setCopiedText(null);
+                    }}
+                    className="text-[10px] text-[#141414] dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-400 transition-colors uppercase tracking-wider"
+                  >
+                    ← New Analysis
+                  </button>
+                  )}
+                </div>
+                <div className="text-[9px] text-[#141414] dark:text-gray-600 mt-2 uppercase tracking-wide">
+                  {uploadTime}
+                </div>
+                {share && (
+                  <div className="text-[9px] text-gray-500 mt-1 uppercase tracking-wide">
+                    Link expires {new Date(share.expiresAt).toLocaleDateString()}
+                  </div>
+                )}
+              </div>
+
+              {status === "analyzing" && (
+                <div className="flex flex-col items-center justify-center py-12 space-y-6">
+                  <div className="relative">
+                    <div className="w-20 h-20 border-4 border-gray-800 border-t-gray-400 rounded-full animate-spin" />
+                    <div className="absolute inset-0 flex items-center justify-center">
+                      <svg className="w-10 h-10 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+                      </svg>
+                    </div>
+                  </div>
+                  <div className="space-y-2 text-center">
+                    <div className="text-sm text-gray-300 font-medium">
+                      Investigation In Progress
+                    </div>
+                    <div className="text-xs text-gray-500 flex items-center gap-2">
+                      <div className="w-1.5 h-1.5 bg-gray-400 rounded-full animate-pulse" />
+                      {currentStep}
+                    </div>
+                  </div>
+                  {progressLog.length > 0 && (
+                    <div className="w-full space-y-1 max-h-48 overflow-y-auto">
+                      {progressLog.map((entry, i) => (
+                        <div key={i} className="text-[10px] flex items-start gap-2">
+                          <span className={
+                            entry.status === 'failed' ? 'text-red-500' :
+                            entry.status === 'retrying' || entry.status === 'skipped' ? 'text-amber-500' :
+                            entry.status === 'completed' ? 'text-emerald-500' : 'text-gray-500'
+                          }>
+                            {entry.status === 'failed' ? '✕' : entry.status === 'completed' ? '✓' : '›'}
+                          </span>
+                          <span className="text-gray-500">{entry.message}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-4 gap-2 w-full text-center">
+                    <div>
+                      <div className="text-lg font-semibold text-red-500">{liveFindings.hallucinations}</div>
+                      <div className="text-[9px] text-gray-500 uppercase tracking-wider">Hallucinations</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-orange-500">{liveFindings.badLaw}</div>
+                      <div className="text-[9px] text-gray-500 uppercase tracking-wider">Bad Law</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-sky-500">{liveFindings.quotations}</div>
+                      <div className="text-[9px] text-gray-500 uppercase tracking-wider">Quotations</div>
+                    </div>
+                    <div>
+                      <div className="text-lg font-semibold text-yellow-500">{liveFindings.formatting}</div>
+                      <div className="text-[9px] text-gray-500 uppercase tracking-wider">Formatting</div>
+                    </div>
+                  </div>
+                </div>
+              )}
+
+              {status === "complete" && metrics && (
+                <>
+                  {/* Risk Score */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-6 space-y-4 border border-gray-200 dark:border-white/5">
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider">Risk Score</div>
+                    <div className="relative">
+                      <svg className="w-32 h-32 mx-auto transform -rotate-90">
+                        <circle
+                          cx="64"
+                          cy="64"
+                          r="56"
+                          stroke="#E8E6E1"
+                          className="dark:stroke-[#1A1A1A]"
+                          strokeWidth="10"
+                          fill="none"
+                        />
+                        <circle
+                          cx="64"
+                          cy="64"
+                          r="56"
+                          stroke={READINESS_COLORS[metrics.readiness]}
+                          strokeWidth="10"
+                          fill="none"
+                          strokeDasharray={`${(metrics.score / 100) * 351.86} 351.86`}
+                          strokeLinecap="round"
+                          style={{
+                            filter: `drop-shadow(0 0 8px ${READINESS_COLORS[metrics.readiness]}44)`
+                          }}
+                        />
+                      </svg>
+                      <div className="absolute inset-0 flex items-center justify-center">
+                        <div className="text-center">
+                          <div className="text-4xl font-bold text-[#1A1A1A] dark:text-white">{metrics.score}</div>
+                          <div className="text-[10px] text-gray-500">/ 100</div>
+                        </div>
+                      </div>
+                    </div>
+                    <div className="text-center text-xs font-semibold uppercase tracking-wider" style={{ color: READINESS_COLORS[metrics.readiness] }}>
+                      {READINESS_LABELS[metrics.readiness]}
+                    </div>
+                    <div className="text-center text-[10px] text-gray-500">{metrics.model} scoring</div>
+                  </div>
+
+                  {/* Review Coverage */}
+                  {reviewMemo && (() => {
+                    const reviewed = reviewMemo.coverage.sections.filter(section => section.status === 'reviewed').length;
+                    const total = reviewMemo.coverage.sections.length;
+                    return (
+                      <div className={`rounded-lg px-4 py-3 border text-[11px] ${
+                        reviewed === total
+                          ? 'border-gray-200 dark:border-white/5 text-gray-500'
+                          : 'border-orange-500/30 bg-orange-900/10 text-orange-400'
+                      }`}>
+                        <div className="text-[10px] uppercase tracking-wider mb-1">Coverage</div>
+                        {reviewed} of {total} sections reviewed ({reviewMemo.coverage.totalChars.toLocaleString()} chars)
+                        <div className="mt-1 text-gray-500 font-mono text-[10px] break-all">
+                          {reviewMemo.model ? `${reviewMemo.model.provider} / ${reviewMemo.model.name}` : 'Model not recorded'} · {reviewMemo.promptVersion}
+                        </div>
+                      </div>
+                    );
+                  })()}
+
+                  {/* Court Rules */}
+                  {reviewMemo?.court && (
+                    <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-5 border border-gray-200 dark:border-white/5">
+                      <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">Court Rules</div>
+                      <div className="text-[11px] text-gray-400 mb-3">
+                        {reviewMemo.court.court} · {reviewMemo.court.words.toLocaleString()} words · {reviewMemo.court.pages}
+                        {reviewMemo.court.pagesEstimated ? ' pages (est.)' : ' pages'}
+                      </div>
+                      <div className="space-y-2">
+                        {reviewMemo.court.checks.map((check, i) => (
+                          <div key={i} className="text-[11px] leading-snug" title={check.detail}>
+                            <span className={
+                              check.status === 'pass' ? 'text-emerald-400' : check.status === 'fail' ? 'text-red-400' : 'text-gray-500'
+                            }>
+                              {check.status === 'pass' ? '✓' : check.status === 'fail' ? '✕' : '?'}
+                            </span>{' '}
+                            <span className="text-gray-300">{check.requirement}</span>
+                            <div className="text-[10px] text-gray-500 pl-4">{check.rule}{check.status !== 'pass' && ` · ${check.detail}`}</div>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Category Breakdown */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-5 space-y-4 border border-gray-200 dark:border-white/5">
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">Issue Breakdown</div>
+                    
+                    {/* Hallucinations */}
+                    <button
+                      onClick={() => handleCategoryClick('hallucinations')}
+                      className={`w-full text-left space-y-2 p-3 rounded-lg transition-all ${
+                        selectedCategory === 'hallucinations'
+                          ? 'bg-red-900/20 border border-red-500/30'
+                          : 'hover:bg-[#E8E6E1] dark:hover:bg-[#1A1A1A]'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-400">Hallucinations</span>
+                        <span className="text-xs font-medium text-red-400">
+                          {metrics.hallucinations} <span className="text-[10px] text-gray-500 font-normal">· {metrics.subScores.hallucination}/100</span>
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-gray-200 dark:bg-[#1A1A1A] rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-gradient-to-r from-red-600 to-red-500 rounded-full transition-all duration-500"
+                          style={{ width: `${100 - metrics.subScores.hallucination}%` }}
+                        />
+                      </div>
+                    </button>
+
+                    {/* Bad Law */}
+                    <button
+                      onClick={() => handleCategoryClick('badLaw')}
+                      className={`w-full text-left space-y-2 p-3 rounded-lg transition-all ${
+                        selectedCategory === 'badLaw'
+                          ? 'bg-orange-900/20 border border-orange-500/30'
+                          : 'hover:bg-[#E8E6E1] dark:hover:bg-[#1A1A1A]'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-400">Bad Law</span>
+                        <span className="text-xs font-medium text-orange-400">
+                          {metrics.badLaw} <span className="text-[10px] text-gray-500 font-normal">· {metrics.subScores.critical}/100</span>
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-gray-200 dark:bg-[#1A1A1A] rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-gradient-to-r from-orange-600 to-orange-500 rounded-full transition-all duration-500"
+                          style={{ width: `${100 - metrics.subScores.critical}%` }}
+                        />
+                      </div>
+                      {reviewMemo?.support && (
+                        <div className="text-[10px] text-gray-500">
+                          {reviewMemo.support.checks.filter(check => check.status === 'supported').length} of {reviewMemo.support.checks.length} cited propositions supported by the opinion
+                        </div>
+                      )}
+                    </button>
+
+                    {/* Quotations */}
+                    <button
+                      onClick={() => handleCategoryClick('quotations')}
+                      className={`w-full text-left space-y-2 p-3 rounded-lg transition-all ${
+                        selectedCategory === 'quotations'
+                          ? 'bg-sky-900/20 border border-sky-500/30'
+                          : 'hover:bg-[#E8E6E1] dark:hover:bg-[#1A1A1A]'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-400">Quotations</span>
+                        <span className="text-xs font-medium text-sky-400">
+                          {metrics.quotations} <span className="text-[10px] text-gray-500 font-normal">· {metrics.subScores.quotation}/100</span>
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-gray-200 dark:bg-[#1A1A1A] rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-gradient-to-r from-sky-600 to-sky-500 rounded-full transition-all duration-500"
+                          style={{ width: `${100 - metrics.subScores.quotation}%` }}
+                        />
+                      </div>
+                      {reviewMemo?.quotations && (
+                        <div className="text-[10px] text-gray-500">
+                          {reviewMemo.quotations.checks.filter(check => check.status === 'exact').length} of {reviewMemo.quotations.checks.length} checked quotations exact
+                        </div>
+                      )}
+                    </button>
+
+                    {/* Formatting */}
+                    <button
+                      onClick={() => handleCategoryClick('formatting')}
+                      className={`w-full text-left space-y-2 p-3 rounded-lg transition-all ${
+                        selectedCategory === 'formatting'
+                          ? 'bg-slate-800/40 border border-slate-600/30'
+                          : 'hover:bg-[#E8E6E1] dark:hover:bg-[#1A1A1A]'
+                      }`}
+                    >
+                      <div className="flex justify-between items-center">
+                        <span className="text-xs text-gray-400">Formatting</span>
+                        <span className="text-xs font-medium text-slate-400">
+                          {metrics.formatting} <span className="text-[10px] text-gray-500 font-normal">· {metrics.subScores.formatting}/100</span>
+                        </span>
+                      </div>
+                      <div className="h-1.5 bg-gray-200 dark:bg-[#1A1A1A] rounded-full overflow-hidden">
+                        <div 
+                          className="h-full bg-gradient-to-r from-slate-600 to-slate-500 rounded-full transition-all duration-500"
+                          style={{ width: `${100 - metrics.subScores.formatting}%` }}
+                        />
+                      </div>
+                    </button>
+                  </div>
+
+                  {reviewMemo?.statutes && reviewMemo.statutes.citations.length > 0 && (
+                    <StatuteList report={reviewMemo.statutes} onSelect={handleStatuteClick} />
+                  )}
+
+                </>
+              )}
+            </div>
+
+            {/* Center Panel: Document Viewer */}
+            <div className="flex-1 bg-[#F2F1ED] dark:bg-[#0F0F0F] h-full overflow-y-auto relative" id="document-viewer">
+              {/* Enhanced Heatmap Scrollbar */}
+              <div className="hidden absolute right-0 top-0 bottom-0 w-1.5 bg-[#E8E6E1] dark:bg-[#0A0A0A] z-10">
+                {status === "complete" && reviewMemo && (
+                  <>
+                    {/* Hallucination markers */}
+                    {reviewMemo.hallucinationSignals.map((signal, idx) => !isClosed(triageFor(`hallucination-${idx}`)) && (
+                      <button
+                        key={`heatmap-hallucination-${idx}`}
+                        onClick={() => handleIssueClick(signal, 'hallucination', idx)}
+                        className="absolute left-0 right-0 bg-red-500 hover:bg-red-400 transition-all cursor-pointer group"
+                        style={{
+                          top: `${10 + (idx * 15)}%`,
+                          height: '32px',
+                          width: '6px'
+                        }}
+                        title={`Hallucination found - Click to view`}
+                      >
+                        <span className="absolute left-full ml-2 px-2 py-1 bg-gray-900 text-white text-[10px] rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                          Hallucination found
+                        </span>
+                      </button>
+                    ))}
+                    {/* Critical issue markers */}
+                    {reviewMemo.criticalIssues.map((issue, idx) => !isClosed(triageFor(`critical-${idx}`)) && (
+                      <button
+                        key={`heatmap-critical-${idx}`}
+                        onClick={() => handleIssueClick(issue, 'critical', idx)}
+                        className="absolute left-0 right-0 bg-orange-500 hover:bg-orange-400 transition-all cursor-pointer group"
+                        style={{
+                          top: `${35 + (idx * 12)}%`,
+                          height: '28px',
+                          width: '6px'
+                        }}
+                        title={`Bad Law found - Click to view`}
+                      >
+                        <span className="absolute left-full ml-2 px-2 py-1 bg-gray-900 text-white text-[10px] rounded whitespace-nowrap opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none">
+                          Bad Law found
+                        </span>
+                      </button>
+                    ))}
+                  </>
+                )}
+              </div>
+
+              <div className="max-w-4xl mx-auto px-12 py-16">
+                {/* Findings whose quote could not be matched to the text are listed, not dropped */}
+                {status === "complete" && reviewMemo && openUnanchored.length > 0 && (
+                  <div className="mb-8 rounded-lg border border-amber-500/30 bg-amber-500/5 p-4">
+                    <div className="text-[10px] text-amber-500 uppercase tracking-wider font-semibold mb-3">
+                      {openUnanchored.length} finding{openUnanchored.length > 1 ? 's' : ''} not located in the document
+                    </div>
+                    <div className="space-y-2">
+                      {openUnanchored.map(({ key, category, index, quote }) => (
+                        <button
+                          key={key}
+                          onClick={() => handleIssueClick(reviewMemo[CATEGORY_FIELDS[category]][index], category, index)}
+                          className="w-full text-left flex items-start gap-3 text-[11px] hover:bg-amber-500/10 rounded px-2 py-1 transition-colors"
+                        >
+                          <span className="text-[9px] uppercase tracking-wider text-gray-500 w-20 flex-shrink-0 pt-0.5">
+                            {CATEGORY_LABELS[category]}
+                          </span>
+                          <span className="font-mono text-gray-400 line-clamp-2">"{quote}"</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+                {status === "complete" && reviewMemo ? (
+                  <div 
+                    className="text-[15px] whitespace-pre-wrap leading-[1.9] font-light text-[#141414] dark:text-white"
+                    style={{ fontFamily: 'Baskerville, "Libre Baskerville", serif' }}
+                  >
+                    {(() => {
+                      if (!submittedDocument) return null;
+                      
+                      // Findings are anchored by offset or by quote; overlapping ones are all drawn
+                      const citationMarks = reviewMemo.citations
+                        .filter(citation => citation.kind === 'full' || citation.kind === 'short')
+                        .filter(citation => !openMarks.some(mark => citation.fullStart < mark.end && citation.fullEnd > mark.start));
+                      const segments = segmentHighlights(submittedDocument.length, openMarks);
+                      const issueFor = (mark: HighlightMark): any => reviewMemo[CATEGORY_FIELDS[mark.category]][mark.index];
+                      const markStyles: Record<HighlightCategory, string> = {
+                        hallucination: 'bg-red-500/20 border-red-500 hover:bg-red-500/30',
+                        critical: 'bg-orange-500/20 border-orange-500 hover:bg-orange-500/30',
+                        quotation: 'bg-sky-500/15 border-sky-500 hover:bg-sky-500/25',
+                        formatting: 'bg-yellow-500/15 border-yellow-500 hover:bg-yellow-500/25'
+                      };
+                      const ringStyles: Record<HighlightCategory, string> = {
+                        hallucination: 'ring-red-400',
+                        critical: 'ring-orange-400',
+                        quotation: 'ring-sky-400',
+                        formatting: 'ring-yellow-400'
+                      };
+                      const placed = new Set<string>();
+
+                      // Plain text, with parsed-but-unflagged citations given a dotted underline
+                      const plain = (start: number, end: number) => {
+                        const pieces: React.ReactNode[] = [];
+                        let at = start;
+                        citationMarks
+                          .filter(citation => citation.fullStart >= start && citation.fullEnd <= end)
+                          .forEach(citation => {
+                            if (citation.fullStart < at) return;
+                            if (citation.fullStart > at) pieces.push(submittedDocument.substring(at, citation.fullStart));
+                            pieces.push(
+                              <span
+                                key={`citation-${citation.id}`}
+                                className="border-b border-dotted border-gray-500"
+                                title={[citation.caseName, citation.court, citation.year].filter(Boolean).join(' · ') || 'Citation'}
+                              >
+                                {submittedDocument.substring(citation.fullStart, citation.fullEnd)}
+                              </span>
+                            );
+                            at = citation.fullEnd;
+                          });
+                        if (at < end) pieces.push(submittedDocument.substring(at, end));
+                        return pieces;
+                      };
+
+                      const parts = segments.flatMap<React.ReactNode>(({ start, end, marks }) => {
+                        if (marks.length === 0) return plain(start, end);
+
+                        // The most severe finding colours the span; the others show as extra underlines
+                        const [top, ...others] = marks;
+                        const isSelected = marks.some(mark => expandedIssueId === mark.key || selectedIssue === issueFor(mark));
+                        const tentative = top.confidence < TENTATIVE_CONFIDENCE;
+                        const firstFor = marks.filter(mark => !placed.has(mark.key));
+                        firstFor.forEach(mark => placed.add(mark.key));
+                        const underlines = others
+                          .filter(mark => mark.category !== top.category)
+                          .map(mark => UNDERLINE_COLORS[mark.category]);
+
+                        return (
+                          <span
+                            key={`${start}-${end}`}
+                            ref={(el) => { firstFor.forEach(mark => { issueRefs.current[mark.key] = el; }); }}
+                            className={`${markStyles[top.category]} border-b-2 ${tentative ? 'border-dashed' : ''} cursor-pointer transition-colors ${
+                              isSelected ? `ring-2 ${ringStyles[top.category]} ring-offset-2 ring-offset-[#1A1A1A]` : ''
+                            }`}
+                            style={underlines.length ? { boxShadow: underlines.map((color, i) => `0 ${2 + (i + 1) * 2}px 0 ${color}`).join(', ') } : undefined}
+                            title={[
+                              `${marks.length} finding${marks.length > 1 ? 's' : ''}`,
+                              tentative ? `approximate match (${Math.round(top.confidence * 100)}%)` : ''
+                            ].filter(Boolean).join(' · ')}
+                            onClick={() => handleIssueClick(issueFor(top), top.category, top.index)}
+                          >
+                            {submittedDocument.substring(start, end)}
+                          </span>
+                        );
+                      });
+
+                      return parts;
+                    })()}
+                  </div>
+                ) : (
+                  <pre 
+                    className="text-[15px] whitespace-pre-wrap leading-[1.9] font-light text-[#141414] dark:text-white"
+                    style={{ fontFamily: 'Baskerville, "Libre Baskerville", serif' }}
+                  >
+                    {submittedDocument}
+                  </pre>
+                )}
+              </div>
+            </div>
+
+            {/* Right Panel: Inspector */}
+            <div className="w-80 bg-[#F2F1ED] dark:bg-[#0F0F0F] p-6 h-full overflow-y-auto sticky top-0">
+              <div className="text-[10px] text-[#141414] dark:text-gray-500 uppercase tracking-wider mb-6">
+                {selectedIssue ? "Issue Details" : "Inspector"}
+              </div>
+
+              {/* Category List View */}
+              {selectedCategory && status === "complete" && (
+                <div className="space-y-4">
+                  <div className="flex items-center justify-between">
+                    <h3 className="text-sm font-medium text-[#141414] dark:text-gray-300">
+                      {selectedCategory === 'hallucinations' ? 'Hallucinations' : selectedCategory === 'badLaw' ? 'Bad Law' : selectedCategory === 'quotations' ? 'Quotations' : 'Formatting Issues'}
+                      <span className="ml-2 text-xs text-gray-500">
+                        ({getIssuesByCategory().length})
+                      </span>
+                    </h3>
+                    <button
+                      onClick={() => {
+                        setSelectedCategory(null);
+                        setExpandedIssueId(null);
+                      }}
+                      className="text-xs text-gray-500 hover:text-gray-400"
+                    >
+                      Clear filter
+                    </button>
+                </div>
+
+                  <div className="space-y-3">
+                    {getIssuesByCategory().map((issue: any) => {
+                      const issueId = `${issue.type}-${issue.index}`;
+                      const isExpanded = expandedIssueId === issueId;
+                      const entry = triageFor(issueId);
+                      
+                      return (
+                        <div key={issueId} className={`bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg border border-gray-200 dark:border-white/10 overflow-hidden ${isClosed(entry) && !isExpanded ? 'opacity-50' : ''}`}>
+                          <button
+                            onClick={() => {
+                              if (isExpanded) {
+                                setExpandedIssueId(null);
+                              } else {
+                                setExpandedIssueId(issueId);
+                                // Scroll to this issue in the document
+                                const element = issueRefs.current[issueId];
+                                if (element) {
+                                  const viewer = document.getElementById('document-viewer');
+                                  if (viewer) {
+                                    const elementTop = element.offsetTop;
+                                    const viewerHeight = viewer.clientHeight;
+                                    const elementHeight = element.clientHeight;
+                                    const scrollPosition = elementTop - (viewerHeight / 2) + (elementHeight / 2);
+                                    
+                                    viewer.scrollTo({
+                                      top: scrollPosition,
+                                      behavior: 'smooth'
+                                    });
+                                  }
+                                }
+                              }
+                            }}
+                            className="w-full p-4 text-left hover:bg-[#252525] transition-colors"
+                          >
+                            <div className="flex items-start justify-between gap-3">
+                              <div className="flex-1 min-w-0">
+                                <div className="text-[11px] font-mono text-gray-400 line-clamp-2">
+                                  "{issue.quote}"
+                                </div>
+                                {issuePage(issue) && (
+                                  <div className="text-[9px] text-gray-500 uppercase tracking-wider mt-1">{issuePage(issue)}</div>
+                                )}
+                                {entry && entry.status !== 'open' && (
+                                  <span className={`inline-block mt-1 text-[9px] px-1.5 py-0.5 rounded border uppercase tracking-wider ${TRIAGE_STYLES[entry.status]}`}>
+                                    {TRIAGE_LABELS[entry.status]}
+                                    {entry.assignee && ` · ${entry.assignee}`}
+                                  </span>
+                                )}
+                              </div>
+                              <svg 
+                                className={`w-4 h-4 text-gray-500 flex-shrink-0 transition-transform ${isExpanded ? 'rotate-180' : ''}`}
+                                fill="none" 
+                                stroke="currentColor" 
+                                viewBox="0 0 24 24"
+                              >
+                                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 9l-7 7-7-7" />
+                              </svg>
+                            </div>
+                          </button>
+                          
+                          {isExpanded && (
+                            <div className="px-4 pb-4 space-y-5 border-t border-gray-800">
+                              {/* Severity Badge */}
+                              {(() => {
+                                const { severity, confidence } = getSeverity(issue, issue.type);
+                                return (
+                                  <div className="pt-4 flex items-center justify-between">
+                                    <span className={`text-[9px] px-2.5 py-1 rounded-full uppercase font-bold tracking-wider ${SEVERITY_BADGES[severity]}`}>
+                                      {severity} Severity
+                                    </span>
+                                    <span className="text-[9px] text-gray-500 uppercase tracking-wider">{Math.round(confidence * 100)}% confidence</span>
+                                  </div>
+                                );
+                              })()}
+
+                              {/* Document Quote */}
+                              <div>
+                                <div className="text-[10px] text-red-400 uppercase tracking-wider mb-2 font-semibold">⚠️ Problematic Text</div>
+                                <div className="text-[12px] text-gray-300 leading-relaxed font-mono italic bg-red-950/20 p-3 rounded border-l-2 border-red-500">
+                                  "{issue.quote}"
+                                </div>
+                              </div>
+
+                              {/* Strategic Vulnerability */}
+                              <div>
+                                <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">
+                                  Strategic Vulnerability
+                                </div>
+                                <div className="text-[13px] text-gray-200 leading-relaxed">
+                                  {issue.problem || issue.pattern}
+                                </div>
+                              </div>
+
+                              {/* Opinion Text */}
+                              {issue.type === 'quotation' && <QuotationComparison issue={issue} compact />}
+                              {issue.type === 'critical' && issue.support && <SupportPassages evidence={issue.support} compact />}
+
+                              {/* Case Index Results */}
+                              {issue.type !== 'formatting' && reviewMemo && (() => {
+                                const statute = statuteForIssue(issue, reviewMemo.statutes);
+                                if (statute) {
+                                  return <StatuteBadge report={reviewMemo.statutes!} statute={statute.statute} verification={statute.verification} compact />;
+                                }
+                                const checked = verificationForIssue(issue, reviewMemo.citations, reviewMemo.verification?.verifications || []);
+                                return (
+                                  <>
+                                    <VerificationBadge report={reviewMemo.verification} verification={checked?.verification || null} compact />
+                                    {checked && <SourceComparison citation={checked.citation} verification={checked.verification} />}
+                                  </>
+                                );
+                              })()}
+
+                              {/* Citator Results */}
+                              {reviewMemo?.treatment && (() => {
+                                const check = treatmentForIssue(issue, reviewMemo.citations, reviewMemo.treatment);
+                                return check && <TreatmentBadge report={reviewMemo.treatment} check={check} compact />;
+                              })()}
+
+                              {/* Opposition Playbook - Not shown for formatting issues */}
+                              {issue.type !== 'formatting' && (
+                                <div className="rounded p-3 border border-purple-900/30 dark:border-purple-900/30">
+                                  <div className="text-[10px] text-purple-400 uppercase tracking-wider mb-2 font-semibold">⚔️ Opposition Exploit</div>
+                                  <div className="text-[12px] text-[#141414] dark:text-gray-300 leading-relaxed">
+                                    {issue.type === 'hallucination' 
+                                      ? "Opposing counsel will verify this citation, discover it's fabricated, and file a motion arguing counsel violated Rule 11 by submitting false information to the court. They will request sanctions and use this error to undermine the credibility of your entire filing, potentially seeking attorney's fees."
+                                      : issue.type === 'quotation'
+                                      ? QUOTATION_EXPLOIT
+                                      : "Opposing counsel will cite the correct year and argue that your misrepresentation of controlling authority demonstrates inadequate legal research. They will use this to cast doubt on all your legal arguments and may seek to strike portions of your brief."
+                                    }
+                                  </div>
+                                </div>
+                              )}
+
+                              <TriagePanel
+                                key={`triage-${issueId}`}
+                                reviewId={reviewId}
+                                category={issue.type}
+                                index={issue.index}
+                                triage={triageFor(issueId)}
+                                onTriageChange={handleTriageChange}
+                                readOnly={readOnly}
+                              />
+
+                              {/* Corrected Draft */}
+                              <RewriteSuggestion
+                                reviewId={reviewId}
+                                category={issue.type}
+                                index={issue.index}
+                                recommendation={issue.recommendation}
+                                acceptRecommendation={acceptsRecommendation(issue.type, issue)}
+                                accepted={acceptedFixes.find(fix => fix.key === issueId)}
+                                onFixChange={handleFixChange}
+                                readOnly={readOnly}
+                              />
+
+                              {/* Verify Button */}
+                              <button 
+                                onClick={() => {
+                                  // Extract citation from quote and open Westlaw search
+                                  const searchQuery = encodeURIComponent(issue.quote);
+                                  window.open(`https://www.westlaw.com/search/default.aspx?query=${searchQuery}`, '_blank');
+                                }}
+                                className="w-full py-2.5 px-3 bg-[#F2F1ED] hover:bg-gray-100 text-[#1A1A1A] text-xs font-semibold rounded transition-all flex items-center justify-center gap-2 border border-gray-200"
+                              >
+                                <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                                </svg>
+                                Verify on Westlaw/Lexis
+                              </button>
+                            </div>
+                        )}
+                      </div>
+                      );
+                    })}
+                  </div>
+                </div>
+              )}
+
+              {!selectedIssue && !selectedCategory && status === "complete" && metrics && (
+                <div className="flex items-center justify-center h-full">
+                  <div className="text-center space-y-3">
+                    <div className="w-12 h-12 mx-auto bg-gray-500/10 rounded-full flex items-center justify-center">
+                      <svg className="w-6 h-6 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" />
+                      </svg>
+                    </div>
+                    <div className="text-[13px] text-gray-400 leading-relaxed">
+                      Reviewing <span className="text-white font-semibold">{metrics.total}</span> flags
+                      </div>
+                  </div>
+                </div>
+              )}
+
+              {!selectedCategory && selectedIssue && (
+                <div className="space-y-5">
+                  {/* Severity & Type Badge */}
+                  <div className="flex items-center justify-between">
+                    <span className={`text-[9px] px-2.5 py-1 rounded-full uppercase font-bold tracking-wider ${SEVERITY_BADGES[getSeverity(selectedIssue, selectedIssueType).severity]}`}>
+                      {getSeverity(selectedIssue, selectedIssueType).severity} · {Math.round(getSeverity(selectedIssue, selectedIssueType).confidence * 100)}%
+                    </span>
+                    <span className={`text-[9px] px-2 py-1 rounded uppercase font-semibold tracking-wider ${
+                      selectedIssueType === 'critical' 
+                        ? 'bg-orange-500/20 text-orange-400 border border-orange-500/30'
+                        : selectedIssueType === 'formatting'
+                        ? 'bg-slate-500/20 text-slate-400 border border-slate-500/30'
+                        : selectedIssueType === 'quotation'
+                        ? 'bg-sky-500/20 text-sky-400 border border-sky-500/30'
+                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                    }`}>
+                      {CATEGORY_LABELS[selectedIssueType as HighlightCategory]}
+                    </span>
+                  </div>
+
+                  {/* Document Quote Card */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                    <div className="flex items-center justify-between mb-3">
+                      <div className="text-[10px] text-red-400 uppercase tracking-wider font-semibold">⚠️ Problematic Text</div>
+                      {issuePage(selectedIssue) && (
+                        <div className="text-[9px] text-gray-500 uppercase tracking-wider">{issuePage(selectedIssue)}</div>
+                      )}
+                    </div>
+                    <div className="text-[12px] text-gray-300 leading-relaxed font-mono italic bg-red-950/20 p-3 rounded border-l-2 border-red-500">
+                      "{selectedIssue.quote}"
+                    </div>
+                    {anchoring && (() => {
+                      const mark = anchoring.marks.find(candidate => candidate.key === expandedIssueId);
+                      if (!mark) {
+                        return <div className="text-[10px] text-amber-500 mt-2">Not located in the document</div>;
+                      }
+                      return mark.confidence < TENTATIVE_CONFIDENCE ? (
+                        <div className="text-[10px] text-amber-500 mt-2">
+                          Approximate match ({Math.round(mark.confidence * 100)}% confidence): "{submittedDocument?.substring(mark.start, mark.end)}"
+                        </div>
+                      ) : null;
+                    })()}
+                  </div>
+
+                  {/* Strategic Vulnerability Card */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                    <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">
+                      {selectedIssue.problem ? 'Problem' : selectedIssue.pattern ? 'Pattern' : 'Issue'}
+                    </div>
+                    <div className="text-[13px] text-gray-200 leading-relaxed">
+                      {selectedIssue.problem || selectedIssue.pattern}
+                    </div>
+                  </div>
+
+                  {/* Opinion Text */}
+                  {selectedIssueType === 'quotation' && <QuotationComparison issue={selectedIssue} />}
+                  {selectedIssueType === 'critical' && selectedIssue.support && <SupportPassages evidence={selectedIssue.support} />}
+
+                  {/* Case Index Results */}
+                  {selectedIssueType !== 'formatting' && reviewMemo && (() => {
+                    const statute = statuteForIssue(selectedIssue, reviewMemo.statutes);
+                    if (statute) {
+                      return <StatuteBadge report={reviewMemo.statutes!} statute={statute.statute} verification={statute.verification} />;
+                    }
+                    const checked = verificationForIssue(selectedIssue, reviewMemo.citations, reviewMemo.verification?.verifications || []);
+                    return (
+                      <>
+                        <VerificationBadge report={reviewMemo.verification} verification={checked?.verification || null} />
+                        {checked?.verification.status === 'mismatch' && (
+                          <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                            <SourceComparison citation={checked.citation} verification={checked.verification} />
+                          </div>
+                        )}
+                      </>
+                    );
+                  })()}
+
+                  {/* Citator Results */}
+                  {reviewMemo?.treatment && (() => {
+                    const check = treatmentForIssue(selectedIssue, reviewMemo.citations, reviewMemo.treatment);
+                    return check && <TreatmentBadge report={reviewMemo.treatment} check={check} />;
+                  })()}
+
+                  {/* Opposition Playbook Card - Not shown for formatting issues */}
+                  {selectedIssueType !== 'formatting' && (
+                    <div className="rounded-lg p-4 border border-purple-900/30 dark:border-purple-900/30">
+                      <div className="text-[10px] text-purple-400 uppercase tracking-wider mb-3 font-semibold">⚔️ Opposition Exploit</div>
+                      <div className="text-[12px] text-[#141414] dark:text-gray-300 leading-relaxed">
+                        {selectedIssueType === 'hallucination' 
+                          ? "Opposing counsel will verify this citation, discover it's fabricated, and file a motion arguing counsel violated Rule 11 by submitting false information to the court. They will request sanctions and use this error to undermine the credibility of your entire filing, potentially seeking attorney's fees."
+                          : selectedIssueType === 'quotation'
+                          ? QUOTATION_EXPLOIT
+                          : "Opposing counsel will cite the correct year and argue that your misrepresentation of controlling authority demonstrates inadequate legal research. They will use this to cast doubt on all your legal arguments and may seek to strike portions of your brief."
+                        }
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Triage Card */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                    <TriagePanel
+                      key={`triage-${selectedIssueType}-${selectedIssueIndex}`}
+                      reviewId={reviewId}
+                      category={selectedIssueType as HighlightCategory}
+                      index={selectedIssueIndex}
+                      triage={triageFor(`${selectedIssueType}-${selectedIssueIndex}`)}
+                      onTriageChange={handleTriageChange}
+                      readOnly={readOnly}
+                    />
+                  </div>
+
+                  {/* Corrected Draft Card */}
+                  <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-4 border border-gray-200 dark:border-white/10">
+                    <RewriteSuggestion
+                      key={`${selectedIssueType}-${selectedIssueIndex}`}
+                      reviewId={reviewId}
+                      category={selectedIssueType as HighlightCategory}
+                      index={selectedIssueIndex}
+                      recommendation={selectedIssue.recommendation}
+                      acceptRecommendation={acceptsRecommendation(selectedIssueType as HighlightCategory, selectedIssue)}
+                      accepted={acceptedFixes.find(fix => fix.key === `${selectedIssueType}-${selectedIssueIndex}`)}
+                      onFixChange={handleFixChange}
+                      readOnly={readOnly}
+                    />
+                  </div>
+
+                  {/* Verify Button */}
+                  <button 
+                    onClick={() => {
+                      // Extract citation from quote and open Westlaw search
+                      const searchQuery = encodeURIComponent(selectedIssue.quote);
+                      window.open(`https://www.westlaw.com/search/default.aspx?query=${searchQuery}`, '_blank');
+                    }}
+                    className="w-full py-2.5 px-3 bg-[#F2F1ED] hover:bg-gray-100 text-[#1A1A1A] text-xs font-semibold rounded transition-all flex items-center justify-center gap-2 border border-gray-200"
+                  >
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+                    </svg>
+                    Verify on Westlaw/Lexis
+                  </button>
+                </div>
+              )}
+
+              {/* Quick Actions - Bottom of Inspector */}
+              {status === "complete" && (
+                <div className="mt-6 pt-6 border-t border-gray-200 dark:border-gray-800 space-y-3">
+                  <div className="text-[10px] text-[#141414] dark:text-gray-500 uppercase tracking-wider mb-3">Quick Actions</div>
+                  <button 
+                    onClick={() => {
+                      if (!reviewMemo) return;
+                      
+                      // Check if this is a successful AI analysis or fallback
+                      const isFallback = reviewMemo.filingVerdict.justification.some(j => 
+                        j.includes('AI analysis unavailable') || 
+                        j.includes('Fallback analysis mode') ||
+                        j.includes('fallback review')
+                      );
+                      
+                      const analysisStatus = isFallback 
+                        ? `Status: ${reviewMemo.filingVerdict.readiness.replace(/_/g, ' ').toUpperCase()}`
+                        : 'Status: AI ANALYSIS COMPLETE';
+                      
+                      // Generate comprehensive report from actual AI analysis
+                      const reportSections = [
+                        '═══════════════════════════════════════════════════',
+                        'KORD LEGAL - AI BRIEF INVESTIGATION REPORT',
+                        '═══════════════════════════════════════════════════',
+                        `Generated: ${new Date().toLocaleString()}`,
+                        `Model: ${reviewMemo.model ? `${reviewMemo.model.provider} / ${reviewMemo.model.name}` : 'not recorded'} · Prompt: ${reviewMemo.promptVersion}`,
+                        `Coverage: ${reviewMemo.coverage.sections.filter(section => section.status === 'reviewed').length} of ${reviewMemo.coverage.sections.length} sections reviewed`,
+                        '',
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        'FILING READINESS VERDICT',
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        analysisStatus,
+                        '',
+                        isFallback ? 'Justification:' : 'AI Summary:',
+                        ...reviewMemo.filingVerdict.justification.map(j => `  • ${j}`),
+                        '',
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        `CRITICAL ISSUES (${reviewMemo.criticalIssues.length})`,
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        ...reviewMemo.criticalIssues.flatMap((issue, idx) => [
+                          `[${idx + 1}] QUOTE${issuePage(issue) ? ` (${issuePage(issue)})` : ''}:`,
+                          `    "${issue.quote}"`,
+                          '',
+                          `    PROBLEM:`,
+                          `    ${issue.problem}`,
+                          '',
+                          `    MISSING AUTHORITY:`,
+                          `    ${issue.missingAuthority}`,
+                          '',
+                          ...(issue.support?.passages || []).flatMap(passage => [
+                            `    OPINION TEXT${passage.page !== null ? ` (AT ${passage.page})` : ''}:`,
+                            `    "${passage.text}"`,
+                            '',
+                          ]),
+                        ]),
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        `HALLUCINATION RISK SIGNALS (${reviewMemo.hallucinationSignals.length})`,
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        ...reviewMemo.hallucinationSignals.flatMap((signal, idx) => [
+                          `[${idx + 1}] QUOTE${issuePage(signal) ? ` (${issuePage(signal)})` : ''}:`,
+                          `    "${signal.quote}"`,
+                          '',
+                          `    PATTERN DETECTED:`,
+                          `    ${signal.pattern}`,
+                          '',
+                          `    RISK ASSESSMENT:`,
+                          `    ${signal.risk}`,
+                          '',
+                        ]),
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        `QUOTATION ISSUES (${reviewMemo.quotationIssues.length})`,
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        ...reviewMemo.quotationIssues.flatMap((issue, idx) => [
+                          `[${idx + 1}] QUOTE${issuePage(issue) ? ` (${issuePage(issue)})` : ''}:`,
+                          `    "${issue.quote}"`,
+                          '',
+                          `    PROBLEM:`,
+                          `    ${issue.problem}`,
+                          '',
+                          ...(issue.recommendation ? [
+                            `    OPINION TEXT${issue.opinionPage !== null ? ` (AT ${issue.opinionPage})` : ''}:`,
+                            `    "${issue.recommendation}"`,
+                            '',
+                          ] : []),
+                        ]),
+                        ...(reviewMemo.statutes?.citations.length ? [
+                          '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                          `STATUTES AND RULES (${reviewMemo.statutes.citations.length})`,
+                          '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                          '',
+                          ...reviewMemo.statutes.citations.map((statute, idx) => {
+                            const verification = reviewMemo.statutes!.verifications.find(v => v.statuteId === statute.id);
+                            const status = STATUTE_LABELS[verification?.status || 'unchecked'];
+                            return `[${idx + 1}] ${statute.canonical}: ${status}${verification?.record?.replacedBy ? ` (now ${verification.record.replacedBy})` : ''}${verification?.historical ? ', cited as historical' : ''}`;
+                          }),
+                          '',
+                        ] : []),
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        'OPPOSING COUNSEL PERSPECTIVE',
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        ...reviewMemo.opposingCounselPerspective.flatMap((attack, idx) => [
+                          `[${idx + 1}] VULNERABILITY:`,
+                          `    ${attack.vulnerability}`,
+                          '',
+                          `    LIKELY CHALLENGE:`,
+                          `    ${attack.likelyChallenge}`,
+                          '',
+                        ]),
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        `FORMATTING ISSUES (${reviewMemo.formattingIssues.length})`,
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        ...reviewMemo.formattingIssues.flatMap((issue, idx) => [
+                          `[${idx + 1}] QUOTE${issuePage(issue) ? ` (${issuePage(issue)})` : ''}:`,
+                          `    "${issue.quote}"`,
+                          '',
+                          `    PROBLEM:`,
+                          `    ${issue.problem}`,
+                          '',
+                          `    RECOMMENDATION:`,
+                          `    ${issue.recommendation}`,
+                          '',
+                        ]),
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        'JURISDICTION NOTES',
+                        '━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+                        '',
+                        reviewMemo.jurisdictionNotes,
+                      ];
+
+                      const reportContent = reportSections.join('\n');
+                      const blob = new Blob([reportContent], { type: 'text/plain' });
+                      const url = URL.createObjectURL(blob);
+                      const a = document.createElement('a');
+                      a.href = url;
+                      a.download = `kord-legal-report-${Date.now()}.txt`;
+                      a.click();
+                      URL.revokeObjectURL(url);
+                    }}
+                    className="w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                  >
+                    Export Report
+                  </button>
+                  {!readOnly && reviewId && previousReviewId && (
+                    <a
+                      href={`/review/${reviewId}/compare`}
+                      className="block w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Compare with Previous Draft
+                    </a>
+                  )}
+                  {exportBase && (
+                    <a
+                      href={`${exportBase}/docx`}
+                      download
+                      className="block w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Export Word with Comments
+                    </a>
+                  )}
+                  {exportBase && acceptedFixes.length > 0 && (
+                    <a
+                      href={`${exportBase}/docx?changes=tracked`}
+                      download
+                      className="block w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Export Word with Tracked Changes ({acceptedFixes.length})
+                    </a>
+                  )}
+                  {exportBase && (
+                    <a
+                      href={`${exportBase}/memo?format=pdf`}
+                      download
+                      className="block w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Export Review Memo (PDF)
+                    </a>
+                  )}
+                  {exportBase && (
+                    <a
+                      href={`${exportBase}/toa?format=docx`}
+                      download
+                      className="block w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Export Table of Authorities ({reviewMemo?.tableOfAuthorities?.entries.length ?? 0})
+                    </a>
+                  )}
+                  {!readOnly && (
+                    <button
+                      onClick={() => {
+                        setShowSharePanel(!showSharePanel);
+                        if (!showSharePanel && reviewId) {
+                          fetch(`/api/reviews/${reviewId}/shares`, { headers: ownerKeyHeaders(reviewId) })
+                            .then(response => response.ok ? response.json() : [])
+                            .then(setShareLinks)
+                            .catch(() => setShareLinks([]));
+                        }
+                      }}
+                      className="w-full py-2.5 px-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] hover:bg-gray-100 dark:hover:bg-[#1A1A1A] text-xs text-[#1A1A1A] dark:text-white rounded transition-colors text-left font-medium border border-gray-200 dark:border-white/10"
+                    >
+                      Share Review
+                    </button>
+                  )}
+                  {!readOnly && showSharePanel && (
+                    <div className="p-3 rounded border border-gray-200 dark:border-white/10 space-y-3">
+                      {!reviewId ? (
+                        <div className="text-[10px] text-gray-500">This review has not been saved, so it cannot be shared.</div>
+                      ) : !window.localStorage.getItem(ownerKeyItem(reviewId)) ? (
+                        <div className="text-[10px] text-gray-500">Share links can only be managed from the browser that saved this review.</div>
+                      ) : (
+                        <>
+                          <div className="flex items-center gap-2">
+                            <select
+                              value={shareDays}
+                              onChange={(e) => setShareDays(Number(e.target.value))}
+                              className="flex-1 bg-transparent text-[11px] text-gray-400 border border-gray-200 dark:border-white/10 rounded px-2 py-1"
+                            >
+                              {[1, 7, 30, 90].map(days => (
+                                <option key={days} value={days}>Expires in {days} day{days > 1 ? 's' : ''}</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={async () => {
+                                const response = await fetch(`/api/reviews/${reviewId}/shares`, {
+                                  method: 'POST',
+                                  headers: { 'Content-Type': 'application/json', ...ownerKeyHeaders(reviewId) },
+                                  body: JSON.stringify({ days: shareDays })
+                                });
+                                if (!response.ok) {
+                                  alert('Share link could not be created');
+                                  return;
+                                }
+                                const link: ShareLink = await response.json();
+                                setShareLinks(links => [link, ...links]);
+                                navigator.clipboard.writeText(`${window.location.origin}/share/${link.token}`);
+                                setCopiedText(`share-${link.token}`);
+                                setTimeout(() => setCopiedText(null), 2000);
+                              }}
+                              className="text-[10px] px-2 py-1 rounded bg-white/10 hover:bg-white/20 text-gray-300 uppercase tracking-wider"
+                            >
+                              Create
+                            </button>
+                          </div>
+                          {shareLinks
+                            .filter(link => !link.revokedAt && Date.parse(link.expiresAt) > Date.now())
+                            .map(link => (
+                              <div key={link.token} className="flex items-center justify-between gap-2 text-[10px]">
+                                <span className="text-gray-500">
+                                  {copiedText === `share-${link.token}` ? 'Copied ✓' : `Until ${new Date(link.expiresAt).toLocaleDateString()}`}
+                                </span>
+                                <span className="flex gap-2">
+                                  <button
+                                    onClick={() => {
+                                      navigator.clipboard.writeText(`${window.location.origin}/share/${link.token}`);
+                                      setCopiedText(`share-${link.token}`);
+                                      setTimeout(() => setCopiedText(null), 2000);
+                                    }}
+                                    className="text-gray-400 hover:text-gray-200 uppercase tracking-wider"
+                                  >
+                                    Copy
+                                  </button>
+                                  <button
+                                    onClick={async () => {
+                                      const response = await fetch(`/api/reviews/${reviewId}/shares/${link.token}`, {
+                                        method: 'DELETE',
+                                        headers: ownerKeyHeaders(reviewId)
+                                      });
+                                      if (response.ok) {
+                                        const revoked: ShareLink = await response.json();
+                                        setShareLinks(links => links.map(other => other.token === revoked.token ? revoked : other));
+                                      }
+                                    }}
+                                    className="text-red-400 hover:text-red-300 uppercase tracking-wider"
+                                  >
+                                    Revoke
+                                  </button>
+                                </span>
+                              </div>
+                            ))}
+                        </>
+                      )}
+                    </div>
+                  )}
+              </div>
+            )}
+
+            </div>
+          </div>
+
+          {/* Footer - Fixed at bottom */}
+          <div className="flex-shrink-0 py-3 bg-[#F2F1ED] dark:bg-[#0A0A0A] border-t border-gray-200 dark:border-white/5">
+            <p className="text-[10px] text-gray-600 flex items-center justify-center gap-4">
+              <span className="flex items-center gap-1.5">
+                <svg className="w-3 h-3 text-gray-400" fill="currentColor" viewBox="0 0 20 20">
+                  <path fillRule="evenodd" d="M2.166 4.999A11.954 11.954 0 0010 1.944 11.954 11.954 0 0017.834 5c.11.65.166 1.32.166 2.001 0 5.225-3.34 9.67-8 11.317C5.34 16.67 2 12.225 2 7c0-.682.057-1.35.166-2.001zm11.541 3.708a1 1 0 00-1.414-1.414L9 10.586 7.707 9.293a1 1 0 00-1.414 1.414l2 2a1 1 0 001.414 0l4-4z" clipRule="evenodd" />
+                </svg>
+                SOC2 Compliant
+              </span>
+              <span className="text-gray-800">|</span>
+              <span className="flex items-center gap-1.5">
+                <svg className="w-3 h-3 text-gray-400" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                  <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M12 15v2m-6 4h12a2 2 0 002-2v-6a2 2 0 00-2-2H6a2 2 0 00-2 2v6a2 2 0 002 2zm10-10V7a4 4 0 00-8 0v4h8z" />
+                </svg>
+                End-to-End Encrypted
+              </span>
+            </p>
+        </div>
+        </div>
+      )}
+      </main>
+  );
+}
@@ -0,0 +1,213 @@
+"use client";
+
+import { useState } from "react";
+import type { HighlightCategory } from "@/lib/anchoring";
+import type { AcceptFixRequest, AcceptedFix, ApiErrorResponse, RewriteRequest, RewriteResponse } from "@/lib/types";
+
+// Placeholders are the part the author still has to write; make them impossible to miss
+function withPlaceholders(text: string) {
+  return text.split(/(\[CITATION NEEDED[^\]]*\])/g).map((piece, i) =>
+    piece.startsWith("[CITATION NEEDED") ? (
+      <span key={i} className="bg-amber-500/20 text-amber-400 px-0.5 rounded-sm not-italic">
+        {piece}
+      </span>
+    ) : (
+      piece
+    )
+  );
+}
+
+/**
+ * Drafts a replacement for one flagged passage via /api/rewrite and shows it as a diff
+ * against the original sentence. Citations in the draft come only from the case index.
+ * An accepted recommendation or rewrite is saved with the review for the tracked-changes export.
+ */
+export function RewriteSuggestion({
+  reviewId,
+  category,
+  index,
+  recommendation,
+  acceptRecommendation = false,
+  accepted,
+  onFixChange,
+  readOnly = false,
+}: {
+  reviewId: string | null;
+  category: HighlightCategory;
+  index: number;
+  // The model's suggestion for formatting findings, or the opinion's words for a misquotation, shown until a rewrite is drafted
+  recommendation?: string;
+  // Whether the recommendation is replacement text that can be accepted as a fix (see acceptsRecommendation)
+  acceptRecommendation?: boolean;
+  accepted?: AcceptedFix;
+  onFixChange?: (key: string, fix: AcceptedFix | null) => void;
+  readOnly?: boolean;
+}) {
+  const [rewrite, setRewrite] = useState<RewriteResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+  const [copied, setCopied] = useState(false);
+  const key = `${category}-${index}`;
+
+  const accept = async (request: AcceptFixRequest) => {
+    if (!reviewId) return;
+    setError("");
+    try {
+      const response = await fetch(`/api/reviews/${reviewId}/fixes`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const body: AcceptedFix | ApiErrorResponse = await response.json();
+      if (!response.ok || "error" in body) {
+        throw new Error("error" in body ? body.error : `Could not accept fix (${response.status})`);
+      }
+      onFixChange?.(key, body);
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const withdraw = async () => {
+    if (!reviewId) return;
+    const response = await fetch(`/api/reviews/${reviewId}/fixes/${key}`, { method: "DELETE" });
+    if (response.ok || response.status === 404) onFixChange?.(key, null);
+  };
+
+  const acceptedNote = accepted && (
+    <div className="flex items-center justify-between text-[10px] text-emerald-400 mt-2">
+      <span>✓ Accepted {accepted.source === "recommendation" ? "recommendation" : "rewrite"} · exported as a tracked change</span>
+      {!readOnly && (
+        <button onClick={withdraw} className="text-gray-500 hover:text-red-400 transition-colors">
+          Undo
+        </button>
+      )}
+    </div>
+  );
+
+  const draft = async () => {
+    if (!reviewId) return;
+    setLoading(true);
+    setError("");
+    try {
+      const request: RewriteRequest = { reviewId, category, index };
+      const response = await fetch("/api/rewrite", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const body: RewriteResponse | ApiErrorResponse = await response.json();
+      if (!response.ok || "error" in body) {
+        throw new Error("error" in body ? body.error : `Rewrite failed (${response.status})`);
+      }
+      setRewrite(body);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div>
+      <div className="text-[10px] text-gray-300 uppercase tracking-wider mb-2 font-semibold">
+        ✓ {category === "formatting" ? "Correct Format" : category === "quotation" ? "Opinion Text" : "Corrected Draft"}
+      </div>
+
+      {!rewrite && recommendation && (
+        <div className="bg-gray-800/20 rounded p-3 border border-gray-700/30 mb-3 text-[12px] text-gray-300 leading-relaxed">
+          {recommendation}
+          {acceptRecommendation && !readOnly && reviewId && accepted?.source !== "recommendation" && (
+            <button
+              onClick={() => accept({ category, index, source: "recommendation" })}
+              className="block mt-2 text-[10px] uppercase tracking-wider text-emerald-400 hover:text-emerald-300 transition-colors"
+            >
+              {category === "quotation" ? "Quote the Opinion" : "Accept Recommendation"}
+            </button>
+          )}
+        </div>
+      )}
+
+      {rewrite ? (
+        <div className="space-y-3">
+          <div className="bg-gray-800/20 rounded p-3 border border-gray-700/30 text-[12px] leading-relaxed">
+            {rewrite.diff.map((part, i) =>
+              part.type === "delete" ? (
+                <span key={i} className="bg-red-500/15 text-red-400 line-through">{part.text}</span>
+              ) : part.type === "insert" ? (
+                <span key={i} className="bg-emerald-500/15 text-emerald-400">{withPlaceholders(part.text)}</span>
+              ) : (
+                <span key={i} className="text-gray-400">{part.text}</span>
+              )
+            )}
+          </div>
+
+          {rewrite.explanation && <div className="text-[11px] text-gray-500 leading-relaxed">{rewrite.explanation}</div>}
+
+          {rewrite.authorities.length > 0 && (
+            <div className="space-y-1">
+              <div className="text-[9px] text-gray-500 uppercase tracking-wider">Verified authorities cited</div>
+              {rewrite.authorities.map((authority) => (
+                <div key={authority.id} className="text-[11px] text-emerald-400">
+                  ✓ {authority.citation}
+                  {authority.corrected && <span className="text-gray-500"> (corrected from the case index)</span>}
+                </div>
+              ))}
+            </div>
+          )}
+
+          {rewrite.placeholders.length > 0 && (
+            <div className="text-[10px] text-amber-400">
+              {rewrite.placeholders.length} placeholder{rewrite.placeholders.length > 1 ? "s" : ""} need a verified authority before filing.
+            </div>
+          )}
+
+          {rewrite.removed.length > 0 && (
+            <div className="text-[10px] text-red-400">
+              Removed {rewrite.removed.length} unverified citation{rewrite.removed.length > 1 ? "s" : ""} from the draft: {rewrite.removed.join("; ")}
+            </div>
+          )}
+
+          <button
+            onClick={() => {
+              navigator.clipboard.writeText(rewrite.replacement);
+              setCopied(true);
+              setTimeout(() => setCopied(false), 2000);
+            }}
+            className="w-full py-2 px-3 bg-[#F2F1ED] dark:bg-[#0F0F0F] hover:opacity-90 border border-gray-300 dark:border-white/10 text-[#1A1A1A] dark:text-white text-xs font-semibold rounded transition-all"
+          >
+            {copied ? "Copied!" : "Copy Revised Text"}
+          </button>
+          {!readOnly && accepted?.source !== "rewrite" && (
+            <button
+              onClick={() =>
+                accept({ category, index, source: "rewrite", start: rewrite.start, end: rewrite.end, replacement: rewrite.replacement })
+              }
+              className="w-full py-2 px-3 bg-emerald-500/10 hover:bg-emerald-500/20 border border-emerald-500/30 text-emerald-400 text-xs font-semibold rounded transition-all"
+            >
+              Accept Fix
+            </button>
+          )}
+          <div className="text-[9px] text-gray-600">
+            {rewrite.model.provider} / {rewrite.model.name} · {rewrite.promptVersion}
+          </div>
+        </div>
+      ) : (
+        <>
+          {!readOnly && (
+            <button
+              onClick={draft}
+              disabled={!reviewId || loading}
+              className="w-full py-2 px-3 bg-[#F2F1ED] dark:bg-[#0F0F0F] hover:opacity-90 border border-gray-300 dark:border-white/10 text-[#1A1A1A] dark:text-white text-xs font-semibold rounded transition-all disabled:opacity-50"
+            >
+              {loading ? "Drafting..." : "Draft Grounded Rewrite"}
+            </button>
+          )}
+          {!reviewId && <div className="text-[10px] text-gray-500 mt-2">Rewrites are available once the review is saved.</div>}
+        </>
+      )}
+      {acceptedNote}
+      {error && <div className="text-[10px] text-red-400 mt-2">{error}</div>}
+    </div>
+  );
+}
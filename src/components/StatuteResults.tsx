@@ -0,0 +1,104 @@
+import { STATUTE_LABELS, type StatuteCitation, type StatuteReport, type StatuteStatus, type StatuteVerification } from "@/lib/statutes";
+
+const STATUS_STYLES: Record<StatuteStatus, { border: string; text: string }> = {
+  current: { border: "border-emerald-900/30", text: "text-emerald-400" },
+  repealed: { border: "border-orange-900/30", text: "text-orange-400" },
+  renumbered: { border: "border-orange-900/30", text: "text-orange-400" },
+  not_found: { border: "border-red-900/30", text: "text-red-400" },
+  unlisted: { border: "border-gray-700/30", text: "text-gray-400" },
+  unchecked: { border: "border-gray-700/30", text: "text-gray-400" },
+};
+
+// Code index lookup for the statute or rule behind an issue
+export function StatuteBadge({
+  report,
+  statute,
+  verification,
+  compact = false,
+}: {
+  report: StatuteReport;
+  statute: StatuteCitation;
+  verification: StatuteVerification;
+  compact?: boolean;
+}) {
+  const spacing = compact ? "p-3" : "p-4";
+  const tone = STATUS_STYLES[verification.status];
+  const record = verification.record;
+
+  return (
+    <div className={`bg-[#1A1A1A] rounded ${spacing} border ${tone.border}`}>
+      <div className={`text-[10px] ${tone.text} uppercase tracking-wider mb-2 font-semibold`}>Code Index</div>
+      <div className="space-y-1.5 text-[11px]">
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-gray-400">Cited</span>
+          <span className="text-gray-300 font-mono text-right">{statute.canonical}</span>
+        </div>
+        {statute.partialRange && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-400">Range</span>
+            <span className="text-gray-300 text-right">Only the ends of §§ {statute.partialRange} were checked</span>
+          </div>
+        )}
+        {record?.heading && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-400">Heading</span>
+            <span className="text-gray-300 text-right">{record.heading}</span>
+          </div>
+        )}
+        {record?.replacedBy && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-400">{record.status === "renumbered" ? "Now" : "Replaced by"}</span>
+            <span className="text-gray-300 font-mono text-right">{record.replacedBy}</span>
+          </div>
+        )}
+        {report.source && (
+          <div className="flex items-center justify-between gap-3">
+            <span className="text-gray-400">Source</span>
+            <span className="text-gray-300 font-mono text-right">{report.source}</span>
+          </div>
+        )}
+      </div>
+      <div className="mt-2 pt-2 border-t border-gray-800">
+        <div className={`text-[10px] ${tone.text}`}>
+          {STATUTE_LABELS[verification.status]}
+          {record?.effective && verification.status !== "current" ? ` (${record.effective})` : ""}
+          {verification.historical ? ": cited as historical" : ""}
+          {!record && verification.detail ? `: ${verification.detail}` : ""}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// Every statute, regulation and rule the brief cites, with its code index status
+export function StatuteList({ report, onSelect }: { report: StatuteReport; onSelect: (statute: StatuteCitation) => void }) {
+  const byId = new Map(report.verifications.map((verification) => [verification.statuteId, verification]));
+
+  return (
+    <div className="bg-[#F2F1ED] dark:bg-[#0A0A0A] rounded-lg p-5 border border-gray-200 dark:border-white/5">
+      <div className="flex items-center justify-between mb-3">
+        <div className="text-[10px] text-gray-500 uppercase tracking-wider">Statutes &amp; Rules</div>
+        <div className="text-[9px] text-gray-500">{report.source || "No code index"}</div>
+      </div>
+      <div className="space-y-1">
+        {report.citations.map((statute) => {
+          const verification = byId.get(statute.id);
+          const status = verification?.status || "unchecked";
+          return (
+            <button
+              key={statute.id}
+              onClick={() => onSelect(statute)}
+              className="w-full flex items-center justify-between gap-3 px-2 py-1.5 rounded text-left hover:bg-[#E8E6E1] dark:hover:bg-[#1A1A1A] transition-colors"
+            >
+              <span className="text-[11px] font-mono text-gray-600 dark:text-gray-300 truncate">{statute.canonical}</span>
+              <span className={`text-[10px] whitespace-nowrap ${STATUS_STYLES[status].text}`}>
+                {STATUTE_LABELS[status]}
+                {verification?.historical ? " (historical)" : ""}
+              </span>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { SUPPORT_LABELS } from "@/lib/memo-report";
+import type { SupportEvidence, SupportStatus } from "@/lib/types";
+
+const STATUS_STYLES: Record<SupportStatus, string> = {
+  supported: "text-emerald-400",
+  partially_supported: "text-amber-400",
+  unsupported: "text-orange-400",
+};
+
+// The opinion passages a support judgment rests on, so the reviewer can check the model's reading
+export function SupportPassages({ evidence, compact = false }: { evidence: SupportEvidence; compact?: boolean }) {
+  const spacing = compact ? "p-3" : "p-4";
+
+  return (
+    <div className={`bg-[#1A1A1A] rounded ${spacing} border border-orange-900/30`}>
+      <div className="flex items-center justify-between mb-2">
+        <div className={`text-[10px] uppercase tracking-wider font-semibold ${STATUS_STYLES[evidence.status]}`}>
+          {SUPPORT_LABELS[evidence.status]}
+        </div>
+        <div className="text-[9px] text-gray-500 uppercase tracking-wider">
+          {evidence.caseName}
+          {evidence.scope === "pin" ? " · at the pin cite" : " · whole opinion searched"}
+        </div>
+      </div>
+      <div className="text-[11px] text-gray-400 leading-relaxed mb-3">{evidence.explanation}</div>
+      {evidence.passages.length > 0 ? (
+        <div className="space-y-2">
+          {evidence.passages.map((passage, i) => (
+            <div key={i} className="border-l-2 border-orange-500/30 pl-3">
+              {passage.page !== null && <div className="text-[9px] text-gray-500 uppercase tracking-wider mb-1">At {passage.page}</div>}
+              <div className="text-[12px] text-gray-300 leading-relaxed" style={{ fontFamily: 'Baskerville, "Libre Baskerville", serif' }}>
+                {passage.text}
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <div className="text-[11px] text-gray-400">No passage of the opinion bears on the proposition.</div>
+      )}
+    </div>
+  );
+}
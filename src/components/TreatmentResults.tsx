@@ -0,0 +1,40 @@
+import { citingAuthority, NEGATIVE_TREATMENTS, TREATMENT_LABELS, type TreatmentCheck, type TreatmentReport } from "@/lib/treatment";
+
+// Later history of the decision behind an issue, and whether the brief's citation gives it
+export function TreatmentBadge({ report, check, compact = false }: { report: TreatmentReport; check: TreatmentCheck; compact?: boolean }) {
+  const spacing = compact ? "p-3" : "p-4";
+  const undisclosed = check.treatments.some((treatment) => NEGATIVE_TREATMENTS.has(treatment.treatment) && !check.history.includes(treatment.treatment));
+  const negative = check.treatments.some((treatment) => NEGATIVE_TREATMENTS.has(treatment.treatment));
+  const tone = undisclosed
+    ? { border: "border-red-900/30", text: "text-red-400" }
+    : negative
+    ? { border: "border-orange-900/30", text: "text-orange-400" }
+    : { border: "border-emerald-900/30", text: "text-emerald-400" };
+
+  return (
+    <div className={`bg-[#1A1A1A] rounded ${spacing} border ${tone.border}`}>
+      <div className={`text-[10px] ${tone.text} uppercase tracking-wider mb-2 font-semibold`}>Subsequent History</div>
+      <div className="space-y-2 text-[11px]">
+        {check.treatments.map((treatment, idx) => {
+          const noted = check.history.includes(treatment.treatment);
+          return (
+            <div key={idx}>
+              <div className="flex items-center justify-between gap-3">
+                <span className={NEGATIVE_TREATMENTS.has(treatment.treatment) ? "text-orange-400" : "text-gray-400"}>
+                  {TREATMENT_LABELS[treatment.treatment]}
+                  {treatment.scope ? ` ${treatment.scope}` : ""}
+                </span>
+                <span className={`text-[10px] ${noted ? "text-emerald-400" : "text-red-400"}`}>{noted ? "Noted in the citation" : "Missing from the citation"}</span>
+              </div>
+              <div className="text-gray-300 font-mono mt-0.5">{citingAuthority(treatment.citing)}</div>
+            </div>
+          );
+        })}
+      </div>
+      <div className="mt-2 pt-2 border-t border-gray-800 flex items-center justify-between gap-3 text-[10px]">
+        <span className="text-gray-400">Source</span>
+        <span className="text-gray-300 font-mono text-right">{report.source}</span>
+      </div>
+    </div>
+  );
+}
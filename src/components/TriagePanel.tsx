@@ -0,0 +1,130 @@
+"use client";
+
+import { useState } from "react";
+import type { HighlightCategory } from "@/lib/anchoring";
+import { TRIAGE_LABELS, TRIAGE_STATUSES } from "@/lib/triage";
+import type { ApiErrorResponse, IssueTriage, TriageRequest, TriageStatus } from "@/lib/types";
+
+export const TRIAGE_STYLES: Record<TriageStatus, string> = {
+  open: "bg-gray-500/10 text-gray-300 border-gray-500/40",
+  confirmed: "bg-red-500/10 text-red-400 border-red-500/40",
+  dismissed: "bg-slate-500/10 text-slate-400 border-slate-500/40",
+  resolved: "bg-emerald-500/10 text-emerald-400 border-emerald-500/40",
+};
+
+/**
+ * Status, notes and assignee for one finding, saved with the review via
+ * /api/reviews/[id]/triage. Dismissed and resolved findings stop counting toward the score.
+ */
+export function TriagePanel({
+  reviewId,
+  category,
+  index,
+  triage,
+  onTriageChange,
+  readOnly = false,
+}: {
+  reviewId: string | null;
+  category: HighlightCategory;
+  index: number;
+  triage?: IssueTriage;
+  onTriageChange?: (entry: IssueTriage) => void;
+  readOnly?: boolean;
+}) {
+  const [status, setStatus] = useState<TriageStatus>(triage?.status || "open");
+  const [reason, setReason] = useState(triage?.reason || "");
+  const [notes, setNotes] = useState(triage?.notes || "");
+  const [assignee, setAssignee] = useState(triage?.assignee || "");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState("");
+
+  const changed =
+    status !== (triage?.status || "open") ||
+    (status === "dismissed" && reason.trim() !== (triage?.reason || "")) ||
+    notes.trim() !== (triage?.notes || "") ||
+    assignee.trim() !== (triage?.assignee || "");
+
+  const save = async () => {
+    if (!reviewId) return;
+    setSaving(true);
+    setError("");
+    try {
+      const request: TriageRequest = { category, index, status, reason, notes, assignee };
+      const response = await fetch(`/api/reviews/${reviewId}/triage`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(request),
+      });
+      const body: IssueTriage | ApiErrorResponse = await response.json();
+      if (!response.ok || "error" in body) {
+        throw new Error("error" in body ? body.error : `Could not save triage (${response.status})`);
+      }
+      onTriageChange?.(body);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (readOnly || !reviewId) {
+    return (
+      <div className="text-[11px] text-gray-400 space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="text-[10px] text-gray-500 uppercase tracking-wider">Triage</span>
+          <span className={`text-[9px] px-2 py-0.5 rounded border uppercase tracking-wider ${TRIAGE_STYLES[triage?.status || "open"]}`}>
+            {TRIAGE_LABELS[triage?.status || "open"]}
+          </span>
+        </div>
+        {triage?.reason && <div>Reason: {triage.reason}</div>}
+        {triage?.assignee && <div>Assigned to {triage.assignee}</div>}
+        {triage?.notes && <div className="whitespace-pre-wrap">{triage.notes}</div>}
+        {!readOnly && !reviewId && <div className="text-[10px] text-gray-500">Triage is available once the review is saved.</div>}
+      </div>
+    );
+  }
+
+  const input =
+    "w-full bg-[#F2F1ED] dark:bg-[#0F0F0F] border border-gray-300 dark:border-white/10 rounded px-2 py-1.5 text-[11px] text-[#1A1A1A] dark:text-gray-200 placeholder-gray-500 focus:outline-none focus:border-gray-400";
+
+  return (
+    <div className="space-y-2">
+      <div className="text-[10px] text-gray-500 uppercase tracking-wider">Triage</div>
+      <div className="grid grid-cols-4 gap-1">
+        {TRIAGE_STATUSES.map((option) => (
+          <button
+            key={option}
+            onClick={() => setStatus(option)}
+            className={`text-[9px] py-1 rounded border uppercase tracking-wider transition-colors ${
+              status === option ? TRIAGE_STYLES[option] : "border-gray-300 dark:border-white/10 text-gray-500 hover:text-gray-300"
+            }`}
+          >
+            {TRIAGE_LABELS[option]}
+          </button>
+        ))}
+      </div>
+      {status === "dismissed" && (
+        <input
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          placeholder="Reason for dismissing (required)"
+          maxLength={500}
+          className={input}
+        />
+      )}
+      <input value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Assignee" maxLength={120} className={input} />
+      <textarea value={notes} onChange={(e) => setNotes(e.target.value)} placeholder="Reviewer notes" rows={3} className={`${input} resize-y`} />
+      <button
+        onClick={save}
+        disabled={saving || !changed || (status === "dismissed" && !reason.trim())}
+        className="w-full py-2 px-3 bg-[#F2F1ED] dark:bg-[#0F0F0F] hover:opacity-90 border border-gray-300 dark:border-white/10 text-[#1A1A1A] dark:text-white text-xs font-semibold rounded transition-all disabled:opacity-50"
+      >
+        {saving ? "Saving..." : "Save Triage"}
+      </button>
+      {triage && (
+        <div className="text-[9px] text-gray-600">Last updated {new Date(triage.updatedAt).toLocaleString()}</div>
+      )}
+      {error && <div className="text-[10px] text-red-400">{error}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,141 @@
+import type { Citation } from "@/lib/citations";
+import { findCourt } from "@/lib/courts";
+import type { CitationVerification, Discrepancy, VerificationReport } from "@/lib/verification";
+
+const courtLabel = (court: string | undefined) => findCourt(court)?.abbreviation || court || "";
+
+function CitationLine({
+  caseName,
+  cite,
+  court,
+  year,
+  changed,
+  highlight,
+}: {
+  caseName?: string;
+  cite: string;
+  court?: string;
+  year?: number | string;
+  changed: Discrepancy["field"][];
+  highlight: string;
+}) {
+  const mark = (field: Discrepancy["field"], value: string) =>
+    changed.includes(field) ? <span className={`${highlight} px-1`}>{value}</span> : value;
+  // Supreme Court parentheticals carry only the year
+  const courtText = court && court !== "U.S." ? `${court} ` : "";
+
+  return (
+    <>
+      {caseName && <>{mark("caseName", caseName)}, </>}
+      {cite} ({courtText && mark("court", courtText.trim())}{courtText && " "}{year ? mark("year", String(year)) : "n.d."})
+    </>
+  );
+}
+
+// Index lookup outcome for the citation behind an issue
+export function VerificationBadge({
+  report,
+  verification,
+  compact = false,
+}: {
+  report: VerificationReport | null;
+  verification: CitationVerification | null;
+  compact?: boolean;
+}) {
+  const spacing = compact ? "p-3" : "p-4";
+
+  if (!report) {
+    return (
+      <div className={`bg-[#1A1A1A] rounded ${spacing} border border-gray-700/30`}>
+        <div className="text-[10px] text-gray-400 uppercase tracking-wider mb-2 font-semibold">Case Index</div>
+        <div className="text-[11px] text-gray-400">
+          No local case index is configured, so this citation has not been checked.
+        </div>
+      </div>
+    );
+  }
+
+  if (!verification) {
+    return (
+      <div className={`bg-[#1A1A1A] rounded ${spacing} border border-gray-700/30`}>
+        <div className="text-[10px] text-gray-400 uppercase tracking-wider mb-2 font-semibold">Case Index</div>
+        <div className="text-[11px] text-gray-400">No reporter citation was found in this passage.</div>
+      </div>
+    );
+  }
+
+  const tone =
+    verification.status === "verified"
+      ? { border: "border-emerald-900/30", text: "text-emerald-400", label: "Citation found in case index" }
+      : verification.status === "mismatch"
+      ? { border: "border-orange-900/30", text: "text-orange-400", label: "Citation resolves to a different case, court or year" }
+      : verification.status === "not_found"
+      ? { border: "border-red-900/30", text: "text-red-400", label: "Citation does not exist in the local case index" }
+      : { border: "border-gray-700/30", text: "text-gray-400", label: "Citation could not be checked" };
+
+  return (
+    <div className={`bg-[#1A1A1A] rounded ${spacing} border ${tone.border}`}>
+      <div className={`text-[10px] ${tone.text} uppercase tracking-wider mb-2 font-semibold`}>Case Index</div>
+      <div className="space-y-1.5 text-[11px]">
+        <div className="flex items-center justify-between">
+          <span className="text-gray-400">Looked up</span>
+          <span className="text-gray-300 font-mono">{verification.citeKey}</span>
+        </div>
+        <div className="flex items-center justify-between gap-3">
+          <span className="text-gray-400">Source</span>
+          <span className="text-gray-300 font-mono text-right">{report.source}</span>
+        </div>
+      </div>
+      <div className="mt-2 pt-2 border-t border-gray-800">
+        <div className={`text-[10px] ${tone.text}`}>{tone.label}</div>
+      </div>
+    </div>
+  );
+}
+
+// Cited vs. indexed citation, with the fields that differ highlighted
+export function SourceComparison({
+  citation,
+  verification,
+}: {
+  citation: Citation;
+  verification: CitationVerification;
+}) {
+  if (verification.status !== "mismatch" || !verification.match) return null;
+  const changed = verification.discrepancies.map((d) => d.field);
+  const match = verification.match;
+
+  return (
+    <div>
+      <div className="text-[10px] text-orange-400 uppercase tracking-wider mb-2 font-semibold">Source Comparison</div>
+      <div className="space-y-2">
+        <div className="bg-red-950/20 p-3 rounded border-l-2 border-red-500">
+          <div className="text-[9px] text-red-400 uppercase mb-1">Your Brief</div>
+          <div className="text-[11px] font-mono text-gray-300">
+            <CitationLine
+              caseName={citation.caseName}
+              cite={verification.citeKey}
+              court={courtLabel(citation.court)}
+              year={citation.year}
+              changed={changed}
+              highlight="bg-red-500/30"
+            />
+          </div>
+        </div>
+        <div className="bg-gray-800/40 p-3 rounded border-l-2 border-gray-400">
+          <div className="text-[9px] text-gray-300 uppercase mb-1">Indexed Citation</div>
+          <div className="text-[11px] font-mono text-gray-300">
+            <CitationLine
+              caseName={match.caseName}
+              cite={verification.citeKey}
+              court={courtLabel(match.court)}
+              year={match.year}
+              changed={changed}
+              highlight="bg-gray-600/30"
+            />
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { useState } from "react";
+import type { HighlightCategory } from "@/lib/anchoring";
+import type { ComparedIssue, ReviewComparison, VersionChange } from "@/lib/compare";
+import type { DiffPart } from "@/lib/diff";
+import { READINESS_COLORS, READINESS_LABELS } from "@/lib/memo-report";
+import { TRIAGE_LABELS } from "@/lib/triage";
+import type { ReviewSummary } from "@/lib/types";
+
+const CHANGE_LABELS: Record<VersionChange, string> = {
+  resolved: "Resolved",
+  persisting: "Persisting",
+  new: "New",
+};
+
+const CHANGE_STYLES: Record<VersionChange, string> = {
+  resolved: "text-emerald-400 border-emerald-500/30 bg-emerald-500/5",
+  persisting: "text-amber-400 border-amber-500/30 bg-amber-500/5",
+  new: "text-red-400 border-red-500/30 bg-red-500/5",
+};
+
+const CATEGORY_LABELS: Record<HighlightCategory, string> = {
+  hallucination: "Hallucination",
+  critical: "Bad Law",
+  quotation: "Quotation",
+  formatting: "Formatting",
+};
+
+// Unchanged stretches longer than this many lines are folded down to their ends
+const CONTEXT_LINES = 2;
+
+const draftLabel = (summary: ReviewSummary) => summary.fileName || new Date(summary.createdAt).toLocaleDateString();
+
+// The risk score of each draft in order, coloured by its verdict
+function ScoreChart({ history, currentId }: { history: ReviewSummary[]; currentId: string }) {
+  const width = 640;
+  const height = 180;
+  const pad = { left: 32, right: 16, top: 16, bottom: 36 };
+  const x = (i: number) => pad.left + (history.length === 1 ? 0 : (i / (history.length - 1)) * (width - pad.left - pad.right));
+  const y = (score: number) => pad.top + (1 - score / 100) * (height - pad.top - pad.bottom);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full">
+      {[0, 50, 100].map((score) => (
+        <g key={score}>
+          <line x1={pad.left} x2={width - pad.right} y1={y(score)} y2={y(score)} stroke="#ffffff14" />
+          <text x={pad.left - 8} y={y(score) + 3} textAnchor="end" fontSize="9" fill="#6b7280">{score}</text>
+        </g>
+      ))}
+      <polyline
+        points={history.map((point, i) => `${x(i)},${y(point.score)}`).join(" ")}
+        fill="none"
+        stroke="#6b7280"
+        strokeWidth="1.5"
+      />
+      {history.map((point, i) => (
+        <g key={point.id}>
+          <circle cx={x(i)} cy={y(point.score)} r={point.id === currentId ? 5 : 3.5} fill={READINESS_COLORS[point.readiness]}>
+            <title>{`${draftLabel(point)}: ${point.score}/100, ${READINESS_LABELS[point.readiness]}`}</title>
+          </circle>
+          <text x={x(i)} y={y(point.score) - 9} textAnchor="middle" fontSize="10" fill="#e5e7eb">{point.score}</text>
+          <text x={x(i)} y={height - pad.bottom + 16} textAnchor="middle" fontSize="9" fill="#6b7280">Draft {i + 1}</text>
+          <text x={x(i)} y={height - pad.bottom + 28} textAnchor="middle" fontSize="8" fill="#4b5563">
+            {new Date(point.createdAt).toLocaleDateString()}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// Equal runs keep a few lines of context on each side of a change unless expanded
+function DiffView({ diff, expanded }: { diff: DiffPart[]; expanded: boolean }) {
+  return (
+    <div className="text-[13px] whitespace-pre-wrap leading-[1.8] font-light text-gray-400" style={{ fontFamily: 'Baskerville, "Libre Baskerville", serif' }}>
+      {diff.map((part, i) => {
+        if (part.type === "delete") return <span key={i} className="bg-red-500/15 text-red-400 line-through">{part.text}</span>;
+        if (part.type === "insert") return <span key={i} className="bg-emerald-500/15 text-emerald-400">{part.text}</span>;
+
+        const lines = part.text.split("\n");
+        const keepHead = i === 0 ? 0 : CONTEXT_LINES + 1;
+        const keepTail = i === diff.length - 1 ? 0 : CONTEXT_LINES + 1;
+        if (expanded || lines.length <= keepHead + keepTail + 1) return <span key={i}>{part.text}</span>;
+        return (
+          <span key={i}>
+            {lines.slice(0, keepHead).join("\n")}
+            {keepHead > 0 && "\n"}
+            <span className="block text-[10px] text-gray-600 uppercase tracking-wider my-2 font-sans">
+              ⋯ {lines.length - keepHead - keepTail} unchanged lines ⋯
+            </span>
+            {lines.slice(lines.length - keepTail).join("\n")}
+          </span>
+        );
+      })}
+    </div>
+  );
+}
+
+function IssueRow({ issue }: { issue: ComparedIssue }) {
+  return (
+    <div className={`rounded-lg border p-3 space-y-1 ${CHANGE_STYLES[issue.change]}`}>
+      <div className="flex items-center justify-between text-[9px] uppercase tracking-wider">
+        <span>{CHANGE_LABELS[issue.change]} · {CATEGORY_LABELS[issue.category]}</span>
+        {issue.similarity !== null && issue.similarity < 1 && (
+          <span className="text-gray-500">{Math.round(issue.similarity * 100)}% text match</span>
+        )}
+      </div>
+      <div className="text-[12px] text-gray-200 leading-relaxed">{issue.title}</div>
+      <div className="text-[11px] font-mono text-gray-400 line-clamp-2">&ldquo;{issue.quote}&rdquo;</div>
+      {issue.previousTriage && issue.previousTriage !== "open" && (
+        <div className="text-[10px] text-gray-500">{TRIAGE_LABELS[issue.previousTriage]} in the earlier draft</div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Resolved, persisting and new findings between two drafts of a brief, the risk score
+ * across every linked draft, and a diff of the two documents.
+ */
+export function VersionComparison({ comparison, reviewId }: { comparison: ReviewComparison; reviewId: string }) {
+  const [filter, setFilter] = useState<VersionChange | null>(null);
+  const [expanded, setExpanded] = useState(false);
+  const { previous, current, counts, history } = comparison;
+  const issues = comparison.issues.filter((issue) => !filter || issue.change === filter);
+  const delta = current.score - previous.score;
+
+  return (
+    <div className="min-h-screen bg-[#F2F1ED] dark:bg-[#0A0A0A] text-[#141414] dark:text-gray-300">
+      <div className="max-w-6xl mx-auto px-8 py-10 space-y-10">
+        <div className="flex items-start justify-between">
+          <div className="space-y-1">
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider">Kord Legal · Draft Comparison</div>
+            <div className="text-lg text-white">{current.matter || draftLabel(current)}</div>
+            <div className="text-[11px] text-gray-500">
+              <a href={`/review/${previous.id}`} className="hover:text-gray-300">{draftLabel(previous)}</a>
+              {" → "}
+              <a href={`/review/${reviewId}`} className="hover:text-gray-300">{draftLabel(current)}</a>
+            </div>
+          </div>
+          <a href={`/review/${reviewId}`} className="text-[10px] text-gray-500 hover:text-gray-400 uppercase tracking-wider">
+            ← Back to Review
+          </a>
+        </div>
+
+        <div className="grid grid-cols-4 gap-4">
+          <div className="rounded-lg border border-white/10 p-4">
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">Risk Score</div>
+            <div className="text-2xl font-bold" style={{ color: READINESS_COLORS[current.readiness] }}>
+              {current.score}
+              <span className={`ml-2 text-xs font-normal ${delta > 0 ? "text-emerald-400" : delta < 0 ? "text-red-400" : "text-gray-500"}`}>
+                {delta > 0 ? `+${delta}` : delta < 0 ? delta : "±0"}
+              </span>
+            </div>
+            <div className="text-[10px] text-gray-500 mt-1">{READINESS_LABELS[current.readiness]}</div>
+          </div>
+          {(Object.keys(CHANGE_LABELS) as VersionChange[]).map((change) => (
+            <button
+              key={change}
+              onClick={() => setFilter(filter === change ? null : change)}
+              className={`rounded-lg border p-4 text-left transition-colors ${filter === change ? CHANGE_STYLES[change] : "border-white/10 hover:border-white/20"}`}
+            >
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-2">{CHANGE_LABELS[change]}</div>
+              <div className="text-2xl font-bold text-white">{counts[change]}</div>
+              <div className="text-[10px] text-gray-500 mt-1">{filter === change ? "Showing only these" : "Click to filter"}</div>
+            </button>
+          ))}
+        </div>
+
+        <div className="rounded-lg border border-white/10 p-4">
+          <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-3">Risk Score by Draft</div>
+          <ScoreChart history={history} currentId={current.id} />
+        </div>
+
+        <div className="grid grid-cols-5 gap-8">
+          <div className="col-span-2 space-y-3">
+            <div className="text-[10px] text-gray-500 uppercase tracking-wider">
+              Findings {filter ? `· ${CHANGE_LABELS[filter]}` : ""} ({issues.length})
+            </div>
+            {issues.length === 0 && <div className="text-[12px] text-gray-500">No findings.</div>}
+            {issues.map((issue) => (
+              <IssueRow key={`${issue.category}-${issue.previousIndex}-${issue.currentIndex}`} issue={issue} />
+            ))}
+          </div>
+
+          <div className="col-span-3 space-y-3">
+            <div className="flex items-center justify-between">
+              <div className="text-[10px] text-gray-500 uppercase tracking-wider">Document Changes</div>
+              <button onClick={() => setExpanded(!expanded)} className="text-[10px] text-gray-500 hover:text-gray-300 uppercase tracking-wider">
+                {expanded ? "Hide Unchanged Text" : "Show Full Text"}
+              </button>
+            </div>
+            {comparison.diff.every((part) => part.type === "equal") ? (
+              <div className="text-[12px] text-gray-500">The two drafts have the same text.</div>
+            ) : (
+              <DiffView diff={comparison.diff} expanded={expanded} />
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
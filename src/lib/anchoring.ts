@@ -0,0 +1,348 @@
+import type { LegalReviewMemo } from "./types";
+
+// How a quote was matched to the document, from strictest to loosest
+export type AnchorMethod = "offset" | "exact" | "normalized" | "loose" | "ellipsis" | "fuzzy";
+
+export interface QuoteAnchor {
+  start: number;
+  end: number;
+  // 1 for an exact match, lower the more the quote had to be bent to fit
+  confidence: number;
+  method: AnchorMethod;
+}
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+export interface AnchorOptions {
+  // Prefer occurrences inside (then nearest to) this span, e.g. the section the model saw
+  near?: Span;
+  // Occurrences already taken by another finding with the same quote
+  exclude?: Span[];
+  // Token-level fuzzy matching; off when checking that a quote really occurs
+  fuzzy?: boolean;
+}
+
+const CONFIDENCE: Record<AnchorMethod, number> = {
+  offset: 1,
+  exact: 1,
+  normalized: 0.95,
+  loose: 0.85,
+  ellipsis: 0.8,
+  fuzzy: 0.8,
+};
+
+// Below this the fuzzy match is more likely a different passage than a misquote
+const MIN_FUZZY_SIMILARITY = 0.7;
+
+// Highlights below this confidence are drawn as tentative
+export const TENTATIVE_CONFIDENCE = 0.9;
+
+const CHAR_FOLDS: Record<string, string> = {
+  "‘": "'", "’": "'", "‚": "'", "‛": "'", "′": "'", "`": "'",
+  "“": '"', "”": '"', "„": '"', "″": '"',
+  "‐": "-", "‑": "-", "‒": "-", "–": "-", "—": "-", "−": "-",
+  "…": "...",
+};
+
+/**
+ * Folds text for comparison while remembering where each folded character came from.
+ * Normal mode lowercases and unifies quotes, dashes, ellipses and whitespace; loose mode
+ * keeps only letters, digits and section/paragraph signs.
+ */
+function fold(text: string, loose: boolean): { value: string; map: number[] } {
+  let value = "";
+  const map: number[] = [];
+  let pendingSpace = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const folded = (CHAR_FOLDS[text[i]] ?? text[i]).toLowerCase();
+    if (/\s/.test(folded)) {
+      if (!loose && value && pendingSpace === -1) pendingSpace = i;
+      continue;
+    }
+    for (const char of folded) {
+      if (loose && !/[a-z0-9à-þ§¶]/.test(char)) continue;
+      if (pendingSpace !== -1) {
+        value += " ";
+        map.push(pendingSpace);
+        pendingSpace = -1;
+      }
+      value += char;
+      map.push(i);
+    }
+  }
+  return { value, map };
+}
+
+// Anchoring a memo folds the same document once per finding; keep the last one
+let foldCache: { text: string; normal?: ReturnType<typeof fold>; loose?: ReturnType<typeof fold>; tokens?: Token[] } = { text: "" };
+
+function cached(text: string) {
+  if (foldCache.text !== text) foldCache = { text };
+  return foldCache;
+}
+
+const foldDocument = (text: string, loose: boolean) => {
+  const cache = cached(text);
+  return loose ? (cache.loose ??= fold(text, true)) : (cache.normal ??= fold(text, false));
+};
+
+function occurrences(haystack: string, needle: string): number[] {
+  const found: number[] = [];
+  if (!needle) return found;
+  for (let at = haystack.indexOf(needle); at !== -1; at = haystack.indexOf(needle, at + 1)) found.push(at);
+  return found;
+}
+
+const overlaps = (a: Span, b: Span) => a.start < b.end && b.start < a.end;
+
+const distance = (span: Span, near?: Span) =>
+  !near ? 0 : span.end <= near.start ? near.start - span.end : span.start >= near.end ? span.start - near.end : 0;
+
+// Picks the candidate inside or nearest the hint that no other finding has claimed
+function choose(candidates: Span[], options: AnchorOptions): Span | null {
+  const free = candidates.filter((span) => !options.exclude?.some((taken) => overlaps(taken, span)));
+  const pool = free.length ? free : candidates;
+  return pool.reduce<Span | null>((best, span) => (!best || distance(span, options.near) < distance(best, options.near) ? span : best), null);
+}
+
+function foldedMatch(text: string, quote: string, loose: boolean, options: AnchorOptions): Span | null {
+  const haystack = foldDocument(text, loose);
+  const needle = fold(quote, loose).value.trim();
+  if (!needle) return null;
+  const spans = occurrences(haystack.value, needle).map((at) => ({
+    start: haystack.map[at],
+    end: haystack.map[at + needle.length - 1] + 1,
+  }));
+  return choose(spans, options);
+}
+
+const ELLIPSIS = /\s*(?:\.\s*){3,}\s*|\s*…\s*|\s*\[\s*(?:\.\s*){3}\]\s*/;
+
+// "A ... B": anchor the first fragment, then the last one shortly after it
+function ellipsisMatch(text: string, quote: string, options: AnchorOptions): Span | null {
+  const fragments = quote.split(ELLIPSIS).map((fragment) => fragment.trim()).filter((fragment) => fold(fragment, true).value.length >= 4);
+  if (fragments.length < 2) return null;
+
+  const first = anchorQuote(text, fragments[0], { ...options, fuzzy: false });
+  if (!first) return null;
+  const window = text.slice(first.end, first.end + Math.max(2000, quote.length * 10));
+  const last = anchorQuote(window, fragments[fragments.length - 1], { fuzzy: false });
+  if (!last) return null;
+  return { start: first.start, end: first.end + last.end };
+}
+
+interface Token {
+  word: string;
+  start: number;
+  end: number;
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  for (const match of Array.from(text.matchAll(/[A-Za-z0-9À-ÿ§¶]+/g))) {
+    tokens.push({ word: match[0].toLowerCase(), start: match.index!, end: match.index! + match[0].length });
+  }
+  return tokens;
+}
+
+function lcsLength(a: string[], b: string[]): number {
+  let previous = new Array(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** How alike two passages are, 0 to 1, by the words they share in order. */
+export function quoteSimilarity(a: string, b: string): number {
+  const x = tokenize(a).map((token) => token.word);
+  const y = tokenize(b).map((token) => token.word);
+  if (x.length === 0 || y.length === 0) return 0;
+  return (2 * lcsLength(x, y)) / (x.length + y.length);
+}
+
+/**
+ * Finds the window of the document whose words best match the quote's words in order.
+ * A sliding bag-of-words count narrows the candidates; an LCS over the words scores them.
+ */
+function fuzzyMatch(text: string, quote: string, options: AnchorOptions): { span: Span; similarity: number } | null {
+  const wanted = tokenize(quote).map((token) => token.word);
+  if (wanted.length < 4) return null;
+  const cache = cached(text);
+  const tokens = (cache.tokens ??= tokenize(text));
+  const size = wanted.length;
+  if (tokens.length < size) return null;
+
+  const need = new Map<string, number>();
+  wanted.forEach((word) => need.set(word, (need.get(word) || 0) + 1));
+  const have = new Map<string, number>();
+  let matched = 0;
+  const add = (word: string, delta: 1 | -1) => {
+    const limit = need.get(word);
+    if (!limit) return;
+    const before = have.get(word) || 0;
+    have.set(word, before + delta);
+    if (delta === 1 && before < limit) matched++;
+    if (delta === -1 && before <= limit) matched--;
+  };
+
+  const candidates: Array<{ at: number; matched: number }> = [];
+  for (let i = 0; i < tokens.length; i++) {
+    add(tokens[i].word, 1);
+    if (i >= size) add(tokens[i - size].word, -1);
+    if (i >= size - 1 && matched >= size * 0.6) candidates.push({ at: i - size + 1, matched });
+  }
+
+  let best: { span: Span; similarity: number } | null = null;
+  // Misquotes add or drop words, so each candidate is also scored with a longer window
+  const windows = candidates
+    .sort((a, b) => b.matched - a.matched)
+    .slice(0, 20)
+    .flatMap(({ at }) => [tokens.slice(at, at + size), tokens.slice(at, at + Math.ceil(size * 1.25))]);
+  for (const window of windows) {
+    const similarity = (2 * lcsLength(wanted, window.map((token) => token.word))) / (size + window.length);
+    if (similarity < MIN_FUZZY_SIMILARITY) continue;
+    // Trim unmatched words off the ends of the window
+    const first = window.findIndex((token) => need.has(token.word));
+    const last = window.length - 1 - [...window].reverse().findIndex((token) => need.has(token.word));
+    const span = { start: window[first].start, end: window[last].end };
+    if (options.exclude?.some((taken) => overlaps(taken, span))) continue;
+    if (
+      !best ||
+      similarity > best.similarity ||
+      (similarity === best.similarity && distance(span, options.near) < distance(best.span, options.near))
+    ) {
+      best = { span, similarity };
+    }
+  }
+  return best;
+}
+
+/**
+ * Locates a quoted passage in `text`, tolerating the ways models misquote: reflowed
+ * whitespace, curly quotes and dashes, "§" spacing, dropped punctuation, ellipses, and
+ * (when `fuzzy` is on) a few changed words. Returns the best span with a confidence, or
+ * null when nothing matches well enough.
+ */
+export function anchorQuote(text: string, quote: string, options: AnchorOptions = {}): QuoteAnchor | null {
+  if (!quote.trim()) return null;
+
+  const exact = choose(
+    occurrences(text, quote).map((at) => ({ start: at, end: at + quote.length })),
+    options
+  );
+  if (exact) return { ...exact, confidence: CONFIDENCE.exact, method: "exact" };
+
+  const normalized = foldedMatch(text, quote, false, options);
+  if (normalized) return { ...normalized, confidence: CONFIDENCE.normalized, method: "normalized" };
+
+  const loose = foldedMatch(text, quote, true, options);
+  if (loose) return { ...loose, confidence: CONFIDENCE.loose, method: "loose" };
+
+  const elided = ellipsisMatch(text, quote, options);
+  if (elided) return { ...elided, confidence: CONFIDENCE.ellipsis, method: "ellipsis" };
+
+  if (options.fuzzy === false) return null;
+  const fuzzy = fuzzyMatch(text, quote, options);
+  return fuzzy
+    ? { ...fuzzy.span, confidence: Math.round(CONFIDENCE.fuzzy * fuzzy.similarity * 100) / 100, method: "fuzzy" }
+    : null;
+}
+
+export type HighlightCategory = "hallucination" | "critical" | "quotation" | "formatting";
+
+// Most severe first: where highlights overlap, this one is drawn on top
+export const HIGHLIGHT_CATEGORIES: HighlightCategory[] = ["hallucination", "critical", "quotation", "formatting"];
+
+export const CATEGORY_FIELDS = {
+  hallucination: "hallucinationSignals",
+  critical: "criticalIssues",
+  quotation: "quotationIssues",
+  formatting: "formattingIssues",
+} as const;
+
+export interface HighlightMark extends QuoteAnchor {
+  key: string;
+  category: HighlightCategory;
+  index: number;
+}
+
+export interface UnanchoredIssue {
+  key: string;
+  category: HighlightCategory;
+  index: number;
+  quote: string;
+}
+
+/**
+ * Anchors every finding in a memo to the document. Findings that already carry offsets
+ * keep them; the rest are matched by quote, with repeated quotes spread over separate
+ * occurrences. Findings that cannot be placed are returned rather than dropped.
+ */
+export function anchorMemo(
+  text: string,
+  memo: Pick<LegalReviewMemo, "hallucinationSignals" | "criticalIssues" | "quotationIssues" | "formattingIssues">
+): { marks: HighlightMark[]; unanchored: UnanchoredIssue[] } {
+  const marks: HighlightMark[] = [];
+  const unanchored: UnanchoredIssue[] = [];
+
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    const claimed = new Map<string, Span[]>();
+    (memo[CATEGORY_FIELDS[category]] as Array<{ quote: string; start?: number; end?: number; anchorConfidence?: number }>).forEach((issue, index) => {
+      const key = `${category}-${index}`;
+      let anchor: QuoteAnchor | null = null;
+      if (issue.start !== undefined && issue.end !== undefined && issue.end <= text.length) {
+        const confidence = issue.anchorConfidence ?? 1;
+        anchor = { start: issue.start, end: issue.end, confidence, method: confidence < 1 ? "fuzzy" : "offset" };
+      } else {
+        anchor = anchorQuote(text, issue.quote, { exclude: claimed.get(issue.quote) });
+      }
+
+      if (!anchor) {
+        unanchored.push({ key, category, index, quote: issue.quote });
+        return;
+      }
+      claimed.set(issue.quote, [...(claimed.get(issue.quote) || []), anchor]);
+      marks.push({ ...anchor, key, category, index });
+    });
+  }
+
+  return { marks, unanchored };
+}
+
+export interface HighlightSegment {
+  start: number;
+  end: number;
+  // Covering marks, most severe (then narrowest) first
+  marks: HighlightMark[];
+}
+
+/**
+ * Cuts the document at every highlight boundary so overlapping findings can all be
+ * drawn: each segment lists every mark that covers it.
+ */
+export function segmentHighlights(length: number, marks: HighlightMark[]): HighlightSegment[] {
+  const cuts = Array.from(new Set([0, length, ...marks.flatMap((mark) => [mark.start, mark.end])]))
+    .filter((cut) => cut >= 0 && cut <= length)
+    .sort((a, b) => a - b);
+
+  const rank = (mark: HighlightMark) => HIGHLIGHT_CATEGORIES.indexOf(mark.category);
+  const segments: HighlightSegment[] = [];
+  for (let i = 0; i < cuts.length - 1; i++) {
+    const start = cuts[i];
+    const end = cuts[i + 1];
+    const covering = marks
+      .filter((mark) => mark.start <= start && mark.end >= end)
+      .sort((a, b) => rank(a) - rank(b) || a.end - a.start - (b.end - b.start));
+    segments.push({ start, end, marks: covering });
+  }
+  return segments;
+}
@@ -0,0 +1,404 @@
+import { extractCitations, type Citation } from "./citations";
+import { pageAt, type PageSpan } from "./documents";
+import { codeKey, extractStatutes } from "./statutes";
+import type { FormattingIssue, Severity } from "./types";
+import { citeKey } from "./verification";
+
+// The groups of a Table of Authorities, in the order a brief lists them
+export type AuthorityKind = "case" | "constitution" | "statute" | "regulation" | "rule" | "secondary";
+
+export const AUTHORITY_KINDS: AuthorityKind[] = ["case", "constitution", "statute", "regulation", "rule", "secondary"];
+
+export const AUTHORITY_HEADINGS: Record<AuthorityKind, string> = {
+  case: "Cases",
+  constitution: "Constitutional Provisions",
+  statute: "Statutes",
+  regulation: "Regulations",
+  rule: "Rules",
+  secondary: "Other Authorities",
+};
+
+// Cited on this many pages or more, an authority is listed as "passim"
+const PASSIM_PAGES = 6;
+
+/** One authority cited in the brief, as the generated table lists it. */
+export interface AuthorityEntry {
+  kind: AuthorityKind;
+  // Matches the same authority however it is written: "477 U.S. 317", "42 U.S.C. § 1983"
+  key: string;
+  // The table line: "Celotex Corp. v. Catrett, 477 U.S. 317 (1986)"
+  heading: string;
+  // Every place the brief cites it, short forms and id. included
+  occurrences: Array<{ start: number; end: number }>;
+  // Document pages of those places; empty when the document has no page information
+  pages: number[];
+}
+
+/** One entry of the Table of Authorities the brief already has. */
+export interface BriefTableEntry {
+  kind: AuthorityKind | null;
+  key: string | null;
+  // The entry's text without its page list
+  heading: string;
+  // Page references as printed: "4", "7-9", "passim", "ii"
+  pages: string[];
+  // Offsets of the whole entry, page list included
+  start: number;
+  end: number;
+  // Offset where the page list starts
+  pagesStart: number;
+}
+
+export interface TableOfAuthorities {
+  entries: AuthorityEntry[];
+  // Where the brief's own table sits, and how many entries it has; null when it has none
+  brief: { start: number; end: number; entries: number } | null;
+  // Printed page numbers run this far ahead of document pages, judged from the brief's own table
+  pageOffset: number | null;
+}
+
+interface AuthorityMatch {
+  kind: Exclude<AuthorityKind, "case">;
+  key: string;
+  heading: string;
+  start: number;
+  end: number;
+}
+
+// Constitutional provisions and secondary sources (statutes and rules come from statutes.ts); each pattern's groups build the key and heading
+const AUTHORITY_PATTERNS: Array<{ kind: "constitution" | "secondary"; pattern: RegExp; parse: (m: RegExpExecArray) => { key: string; heading: string } }> = [
+  {
+    kind: "constitution",
+    pattern: /\bU\.\s?S\.\s?Const\.\s+(art\.\s+[IVX]+|amend\.\s+[IVX]+)(?:,\s+§\s*(\d+))?(?:,\s+cl\.\s*(\d+))?/g,
+    parse: (m) => {
+      const heading = `U.S. Const. ${m[1].replace(/\s+/g, " ")}${m[2] ? `, § ${m[2]}` : ""}`;
+      return { key: heading.toLowerCase(), heading };
+    },
+  },
+  {
+    kind: "secondary",
+    // Author, Title, 100 Harv. L. Rev. 1, 12 (1987)
+    pattern: /(?:\b(?:See also|See|Cf\.|But see|Accord)\s+)?\b([A-Z][\w.'’-]*(?:\s(?:&\s)?[A-Z][\w.'’-]*){0,4}),\s+([^,;()]{3,200}?),\s+(\d{1,4})\s+((?:[A-Z][A-Za-z&.]*\.?\s?){1,6}?(?:L\.\s?Rev\.|L\.\s?J\.|Rev\.|J\.|Q\.))\s+(\d{1,5})(?:,\s*\d+(?:[-–]\d+)?)?\s+\((\d{4})\)/g,
+    parse: (m) => ({
+      key: `${m[3]} ${m[4]} ${m[5]}`.toLowerCase().replace(/[.\s]+/g, " "),
+      heading: `${m[1].trim()}, ${m[2].trim()}, ${m[3]} ${m[4].trim()} ${m[5]} (${m[6]})`,
+    }),
+  },
+  {
+    kind: "secondary",
+    pattern: /\bRestatement\s+(\((?:Second|Third|Fourth)\)\s+)?of\s+((?:[A-Z][a-z]+\s?)+?)\s+§\s*(\d+[A-Za-z]?)/g,
+    parse: (m) => {
+      const heading = `Restatement ${m[1] || ""}of ${m[2].trim()} § ${m[3]}`;
+      return { key: heading.toLowerCase().replace(/\s+/g, " "), heading };
+    },
+  },
+];
+
+/** Statutes, rules, constitutional provisions and secondary sources cited in a text. */
+export function findAuthorities(text: string): AuthorityMatch[] {
+  // A table lists a code section once, whatever subsections the brief cites
+  const found: AuthorityMatch[] = extractStatutes(text).map((statute) => ({
+    kind: statute.kind,
+    key: codeKey(statute.code, statute.title, statute.section),
+    heading: statute.canonical.slice(0, statute.canonical.length - statute.subsections.length),
+    start: statute.start,
+    end: statute.end,
+  }));
+  for (const { kind, pattern, parse } of AUTHORITY_PATTERNS) {
+    pattern.lastIndex = 0;
+    for (const match of Array.from(text.matchAll(pattern))) {
+      found.push({ kind, ...parse(match), start: match.index!, end: match.index! + match[0].length });
+    }
+  }
+  return found.sort((a, b) => a.start - b.start);
+}
+
+const TABLE_HEADING = /^[ \t]*TABLE OF AUTHORITIES[ \t]*$/im;
+const SUBHEADINGS: Array<[RegExp, AuthorityKind | null]> = [
+  [/^(?:federal |state )?cases$/i, "case"],
+  [/^constitutional provisions?$/i, "constitution"],
+  [/^(?:federal |state )?statutes(?: and regulations)?$/i, "statute"],
+  [/^regulations$/i, "regulation"],
+  [/^(?:court |federal )?rules(?: of (?:civil|criminal|appellate) procedure)?$/i, "rule"],
+  [/^(?:other authorities|secondary (?:sources|authorities)|treatises|law review articles)$/i, "secondary"],
+  [/^page\(?s\)?$/i, null],
+];
+// A page list at the end of a line, after dot leaders, a tab or two spaces, or straight after a closing parenthesis
+const PAGE_LIST = /(?:[ \t]*(?:\.[ \t]*){2,}|\t+|[ \t]{2,}|(?<=\))[ \t]+)[ \t]*(passim|(?:\d+|[ivxl]+)(?:[ \t]*[-–][ \t]*\d+)?(?:[ \t]*,[ \t]*(?:\d+|[ivxl]+)(?:[ \t]*[-–][ \t]*\d+)?)*)[ \t]*$/i;
+// An all-caps line other than a known subheading ends the table
+const SECTION_HEADING = /^[ \t]*[A-Z][A-Z ,.&'’-]{5,}[ \t]*$/;
+
+function subheadingKind(line: string): AuthorityKind | null | undefined {
+  const label = line.trim().replace(/:$/, "");
+  return SUBHEADINGS.find(([pattern]) => pattern.test(label))?.[1];
+}
+
+// The key an entry of the brief's table or a citation is matched on
+function entryKey(heading: string): { kind: AuthorityKind; key: string; name?: string } | null {
+  const citation = extractCitations(heading).find((c) => c.kind === "full");
+  if (citation) return { kind: "case", key: citeKey(citation.volume, citation.reporter, citation.page), name: citation.caseName };
+  const authority = findAuthorities(heading)[0];
+  return authority ? { kind: authority.kind, key: authority.key } : null;
+}
+
+/**
+ * Finds the brief's own Table of Authorities and reads its entries: each runs until a
+ * line ending in a page list, under the last subheading seen. Returns null when the
+ * brief has no table.
+ */
+export function parseBriefTable(text: string): { start: number; end: number; entries: BriefTableEntry[] } | null {
+  const heading = TABLE_HEADING.exec(text);
+  if (!heading) return null;
+  const start = heading.index;
+  const entries: BriefTableEntry[] = [];
+  let kind: AuthorityKind | null = null;
+  let entryStart = -1;
+  const body = start + heading[0].length;
+  let end = text.length;
+
+  for (const line of Array.from(text.slice(body).matchAll(/[^\n]*\n?/g))) {
+    if (!line[0]) break;
+    const lineStart = body + line.index!;
+    const content = line[0].replace(/\n$/, "");
+    // Blank lines, and the page numbers of the table's own pages
+    if (/^\s*(?:\d+|[ivxl]+)?\s*$/i.test(content)) continue;
+    const sub = subheadingKind(content);
+    if (sub !== undefined) {
+      kind = sub ?? kind;
+      entryStart = -1;
+      continue;
+    }
+    if (SECTION_HEADING.test(content) && entryStart === -1 && entries.length) {
+      end = lineStart;
+      break;
+    }
+    if (entryStart === -1) entryStart = lineStart + content.length - content.trimStart().length;
+
+    const pages = content.match(PAGE_LIST);
+    if (pages) {
+      const pagesStart = lineStart + pages.index!;
+      const entryHeading = text.slice(entryStart, pagesStart).replace(/\s+/g, " ").trim();
+      const parsed = entryKey(entryHeading);
+      entries.push({
+        kind: kind ?? parsed?.kind ?? null,
+        key: parsed?.key ?? null,
+        heading: entryHeading,
+        pages: pages[1].split(/\s*,\s*/).map((page) => page.replace(/\s+/g, "")),
+        start: entryStart,
+        end: lineStart + content.trimEnd().length,
+        pagesStart,
+      });
+      entryStart = -1;
+    }
+  }
+  return { start, end, entries };
+}
+
+// "4", "7-9" as page numbers; roman numerals are front matter and are not compared
+function pageNumbers(pages: string[]): number[] {
+  return pages.flatMap((page) => {
+    const range = page.match(/^(\d+)(?:[-–](\d+))?$/);
+    if (!range) return [];
+    const first = Number(range[1]);
+    const last = range[2] ? Number(range[2]) : first;
+    return Array.from({ length: Math.min(Math.max(last - first + 1, 1), 200) }, (_, i) => first + i);
+  });
+}
+
+const caseHeading = (text: string, citation: Citation, group: Citation[]) => {
+  const parenthetical = text.slice(group[group.length - 1].end, citation.fullEnd).trim();
+  const cites = group.map((c) => `${c.volume} ${c.reporter || c.reporterText} ${c.page}`).join(", ");
+  return `${citation.caseName ? `${citation.caseName}, ` : ""}${cites}${parenthetical ? ` ${parenthetical}` : ""}`;
+};
+
+/**
+ * Builds the Table of Authorities from the citations in the brief, leaving out the
+ * brief's own table. Cases are listed under their full citation with every page a short
+ * form or id. refers back to them.
+ */
+export function buildTableOfAuthorities(text: string, citations: Citation[], pages: PageSpan[] | null): TableOfAuthorities {
+  const table = parseBriefTable(text);
+  const outside = (start: number) => !table || start < table.start || start >= table.end;
+  const entries = new Map<string, AuthorityEntry>();
+  const add = (kind: AuthorityKind, key: string, heading: string, start: number, end: number) => {
+    const entry = entries.get(`${kind}:${key}`) || { kind, key, heading, occurrences: [], pages: [] };
+    entry.occurrences.push({ start, end });
+    const page = pageAt(pages, start);
+    if (page !== null && !entry.pages.includes(page)) entry.pages.push(page);
+    entries.set(`${kind}:${key}`, entry);
+  };
+
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const seen = new Set<number>();
+  for (const citation of citations) {
+    if (!outside(citation.fullStart)) continue;
+    let full = citation.kind === "full" ? citation : citation.antecedentId ? byId.get(citation.antecedentId) : undefined;
+    if (!full) continue;
+    // A short form can resolve to the brief's own table; the table line is not the citation to list
+    if (!outside(full.fullStart)) {
+      const { volume, reporter, page } = full;
+      full = citations.find((c) => c.kind === "full" && outside(c.fullStart) && citeKey(c.volume, c.reporter, c.page) === citeKey(volume, reporter, page)) || full;
+    }
+    // Parallel cites share one span; the group is one authority, keyed by its first reporter
+    const group = citations.filter((c) => c.kind === "full" && c.fullStart === full.fullStart);
+    if (citation.kind === "full" && seen.has(citation.fullStart)) continue;
+    if (citation.kind === "full") seen.add(citation.fullStart);
+    add("case", citeKey(group[0].volume, group[0].reporter, group[0].page), caseHeading(text, group[0], group), citation.fullStart, citation.fullEnd);
+  }
+  for (const authority of findAuthorities(text)) {
+    if (outside(authority.start)) add(authority.kind, authority.key, authority.heading, authority.start, authority.end);
+  }
+
+  const sorted = Array.from(entries.values())
+    .map((entry) => ({ ...entry, pages: entry.pages.sort((a, b) => a - b) }))
+    .sort((a, b) => AUTHORITY_KINDS.indexOf(a.kind) - AUTHORITY_KINDS.indexOf(b.kind) || sortKey(a.heading).localeCompare(sortKey(b.heading)));
+
+  return {
+    entries: sorted,
+    brief: table ? { start: table.start, end: table.end, entries: table.entries.length } : null,
+    pageOffset: table ? pageOffset(table.entries, sorted) : null,
+  };
+}
+
+// Tables alphabetise cases ignoring "In re" and the like
+const sortKey = (heading: string) => heading.replace(/^(?:In re|Ex parte|Matter of)\s+/i, "").toLowerCase();
+
+// The most common gap between the first page the brief's table gives and the first document page
+function pageOffset(briefEntries: BriefTableEntry[], entries: AuthorityEntry[]): number | null {
+  const counts = new Map<number, number>();
+  for (const briefEntry of briefEntries) {
+    const entry = entries.find((candidate) => candidate.key === briefEntry.key);
+    const listed = pageNumbers(briefEntry.pages);
+    if (!entry?.pages.length || !listed.length) continue;
+    const offset = listed[0] - entry.pages[0];
+    counts.set(offset, (counts.get(offset) || 0) + 1);
+  }
+  const best = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+  return best ? best[0] : null;
+}
+
+/** The page list for a table line: printed pages when the offset is known, "passim" for authorities cited throughout. */
+export function formatTablePages(entry: AuthorityEntry, pageOffset: number | null): string {
+  if (entry.pages.length >= PASSIM_PAGES) return "passim";
+  return entry.pages.map((page) => page + (pageOffset ?? 0)).join(", ");
+}
+
+/** The generated table as plain text, one group per heading, with dot leaders to the page list. */
+export function renderTableOfAuthorities(table: TableOfAuthorities, width = 72): string {
+  const lines: string[] = ["TABLE OF AUTHORITIES", ""];
+  for (const kind of AUTHORITY_KINDS) {
+    const group = table.entries.filter((entry) => entry.kind === kind);
+    if (!group.length) continue;
+    lines.push(AUTHORITY_HEADINGS[kind], "");
+    for (const entry of group) {
+      const pages = formatTablePages(entry, table.pageOffset);
+      const leader = ".".repeat(Math.max(3, width - entry.heading.length - pages.length - 2));
+      lines.push(pages ? `${entry.heading} ${leader} ${pages}` : entry.heading, "");
+    }
+  }
+  return lines.join("\n").trimEnd() + "\n";
+}
+
+const normalizeName = (name: string) => name.replace(/\s+/g, " ").replace(/,$/, "").trim();
+
+const TABLE_ASSESSMENT: { severity: Severity; confidence: number } = { severity: "medium", confidence: 0.85 };
+
+/**
+ * Compares the brief's own Table of Authorities with the citations in the brief:
+ * authorities it leaves out, entries the brief never cites, page lists that do not match
+ * (when the document has pages), and case names spelled differently in the table, or
+ * in different places of the brief.
+ */
+export function tableFindings(text: string, citations: Citation[], table: TableOfAuthorities): FormattingIssue[] {
+  const findings: FormattingIssue[] = [];
+  const anchor = (start: number, end: number) => ({ quote: text.slice(start, end), start, end, source: "toa" as const });
+  const briefTable = table.brief ? parseBriefTable(text) : null;
+
+  // The same decision named two ways in the body of the brief
+  const outside = (start: number) => !table.brief || start < table.brief.start || start >= table.brief.end;
+  const names = new Map<string, Citation>();
+  for (const citation of citations) {
+    if (citation.kind !== "full" || !citation.caseName || !outside(citation.fullStart)) continue;
+    const key = citeKey(citation.volume, citation.reporter, citation.page);
+    const first = names.get(key);
+    if (!first) {
+      names.set(key, citation);
+    } else if (normalizeName(first.caseName!) !== normalizeName(citation.caseName)) {
+      findings.push({
+        ...anchor(citation.fullStart, citation.fullStart + citation.caseName.length),
+        citationId: citation.id,
+        severity: "low",
+        confidence: 0.9,
+        problem: `${key} is cited as "${citation.caseName}" here but as "${first.caseName}" earlier in the brief.`,
+        recommendation: first.caseName!,
+        replacesQuote: true,
+      });
+    }
+  }
+  if (!briefTable) return findings;
+
+  for (const entry of table.entries) {
+    if (briefTable.entries.some((briefEntry) => briefEntry.key === entry.key)) continue;
+    const first = entry.occurrences[0];
+    const pages = formatTablePages(entry, table.pageOffset);
+    findings.push({
+      ...anchor(first.start, first.end),
+      ...TABLE_ASSESSMENT,
+      problem: `${entry.heading} is cited${pages ? ` on ${pages === "passim" ? "many pages" : `p. ${pages}`}` : ""} but is missing from the Table of Authorities.`,
+      // The fix belongs in the table, not at the citation
+      recommendation: "",
+    });
+  }
+
+  for (const briefEntry of briefTable.entries) {
+    const entry = briefEntry.key ? table.entries.find((candidate) => candidate.key === briefEntry.key) : undefined;
+    const at = anchor(briefEntry.start, briefEntry.end);
+    if (!entry) {
+      findings.push({
+        ...at,
+        ...TABLE_ASSESSMENT,
+        problem: briefEntry.key
+          ? `The Table of Authorities lists ${briefEntry.heading}, but the brief never cites it.`
+          : `The Table of Authorities entry "${briefEntry.heading}" could not be matched to any citation in the brief.`,
+        recommendation: "",
+      });
+      continue;
+    }
+
+    if (entry.kind === "case") {
+      const tableName = entryKey(briefEntry.heading)?.name;
+      const cited = names.get(entry.key)?.caseName;
+      if (tableName && cited && normalizeName(tableName) !== normalizeName(cited)) {
+        findings.push({
+          ...anchor(briefEntry.start, briefEntry.pagesStart),
+          severity: "low",
+          confidence: 0.9,
+          problem: `The Table of Authorities names this case "${tableName}", but the brief cites it as "${cited}".`,
+          recommendation: briefEntry.heading.replace(normalizeName(tableName), cited),
+          replacesQuote: true,
+        });
+      }
+    }
+
+    // Page lists are only compared when the document has pages and the printed numbering could be worked out
+    if (!entry.pages.length || table.pageOffset === null || briefEntry.pages.includes("passim")) continue;
+    const listed = pageNumbers(briefEntry.pages);
+    if (!listed.length) continue;
+    const expected = entry.pages.map((page) => page + table.pageOffset!);
+    const missing = expected.filter((page) => !listed.includes(page));
+    const extra = listed.filter((page) => !expected.includes(page));
+    if (!missing.length && !extra.length) continue;
+    const corrected = formatTablePages(entry, table.pageOffset);
+    findings.push({
+      ...anchor(briefEntry.pagesStart, briefEntry.end),
+      ...TABLE_ASSESSMENT,
+      confidence: 0.7,
+      problem: `The Table of Authorities gives ${briefEntry.pages.join(", ")} for ${briefEntry.heading}, but the brief cites it on ${corrected === "passim" ? "many pages" : corrected}.${
+        missing.length ? ` Missing: ${missing.join(", ")}.` : ""
+      }${extra.length ? ` Not cited on: ${extra.join(", ")}.` : ""}`,
+      recommendation: `${text.slice(briefEntry.pagesStart, briefEntry.end).match(/^[\s.]*/)![0]}${corrected}`,
+      replacesQuote: true,
+    });
+  }
+  return findings;
+}
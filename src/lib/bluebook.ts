@@ -0,0 +1,359 @@
+import { laterFullCitation, shortCaseName, type Citation } from "./citations";
+import { findCourt } from "./courts";
+import { findReporter } from "./reporters";
+import type { FormattingIssue } from "./types";
+import type { VerificationReport } from "./verification";
+
+// Parallel cites of one decision, which share a case name and parenthetical
+interface CiteGroup {
+  citations: Citation[];
+  // The reporter cites alone, without the case name or parenthetical
+  start: number;
+  end: number;
+  fullStart: number;
+  fullEnd: number;
+}
+
+const PARENTHETICAL = /^\s*\(([^()]{0,60}?)\s*(\d{4})\)/;
+// "410 U.S. 113 at 120", "410 U.S. 113, p. 120": pin cites written the wrong way
+const MISWRITTEN_PIN = /^(?:\s*,?\s*(?:at\s+)?(?:pp?\.|pgs?\.|pages?)\s*|\s+at\s+)(\d+(?:\s*[-–]\s*\d+)?)/;
+const VERSUS = /(\s+)(vs\.?|versus|V\.|v\.?)(\s*)(?=[A-Z0-9])/g;
+// Explanatory parentheticals trailing a citation: "(holding ...)", "(citing Roe v. Wade (1973))"
+const EXPLANATORY = /^(?:\s*\((?:[^()]|\([^()]*\))*\))*/;
+
+// Malformed introductory signals and their Bluebook form (rule 1.2), longest first
+const SIGNAL_FORMS: Array<[RegExp, string]> = [
+  [/\bsee,?\s+e\.\s?g\.,?$/i, "See, e.g.,"],
+  [/\bbut\s+see,?$/i, "But see"],
+  [/\bbut\s+cf\.?,?$/i, "But cf."],
+  [/\bsee\s+also,?$/i, "See also"],
+  [/\bsee\s+generally,?$/i, "See generally"],
+  [/\bcompare,?$/i, "Compare"],
+  [/\bcf\.?,?$/i, "Cf."],
+  [/\bsee,?$/i, "See"],
+  [/\be\.\s?g\.,?$/i, "E.g.,"],
+  [/\baccord,?$/i, "Accord"],
+  [/\bcontra,?$/i, "Contra"],
+];
+
+const collapse = (value: string) => value.replace(/\s+/g, " ").trim();
+
+function groupCitations(citations: Citation[]): CiteGroup[] {
+  const groups = new Map<number, CiteGroup>();
+  for (const citation of citations) {
+    if (citation.kind !== "full") continue;
+    const group = groups.get(citation.fullStart);
+    if (group) {
+      group.citations.push(citation);
+      group.end = Math.max(group.end, citation.end);
+    } else {
+      groups.set(citation.fullStart, {
+        citations: [citation],
+        start: citation.start,
+        end: citation.end,
+        fullStart: citation.fullStart,
+        fullEnd: citation.fullEnd,
+      });
+    }
+  }
+  return Array.from(groups.values()).sort((a, b) => a.start - b.start);
+}
+
+// "Roe, 410 U.S. at 120"
+function shortForm(antecedent: Citation, pin: string | undefined): string {
+  const name = antecedent.caseName ? `${shortCaseName(antecedent.caseName)}, ` : "";
+  return `${name}${antecedent.volume} ${antecedent.reporter} at ${pin || "[pin]"}`;
+}
+
+// "Roe v. Wade, 410 U.S. 113, 120 (1973)", with the short form's pin in place of the full cite's
+function fullForm(text: string, full: Citation, citations: Citation[], pin: string | undefined): string {
+  const groupEnd = Math.max(full.end, ...citations.filter((other) => full.parallel.includes(other.id)).map((other) => other.end));
+  const name = full.caseName ? `${full.caseName}, ` : "";
+  return `${name}${full.volume} ${full.reporter} ${full.page}${pin ? `, ${pin}` : ""} ${collapse(text.slice(groupEnd, full.fullEnd))}`.trim();
+}
+
+// Rule 3.2(a): ranges keep the last two digits and drop the rest of the repetition ("1234-40")
+function normalizePin(pin: string): { pin: string; problem?: string } {
+  const range = pin.match(/^(\d+)(\s*)([-–])(\s*)(\d+)/);
+  if (!range) return { pin };
+  const [whole, from, , dash, , to] = range;
+  let shared = 0;
+  if (to.length === from.length) {
+    while (shared < from.length - 2 && from[shared] === to[shared]) shared++;
+  }
+  const fixed = `${from}${dash}${to.slice(shared)}`;
+  if (fixed === whole) return { pin };
+  return {
+    pin: fixed + pin.slice(whole.length),
+    problem:
+      shared > 0
+        ? `Page ranges keep only the last two digits of the closing page: "${fixed}".`
+        : `Page ranges take no spaces around the dash: "${fixed}".`,
+  };
+}
+
+/**
+ * Reporter abbreviation, pin cite and court/year parenthetical of one full citation,
+ * as a single finding whose recommendation is the whole corrected cite.
+ */
+function citeFormIssue(text: string, group: CiteGroup, verification: VerificationReport | null): FormattingIssue | null {
+  const problems: string[] = [];
+  const pieces = group.citations.map((citation) => {
+    const reporter = findReporter(citation.reporterText || "");
+    const abbreviation = reporter?.abbreviation || citation.reporterText || "";
+    if (reporter && collapse(citation.reporterText || "") !== reporter.abbreviation) {
+      problems.push(`"${collapse(citation.reporterText || "")}" is not the Bluebook abbreviation for the ${reporter.name}; use "${reporter.abbreviation}".`);
+    }
+    const raw = text.slice(citation.start, citation.end);
+    const comma = raw.indexOf(",");
+    let pin = comma >= 0 ? collapse(raw.slice(comma + 1)) : "";
+    if (pin) {
+      const normalized = normalizePin(pin);
+      if (normalized.problem) problems.push(normalized.problem);
+      pin = normalized.pin;
+    }
+    return `${citation.volume} ${abbreviation} ${citation.page}${pin ? `, ${pin}` : ""}`;
+  });
+
+  // A pin cite the parser could not read as one, after the last parallel cite
+  let cursor = group.end;
+  const last = group.citations[group.citations.length - 1];
+  const miswritten = last.pinpoint ? null : text.slice(cursor).match(MISWRITTEN_PIN);
+  if (miswritten) {
+    problems.push(`Pin cites follow the first page after a comma, without "at" or "p.": ", ${miswritten[1]}".`);
+    pieces[pieces.length - 1] += `, ${normalizePin(collapse(miswritten[1])).pin}`;
+    cursor += miswritten[0].length;
+  }
+
+  const reporter = findReporter(group.citations[0].reporterText || "");
+  const match = verification?.verifications.find(
+    (v) => v.match && group.citations.some((citation) => citation.id === v.citationId)
+  )?.match;
+  const knownCourt = match && !reporter?.court ? findCourt(match.court)?.abbreviation : undefined;
+  const parenthetical = text.slice(cursor).match(PARENTHETICAL);
+  let court: string;
+  let year: string;
+  if (parenthetical) {
+    cursor += parenthetical[0].length;
+    court = collapse(parenthetical[1].replace(/,\s*$/, ""));
+    year = parenthetical[2];
+    if (court && reporter?.court === "U.S." && findCourt(court)?.id === "scotus") {
+      problems.push(`Supreme Court decisions cited to ${reporter.abbreviation} take only the year in the parenthetical.`);
+      court = "";
+    } else if (!court && !reporter?.court) {
+      problems.push(`${reporter?.abbreviation || "This reporter"} does not identify the court; name it in the parenthetical.`);
+      court = knownCourt || "[court]";
+    }
+  } else {
+    problems.push("Full citations end with a parenthetical giving the court and year of decision.");
+    court = reporter?.court ? "" : knownCourt || "[court]";
+    year = match ? String(match.year) : "[year]";
+  }
+
+  if (!problems.length) return null;
+  return {
+    quote: text.slice(group.start, cursor),
+    start: group.start,
+    end: cursor,
+    citationId: group.citations[0].id,
+    source: "bluebook",
+    problem: problems.join(" "),
+    recommendation: `${pieces.join(", ")} (${court ? `${court} ` : ""}${year})`,
+    replacesQuote: true,
+  };
+}
+
+// The last clause before a citation, where its case name and signal sit
+function clauseBefore(text: string, floor: number, start: number): { from: number; clause: string } {
+  const from = Math.max(floor, start - 150);
+  const window = text.slice(from, start);
+  let boundary = 0;
+  for (const match of Array.from(window.matchAll(/[;:()]|\n\s*\n/g))) boundary = match.index! + match[0].length;
+  return { from: from + boundary, clause: window.slice(boundary) };
+}
+
+// "Roe v Wade", "Roe vs. Wade", "Roe v.Wade": rule 10.2.1 wants "Roe v. Wade"
+function versusIssue(text: string, group: CiteGroup, floor: number): FormattingIssue | null {
+  const { from, clause } = clauseBefore(text, floor, group.start);
+  if (!/,\s*$/.test(clause)) return null;
+  const found = Array.from(clause.matchAll(VERSUS)).pop();
+  if (!found || (/^\s$/.test(found[1]) && found[2] === "v." && /^\s$/.test(found[3]))) return null;
+
+  const before = clause.slice(0, found.index).match(/\S+$/);
+  const after = clause.slice(found.index! + found[0].length).match(/^[^\s,]+/);
+  if (!before || !after) return null;
+  const start = from + found.index! - before[0].length;
+  const end = from + found.index! + found[0].length + after[0].length;
+  return {
+    quote: text.slice(start, end),
+    start,
+    end,
+    citationId: group.citations[0].id,
+    source: "bluebook",
+    problem: `Case names separate the parties with "v." and single spaces, not "${collapse(found[2])}"${found[3] ? "" : " run into the next word"}.`,
+    recommendation: `${before[0]} v. ${after[0]}`,
+    replacesQuote: true,
+  };
+}
+
+function signalIssue(text: string, group: CiteGroup, floor: number): FormattingIssue | null {
+  if (!group.citations[0].caseName) return null;
+  const from = Math.max(floor, group.fullStart - 30);
+  const window = text.slice(from, group.fullStart).trimEnd();
+  for (const [pattern, form] of SIGNAL_FORMS) {
+    const found = window.match(pattern);
+    if (!found) continue;
+    // A signal inside a textual sentence stays lowercase
+    const fixed = found[0][0] === found[0][0].toLowerCase() ? form[0].toLowerCase() + form.slice(1) : form;
+    if (fixed === found[0]) return null;
+    return {
+      quote: found[0],
+      start: from + found.index!,
+      end: from + found.index! + found[0].length,
+      citationId: group.citations[0].id,
+      source: "bluebook",
+      problem: `The signal is written "${fixed}": ${/e\.g\./.test(form) ? 'a comma follows "e.g."' : "no comma follows it"}, and only its first word is capitalised.`,
+      recommendation: fixed,
+      replacesQuote: true,
+    };
+  }
+  return null;
+}
+
+// Rule 1.4 order: Supreme Court, courts of appeals, district courts, bankruptcy courts, then state courts
+function courtRank(citation: Citation): number {
+  const court = citation.court || "";
+  const reporter = citation.reporter || "";
+  if (court === "U.S." || findCourt(court)?.id === "scotus") return 0;
+  if (/\bCir\./.test(court)) return 1;
+  if (/\bBankr\./.test(court) || reporter === "B.R.") return 3;
+  if (/^(?:[NSEWMC]\.\s?)?D\.|\bD\.\s?[A-Z]/.test(court)) return 2;
+  if (!court && reporter.startsWith("F. Supp.")) return 2;
+  if (!court && reporter.startsWith("F.")) return 1;
+  return 4;
+}
+
+// Positive when `b` belongs before `a`; within a court, the most recent decision comes first
+function compareAuthorities(a: Citation, b: Citation): number {
+  const rank = courtRank(a) - courtRank(b);
+  if (rank) return rank;
+  // State courts are ordered by state, which the rank alone cannot tell apart
+  if (courtRank(a) === 4 && a.court !== b.court) return 0;
+  return a.year && b.year ? b.year - a.year : 0;
+}
+
+// Consecutive full citations under one signal, separated only by semicolons
+function stringCitations(text: string, groups: CiteGroup[]): Array<Array<CiteGroup & { pieceEnd: number }>> {
+  const strings: Array<Array<CiteGroup & { pieceEnd: number }>> = [];
+  let current: Array<CiteGroup & { pieceEnd: number }> = [];
+  groups.forEach((group, i) => {
+    const pieceEnd = group.fullEnd + (text.slice(group.fullEnd).match(EXPLANATORY)?.[0].length || 0);
+    current.push({ ...group, pieceEnd });
+    const next = groups[i + 1];
+    if (!next || !/^\s*;\s*$/.test(text.slice(pieceEnd, next.fullStart))) {
+      if (current.length > 1) strings.push(current);
+      current = [];
+    }
+  });
+  return strings;
+}
+
+function stringOrderIssue(text: string, string: Array<CiteGroup & { pieceEnd: number }>): FormattingIssue | null {
+  const first = (group: CiteGroup) => group.citations[0];
+  const outOfOrder = string.some((group, i) => i > 0 && compareAuthorities(first(string[i - 1]), first(group)) > 0);
+  if (!outOfOrder) return null;
+
+  const sorted = [...string].sort((a, b) => compareAuthorities(first(a), first(b)));
+  const start = string[0].fullStart;
+  const end = string[string.length - 1].pieceEnd;
+  return {
+    quote: text.slice(start, end),
+    start,
+    end,
+    citationId: first(string[0]).id,
+    source: "bluebook",
+    problem:
+      "Authorities in a string citation go in rule 1.4 order: the Supreme Court, then courts of appeals, district courts and state courts, most recent first within each court.",
+    recommendation: sorted.map((group) => collapse(text.slice(group.fullStart, group.pieceEnd))).join("; "),
+    replacesQuote: true,
+  };
+}
+
+/**
+ * Bluebook checks over the parsed citations: reporter abbreviations, pin cites, court and
+ * year parentheticals, "v." in case names, signals, id. and supra, short forms that come
+ * before their full citation, and string-citation order. Every finding is anchored to the
+ * exact text and recommends the corrected form. Italics are lost when a brief is
+ * extracted to plain text, so signals are checked for form only.
+ */
+export function lintCitations(text: string, citations: Citation[], verification: VerificationReport | null = null): FormattingIssue[] {
+  const issues: FormattingIssue[] = [];
+  const groups = groupCitations(citations);
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+
+  // 1. Each full citation on its own
+  for (const group of groups) {
+    // Nothing before the previous citation can belong to this one's case name or signal
+    const floor = citations.filter((other) => other.fullEnd <= group.fullStart).reduce((end, other) => Math.max(end, other.fullEnd), 0);
+    const form = citeFormIssue(text, group, verification);
+    const versus = versusIssue(text, group, floor);
+    const signal = signalIssue(text, group, floor);
+    for (const issue of [versus, signal, form]) if (issue) issues.push(issue);
+  }
+
+  // 2. String citations
+  const strings = stringCitations(text, groups);
+  for (const string of strings) {
+    const issue = stringOrderIssue(text, string);
+    if (issue) issues.push(issue);
+  }
+  const inString = new Set(strings.flatMap((string) => string.flatMap((group) => group.citations.map((citation) => citation.id))));
+
+  // 3. Short forms
+  citations.forEach((citation, index) => {
+    const anchor = { quote: citation.text, start: citation.start, end: citation.end, citationId: citation.id, source: "bluebook" as const };
+    const antecedent = citation.antecedentId ? byId.get(citation.antecedentId) : undefined;
+
+    if (citation.kind === "id") {
+      const previous = citations[index - 1];
+      const before = text.slice(Math.max(0, citation.start - 20), citation.start);
+      const opensSentence = /(^|[.!?]["”’)]?)\s*$/.test(before) && !/\b(?:see|cf\.|also)\s*$/i.test(before);
+      const written = citation.text.slice(0, 3);
+      const wanted = opensSentence ? "Id." : "id.";
+      if (previous && inString.has(previous.id) && antecedent) {
+        issues.push({
+          ...anchor,
+          problem: '"Id." cannot refer back to a string citation; use the short form of the authority meant.',
+          recommendation: shortForm(antecedent, citation.pinpoint),
+          replacesQuote: true,
+        });
+      } else if (written !== wanted) {
+        issues.push({
+          ...anchor,
+          problem: opensSentence ? '"Id." is capitalised when it begins a citation sentence.' : '"id." is lowercase inside a sentence or after a signal.',
+          recommendation: wanted + citation.text.slice(3),
+          replacesQuote: true,
+        });
+      }
+    } else if (citation.kind === "supra" && antecedent) {
+      issues.push({
+        ...anchor,
+        problem: '"Supra" is not used for cases (rule 4.2(a)); use the case\'s short form.',
+        recommendation: shortForm(antecedent, citation.pinpoint),
+        replacesQuote: true,
+      });
+    } else {
+      const later = laterFullCitation(citations, citation);
+      if (later) {
+        issues.push({
+          ...anchor,
+          problem: `This short form comes before the full citation to ${later.caseName || later.text}; give the full citation at its first use.`,
+          recommendation: fullForm(text, later, citations, citation.pinpoint),
+          replacesQuote: true,
+        });
+      }
+    }
+  });
+
+  return issues.sort((a, b) => a.start! - b.start!);
+}
@@ -0,0 +1,82 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Citation } from "./citations";
+import { findReporter } from "./reporters";
+import { citeKey, compareCitation, type CaseRecord, type VerificationReport } from "./verification";
+
+export interface CaseIndex {
+  source: string;
+  size: number;
+  lookup(key: string): CaseRecord[];
+}
+
+// JSON Lines, one CaseRecord per line; build it with `npm run import:cases`
+export const CASE_INDEX_PATH = process.env.CASE_INDEX_PATH || path.join(process.cwd(), "data", "case-index.jsonl");
+
+let cached: { mtimeMs: number; index: CaseIndex } | null = null;
+
+// Index keys use the Bluebook reporter so "S.Ct." in the dump matches "S. Ct." in a brief
+export function normalizeCite(cite: string): string {
+  const match = cite.match(/^(\d+)\s+(.+?)\s+(\d+)$/);
+  if (!match) return cite;
+  const reporter = findReporter(match[2]);
+  return citeKey(Number(match[1]), reporter?.abbreviation || match[2], Number(match[3]));
+}
+
+/**
+ * Loads the local case index, re-reading it only when the file changes.
+ * Returns null when no index has been imported.
+ */
+export async function loadCaseIndex(): Promise<CaseIndex | null> {
+  let stat;
+  try {
+    stat = await fs.stat(CASE_INDEX_PATH);
+  } catch {
+    return null;
+  }
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.index;
+
+  const content = await fs.readFile(CASE_INDEX_PATH, "utf8");
+  const byCite = new Map<string, CaseRecord[]>();
+  let size = 0;
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    const record = JSON.parse(line) as CaseRecord;
+    size++;
+    for (const cite of record.citations) {
+      const key = normalizeCite(cite);
+      const records = byCite.get(key);
+      if (records) records.push(record);
+      else byCite.set(key, [record]);
+    }
+  }
+
+  const index: CaseIndex = {
+    source: `${path.basename(CASE_INDEX_PATH)} (${size.toLocaleString()} cases)`,
+    size,
+    lookup: (key) => byCite.get(key) || [],
+  };
+  cached = { mtimeMs: stat.mtimeMs, index };
+  return index;
+}
+
+export async function verifyCitations(citations: Citation[]): Promise<VerificationReport | null> {
+  const index = await loadCaseIndex();
+  if (!index) return null;
+
+  const verifications = citations
+    .filter((citation) => citation.kind === "full")
+    .map((citation) =>
+      citation.reporter
+        ? compareCitation(citation, index.lookup(citeKey(citation.volume, citation.reporter, citation.page)))
+        : {
+            citationId: citation.id,
+            status: "unchecked" as const,
+            citeKey: citation.text,
+            discrepancies: [],
+          }
+    );
+
+  return { source: index.source, indexSize: index.size, verifications };
+}
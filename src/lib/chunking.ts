@@ -0,0 +1,65 @@
+export interface DocumentChunk {
+  index: number;
+  // Offsets into the full document
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface ChunkOptions {
+  // Upper bound on characters sent to the model per call
+  maxChars?: number;
+  // Characters repeated from the previous chunk so issues straddling a boundary are seen whole
+  overlap?: number;
+}
+
+export const DEFAULT_CHUNK_CHARS = 6000;
+export const DEFAULT_CHUNK_OVERLAP = 400;
+
+// Brief headings: "ARGUMENT", "I. INTRODUCTION", "A. The Standard of Review"
+const HEADING = /\n[ \t]*(?:[IVXLC]+\.|[A-H]\.|\d+\.)?[ \t]*[A-Z][A-Z ,'’&-]{3,}\n|\n[ \t]*(?:[IVXLC]+|[A-H])\.[ \t]+[A-Z][^\n]{0,80}\n/g;
+
+function lastBoundary(text: string, from: number, to: number): number {
+  const window = text.slice(from, to);
+
+  // Prefer starting the next chunk at a section heading in the back half of the window
+  HEADING.lastIndex = 0;
+  let heading = -1;
+  let match: RegExpExecArray | null;
+  while ((match = HEADING.exec(window)) !== null) {
+    if (match.index > window.length / 2) heading = match.index + 1;
+  }
+  if (heading > 0) return from + heading;
+
+  const paragraph = window.lastIndexOf("\n\n");
+  if (paragraph > window.length / 2) return from + paragraph + 2;
+
+  const sentence = Math.max(window.lastIndexOf(". "), window.lastIndexOf(".\n"));
+  if (sentence > window.length / 2) return from + sentence + 2;
+
+  return to;
+}
+
+/**
+ * Splits a document into overlapping chunks that each fit in one model call, breaking
+ * at section headings, then paragraphs, then sentences. Chunks cover the whole text.
+ */
+export function chunkDocument(text: string, options: ChunkOptions = {}): DocumentChunk[] {
+  const maxChars = options.maxChars || DEFAULT_CHUNK_CHARS;
+  const overlap = Math.min(options.overlap ?? DEFAULT_CHUNK_OVERLAP, Math.floor(maxChars / 4));
+  const chunks: DocumentChunk[] = [];
+
+  let start = 0;
+  while (start < text.length) {
+    const limit = Math.min(start + maxChars, text.length);
+    const end = limit === text.length ? limit : lastBoundary(text, start, limit);
+    chunks.push({ index: chunks.length, start, end, text: text.slice(start, end) });
+    if (end >= text.length) break;
+    // Begin the overlap on a word boundary
+    const overlapStart = end - overlap;
+    const space = text.slice(overlapStart, end).search(/\s/);
+    start = Math.max(space === -1 ? overlapStart : overlapStart + space + 1, start + 1);
+  }
+
+  return chunks;
+}
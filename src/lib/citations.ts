@@ -0,0 +1,355 @@
+import { REPORTER_PATTERN, findReporter } from "./reporters";
+import type { CriticalIssue, HallucinationSignal } from "./types";
+
+// full: "Roe v. Wade, 410 U.S. 113, 120 (1973)"
+// short: "Roe, 410 U.S. at 120"
+// id: "Id. at 121"
+// supra: "Roe, supra, at 122"
+export type CitationKind = "full" | "short" | "id" | "supra";
+
+export interface Citation {
+  id: string;
+  kind: CitationKind;
+  // Offsets of the reporter cite itself ("410 U.S. 113, 120"), or of the short form
+  start: number;
+  end: number;
+  // Offsets of the whole citation sentence: case name through the court/year parenthetical
+  fullStart: number;
+  fullEnd: number;
+  text: string;
+  volume?: number;
+  // Reporter exactly as written, and its Bluebook abbreviation when recognised
+  reporterText?: string;
+  reporter?: string;
+  page?: number;
+  pinpoint?: string;
+  court?: string;
+  year?: number;
+  caseName?: string;
+  // Ids of the other reporters citing the same decision
+  parallel: string[];
+  // Full citation a short form refers back to
+  antecedentId?: string;
+}
+
+const PIN = String.raw`\d+(?:\s*[-–]\s*\d+)?(?:\s*n\.\s*\d+)?`;
+
+const FULL_CITE = new RegExp(
+  String.raw`\b(\d{1,4})\s+(${REPORTER_PATTERN})\s+(\d{1,5})(?![\w])` +
+    // A following number is a pinpoint unless it starts the next parallel cite
+    String.raw`(?:,\s*(${PIN})(?![\d\w])(?!\s+(?:${REPORTER_PATTERN})\s+\d))?`,
+  "g"
+);
+const SHORT_CITE = new RegExp(String.raw`\b(\d{1,4})\s+(${REPORTER_PATTERN})\s+at\s+(${PIN})`, "g");
+const ID_CITE = new RegExp(String.raw`\b[Ii]d\.(?:,?\s+at\s+(${PIN}))?`, "g");
+const SUPRA_CITE = new RegExp(
+  String.raw`\b(?:(?:See|Cf\.|But see|Accord)\s+)?([A-Z][A-Za-z.'’&-]*(?:\s+[A-Z][A-Za-z.'’&-]*){0,3}),?\s+supra\b(?!\s+note)(?:,?\s+at\s+(${PIN}))?`,
+  "g"
+);
+const PARENTHETICAL = /^\s*\(([^()]{0,60}?)\s*(\d{4})\)/;
+
+// Words that can open a sentence or a citation clause but are never part of a case name
+const NAME_STOP_WORDS = new Set([
+  "see", "cf.", "but", "accord", "compare", "contra", "also", "e.g.,", "in", "as", "under",
+  "because", "although", "here", "moreover", "further", "furthermore", "and", "citing", "quoting",
+  "cf", "generally",
+]);
+const NAME_CONNECTORS = new Set(["of", "the", "and", "for", "ex", "rel.", "de", "la", "du", "von", "van", "&"]);
+
+// Shorter lines are headings or list entries, not running text that wrapped
+const MIN_WRAPPED_LINE = 40;
+
+function findCaseName(text: string, citeStart: number): { name: string; start: number } | null {
+  const windowStart = Math.max(0, citeStart - 200);
+  const before = text.slice(windowStart, citeStart);
+  if (!/,\s*$/.test(before)) return null;
+
+  const head = before.replace(/,\s*$/, "");
+  const inRe = head.match(/\b(In re|Ex parte|Matter of)\s+([^,;()\n]+(?:,\s*(?:Inc|LLC|Ltd|Co|Corp)\.)?)$/);
+  if (inRe && inRe.index !== undefined) {
+    return { name: `${inRe[1]} ${inRe[2]}`.trim(), start: windowStart + inRe.index };
+  }
+
+  // A name may wrap onto the next line ("Celotex\nCorp. v. Catrett") but never spans a blank line
+  const versus = head.search(/\sv\.\s(?![\s\S]*\sv\.\s)/);
+  if (versus === -1) return null;
+  const respondent = head.slice(versus + 4).replace(/\s+/g, " ");
+  if (/[;()]/.test(respondent) || /\n[ \t]*\n/.test(head.slice(versus)) || !/^[A-Z0-9]/.test(respondent)) return null;
+
+  // Walk left from "v." over capitalised words and connectors until a clause boundary
+  const clause = head.slice(0, versus);
+  const paragraphStart = Math.max(...Array.from(clause.matchAll(/\n[ \t]*\n/g)).map((m) => m.index! + m[0].length), 0);
+  const words = Array.from(clause.slice(paragraphStart).matchAll(/\S+/g));
+  let taken = 0;
+  for (let i = words.length - 1; i >= 0; i--) {
+    const word = words[i][0];
+    if (/[;:()]/.test(word) || NAME_STOP_WORDS.has(word.toLowerCase())) break;
+    // Only a wrapped line continues the name; a short line before it is a heading
+    const gap = clause.slice(paragraphStart + words[i].index! + word.length, paragraphStart + (words[i + 1]?.index ?? clause.length - paragraphStart));
+    if (gap.includes("\n") && clause.slice(0, paragraphStart + words[i].index! + word.length).split("\n").pop()!.trim().length < MIN_WRAPPED_LINE) break;
+    if (!/^[A-Z]/.test(word) && !NAME_CONNECTORS.has(word)) break;
+    taken++;
+  }
+  // A name cannot start with a connector ("of Smith v. Jones")
+  while (taken > 0 && NAME_CONNECTORS.has(words[words.length - taken][0])) taken--;
+  if (taken === 0) return null;
+
+  const first = words[words.length - taken];
+  const petitioner = words.slice(words.length - taken).map((word) => word[0]).join(" ");
+  const name = `${petitioner} v. ${respondent}`.trim();
+  return { name, start: windowStart + paragraphStart + first.index! };
+}
+
+function matchAll(pattern: RegExp, text: string): RegExpExecArray[] {
+  pattern.lastIndex = 0;
+  const matches: RegExpExecArray[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    matches.push(match);
+  }
+  return matches;
+}
+
+const overlaps = (citations: Citation[], start: number, end: number) =>
+  citations.some((c) => start < c.fullEnd && end > c.fullStart);
+
+// First party of a case name, as used in short forms ("Roe" for "Roe v. Wade")
+export function shortCaseName(caseName: string): string {
+  return caseName.replace(/^(In re|Ex parte|Matter of)\s+/, "").split(/\s+v\.\s+/)[0].replace(/,.*$/, "").trim();
+}
+
+/**
+ * Finds case citations in a document, including parallel cites and id./supra/short
+ * forms, with character offsets into the original text. Purely lexical: nothing here
+ * checks whether a cited case exists.
+ */
+export function extractCitations(text: string): Citation[] {
+  const full: Citation[] = [];
+
+  for (const match of matchAll(FULL_CITE, text)) {
+    const reporter = findReporter(match[2]);
+    full.push({
+      id: "",
+      kind: "full",
+      start: match.index,
+      end: match.index + match[0].length,
+      fullStart: match.index,
+      fullEnd: match.index + match[0].length,
+      text: match[0],
+      volume: Number(match[1]),
+      reporterText: match[2],
+      reporter: reporter?.abbreviation,
+      page: Number(match[3]),
+      pinpoint: match[4]?.replace(/\s+/g, ""),
+      parallel: [],
+    });
+  }
+
+  // Group parallel cites ("410 U.S. 113, 93 S. Ct. 705 (1973)") so they share name, court and year
+  const groups: Citation[][] = [];
+  for (const citation of full) {
+    const group = groups[groups.length - 1];
+    const previous = group?.[group.length - 1];
+    if (previous && /^\s*,\s*$/.test(text.slice(previous.end, citation.start))) {
+      group.push(citation);
+    } else {
+      groups.push([citation]);
+    }
+  }
+
+  for (const group of groups) {
+    const first = group[0];
+    const last = group[group.length - 1];
+    const caseName = findCaseName(text, first.start);
+    const parenthetical = text.slice(last.end).match(PARENTHETICAL);
+    const reporter = findReporter(first.reporterText || "");
+    const court = parenthetical?.[1].replace(/,\s*$/, "").trim() || reporter?.court;
+    const year = parenthetical ? Number(parenthetical[2]) : undefined;
+    const fullStart = caseName ? caseName.start : first.start;
+    const fullEnd = parenthetical ? last.end + parenthetical[0].length : last.end;
+
+    for (const citation of group) {
+      citation.caseName = caseName?.name;
+      citation.court = court;
+      citation.year = year;
+      citation.fullStart = fullStart;
+      citation.fullEnd = fullEnd;
+    }
+  }
+
+  const citations: Citation[] = [...full];
+
+  for (const match of matchAll(SHORT_CITE, text)) {
+    const reporter = findReporter(match[2]);
+    citations.push({
+      id: "",
+      kind: "short",
+      start: match.index,
+      end: match.index + match[0].length,
+      fullStart: match.index,
+      fullEnd: match.index + match[0].length,
+      text: match[0],
+      volume: Number(match[1]),
+      reporterText: match[2],
+      reporter: reporter?.abbreviation,
+      pinpoint: match[3].replace(/\s+/g, ""),
+      parallel: [],
+    });
+  }
+
+  for (const match of matchAll(SUPRA_CITE, text)) {
+    const start = match.index + match[0].indexOf(match[1]);
+    const end = match.index + match[0].length;
+    if (overlaps(citations, start, end)) continue;
+    citations.push({
+      id: "",
+      kind: "supra",
+      start,
+      end,
+      fullStart: start,
+      fullEnd: end,
+      text: text.slice(start, end),
+      caseName: match[1],
+      pinpoint: match[2]?.replace(/\s+/g, ""),
+      parallel: [],
+    });
+  }
+
+  for (const match of matchAll(ID_CITE, text)) {
+    const end = match.index + match[0].length;
+    if (overlaps(citations, match.index, end)) continue;
+    citations.push({
+      id: "",
+      kind: "id",
+      start: match.index,
+      end,
+      fullStart: match.index,
+      fullEnd: end,
+      text: match[0],
+      pinpoint: match[1]?.replace(/\s+/g, ""),
+      parallel: [],
+    });
+  }
+
+  citations.sort((a, b) => a.start - b.start);
+  citations.forEach((citation, index) => {
+    citation.id = `cite-${index}`;
+  });
+
+  for (const group of groups) {
+    for (const citation of group) {
+      citation.parallel = group.filter((other) => other !== citation).map((other) => other.id);
+    }
+  }
+
+  // Resolve short forms against what came before them
+  citations.forEach((citation, index) => {
+    const earlier = citations.slice(0, index);
+    if (citation.kind === "id") {
+      const previous = earlier[earlier.length - 1];
+      citation.antecedentId = previous ? previous.antecedentId || previous.id : undefined;
+    } else if (citation.kind === "short") {
+      const candidates = earlier.filter(
+        (other) => other.kind === "full" && other.volume === citation.volume && other.reporter === citation.reporter
+      );
+      // Two cases in one volume: the pin cite falls within the one that starts nearest below it
+      const pin = parseInt(citation.pinpoint || "", 10);
+      const within = candidates
+        .filter((other) => other.page !== undefined && other.page <= pin)
+        .sort((a, b) => b.page! - a.page!)[0];
+      citation.antecedentId = (within || candidates[0])?.id;
+    } else if (citation.kind === "supra") {
+      const antecedent = earlier.find(
+        (other) =>
+          other.kind === "full" &&
+          other.caseName &&
+          (shortCaseName(other.caseName) === citation.caseName || other.caseName.includes(citation.caseName || ""))
+      );
+      citation.antecedentId = antecedent?.id;
+    }
+  });
+
+  return citations;
+}
+
+/**
+ * The full citation a short form with no antecedent most likely meant, when it only
+ * appears later in the brief. Id. has no name or reporter to match on, so never has one.
+ */
+export function laterFullCitation(citations: Citation[], citation: Citation): Citation | undefined {
+  if (citation.antecedentId || citation.kind === "full" || citation.kind === "id") return undefined;
+  return citations.find(
+    (other) =>
+      other.kind === "full" &&
+      other.start > citation.start &&
+      (citation.kind === "short"
+        ? other.volume === citation.volume && other.reporter === citation.reporter
+        : !!other.caseName && shortCaseName(other.caseName) === citation.caseName)
+  );
+}
+
+/**
+ * Deterministic findings derived from the citations alone: reporter/year combinations
+ * that cannot exist, and short forms with nothing to refer back to. A short form whose
+ * full citation only comes later is a formatting problem, left to the Bluebook linter.
+ */
+export function citationFindings(
+  text: string,
+  citations: Citation[]
+): { hallucinationSignals: HallucinationSignal[]; criticalIssues: CriticalIssue[] } {
+  const hallucinationSignals: HallucinationSignal[] = [];
+  const criticalIssues: CriticalIssue[] = [];
+  const currentYear = new Date().getFullYear();
+
+  for (const citation of citations) {
+    const quote = text.slice(citation.fullStart, citation.fullEnd);
+    const anchor = {
+      quote,
+      start: citation.fullStart,
+      end: citation.fullEnd,
+      citationId: citation.id,
+      source: "citation-parser" as const,
+    };
+
+    if (citation.kind === "full") {
+      const reporter = findReporter(citation.reporterText || "");
+      if (reporter && citation.year) {
+        // One year of slack either side for decisions published across a series change
+        if (citation.year < reporter.from - 1 || (reporter.to && citation.year > reporter.to + 1)) {
+          hallucinationSignals.push({
+            ...anchor,
+            pattern: "Reporter series inconsistent with decision year",
+            risk: `${reporter.abbreviation} (${reporter.name}) covers ${reporter.from}–${reporter.to || "present"}; a ${citation.year} decision cannot be reported there.`,
+          });
+        }
+      }
+      if (citation.year && citation.year > currentYear) {
+        hallucinationSignals.push({
+          ...anchor,
+          pattern: "Decision year in the future",
+          risk: `The citation gives ${citation.year} as the decision year.`,
+        });
+      }
+      const pin = citation.pinpoint ? parseInt(citation.pinpoint, 10) : NaN;
+      if (citation.page && !Number.isNaN(pin) && pin < citation.page) {
+        hallucinationSignals.push({
+          ...anchor,
+          pattern: "Pinpoint precedes first page",
+          risk: `Pin cite ${citation.pinpoint} comes before the opinion's first page (${citation.page}).`,
+        });
+      }
+    } else if (!citation.antecedentId && !laterFullCitation(citations, citation)) {
+      const form = citation.kind === "id" ? "\"Id.\"" : citation.kind === "supra" ? "\"supra\"" : "Short-form";
+      criticalIssues.push({
+        ...anchor,
+        problem: `${form} citation has no full citation earlier in the brief to refer back to.`,
+        missingAuthority:
+          citation.kind === "supra"
+            ? `Full citation for ${citation.caseName} before this reference`
+            : "Full citation to the authority this passage relies on",
+      });
+    }
+  }
+
+  return { hallucinationSignals, criticalIssues };
+}
@@ -0,0 +1,53 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { normalizeCite } from "./case-index";
+import type { Citation } from "./citations";
+import { checkTreatments, TREATMENT_KINDS, type CitatorLookup, type Treatment, type TreatmentReport } from "./treatment";
+import type { VerificationReport } from "./verification";
+
+// JSON Lines, one Treatment per line; build it from a CSV with `npm run import:citator`
+export const CITATOR_PATH = process.env.CITATOR_PATH || path.join(process.cwd(), "data", "citator.jsonl");
+
+let cached: { mtimeMs: number; citator: CitatorLookup } | null = null;
+
+/**
+ * Loads the citing-relationship dataset, re-reading it only when the file changes.
+ * Returns null when none has been imported.
+ */
+export async function loadCitator(): Promise<CitatorLookup | null> {
+  let stat;
+  try {
+    stat = await fs.stat(CITATOR_PATH);
+  } catch {
+    return null;
+  }
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.citator;
+
+  const content = await fs.readFile(CITATOR_PATH, "utf8");
+  const byCite = new Map<string, Treatment[]>();
+  let size = 0;
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    const record = JSON.parse(line) as Treatment;
+    if (!TREATMENT_KINDS.includes(record.treatment)) continue;
+    size++;
+    const key = normalizeCite(record.cited);
+    const treatments = byCite.get(key);
+    if (treatments) treatments.push(record);
+    else byCite.set(key, [record]);
+  }
+
+  const citator: CitatorLookup = {
+    source: `${path.basename(CITATOR_PATH)} (${size.toLocaleString()} relationships)`,
+    treatments: (cite) => byCite.get(normalizeCite(cite)) || [],
+  };
+  cached = { mtimeMs: stat.mtimeMs, citator };
+  return citator;
+}
+
+/** Checks every cited decision for later history in the citator; null when no dataset is installed. */
+export async function checkCitator(text: string, citations: Citation[], verification: VerificationReport | null): Promise<TreatmentReport | null> {
+  const citator = await loadCitator();
+  return citator ? checkTreatments(text, citations, verification, citator) : null;
+}
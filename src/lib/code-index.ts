@@ -0,0 +1,58 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { codeKey, verifyStatutes, type CodeIndexLookup, type CodeSection, type StatuteCitation, type StatuteReport } from "./statutes";
+
+// JSON Lines of three kinds: a titled code's titles ({"code", "titles"}), a code's or
+// title's section ranges ({"code", "title"?, "sections"}), and one section ({"code", "title"?, "section", "status"})
+export const CODE_INDEX_PATH = process.env.CODE_INDEX_PATH || path.join(process.cwd(), "data", "code-index.jsonl");
+
+interface CodeIndexLine {
+  code: string;
+  title?: number;
+  titles?: [number, number];
+  sections?: Array<[number, number]>;
+  section?: string;
+}
+
+let cached: { mtimeMs: number; index: CodeIndexLookup } | null = null;
+
+/**
+ * Loads the code index, re-reading it only when the file changes. Returns null when
+ * the file is missing.
+ */
+export async function loadCodeIndex(): Promise<CodeIndexLookup | null> {
+  let stat;
+  try {
+    stat = await fs.stat(CODE_INDEX_PATH);
+  } catch {
+    return null;
+  }
+  if (cached && cached.mtimeMs === stat.mtimeMs) return cached.index;
+
+  const content = await fs.readFile(CODE_INDEX_PATH, "utf8");
+  const sections = new Map<string, CodeSection>();
+  const ranges = new Map<string, Array<[number, number]>>();
+  const titles = new Map<string, [number, number]>();
+
+  for (const line of content.split("\n")) {
+    if (!line.trim()) continue;
+    const record = JSON.parse(line) as CodeIndexLine;
+    if (record.section) sections.set(codeKey(record.code, record.title, record.section), record as CodeSection);
+    else if (record.sections) ranges.set(codeKey(record.code, record.title, "").trim(), record.sections);
+    else if (record.titles) titles.set(record.code, record.titles);
+  }
+
+  const index: CodeIndexLookup = {
+    source: `${path.basename(CODE_INDEX_PATH)} (${sections.size.toLocaleString()} sections)`,
+    section: (key) => sections.get(key),
+    ranges: (code, title) => ranges.get(codeKey(code, title, "").trim()),
+    titles: (code) => titles.get(code),
+  };
+  cached = { mtimeMs: stat.mtimeMs, index };
+  return index;
+}
+
+/** Looks each statutory citation up in the code index; without an index the report only lists them. */
+export async function checkStatutes(text: string, statutes: StatuteCitation[]): Promise<StatuteReport> {
+  return verifyStatutes(text, statutes, await loadCodeIndex());
+}
@@ -0,0 +1,155 @@
+import { anchorMemo, CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, quoteSimilarity, type HighlightCategory, type HighlightMark } from "./anchoring";
+import { diffLines, diffWords, type DiffPart } from "./diff";
+import { computeRiskMetrics } from "./scoring";
+import { triagedMemo } from "./triage";
+import type { CriticalIssue, FormattingIssue, HallucinationSignal, ReviewSummary, StoredReview, TriageStatus } from "./types";
+
+// Below this two findings are about different passages, even in the same category
+const MIN_MATCH_SIMILARITY = 0.6;
+
+// Replaced blocks longer than this are shown as whole lines rather than word by word
+const MAX_WORD_DIFF_CHARS = 5_000;
+
+export type VersionChange = "resolved" | "persisting" | "new";
+
+export interface ComparedIssue {
+  change: VersionChange;
+  category: HighlightCategory;
+  // Index in each version's memo; null on the side the finding is absent from
+  previousIndex: number | null;
+  currentIndex: number | null;
+  quote: string;
+  title: string;
+  // How closely a persisting finding's text matched across versions
+  similarity: number | null;
+  // What the reviewer decided about the finding in the earlier draft
+  previousTriage: TriageStatus | null;
+}
+
+/** What changed between two drafts of a brief, for /review/[id]/compare. */
+export interface ReviewComparison {
+  previous: ReviewSummary;
+  current: ReviewSummary;
+  issues: ComparedIssue[];
+  counts: Record<VersionChange, number>;
+  // Line diff of the two documents, refined to words inside changed lines
+  diff: DiffPart[];
+  // Every linked draft, oldest first, ending with the current one
+  history: ReviewSummary[];
+}
+
+type Issue = HallucinationSignal | CriticalIssue | FormattingIssue;
+
+/** A review as listed among the drafts of its matter, scored from its open findings. */
+export function summarizeReview(review: StoredReview): ReviewSummary {
+  const metrics = computeRiskMetrics(triagedMemo(review.memo, review.triage));
+  return {
+    id: review.id,
+    createdAt: review.createdAt,
+    fileName: review.fileName,
+    matter: review.matter,
+    score: metrics.score,
+    readiness: metrics.readiness,
+  };
+}
+
+const issueTitle = (category: HighlightCategory, issue: Issue) =>
+  category === "hallucination" ? (issue as HallucinationSignal).pattern : (issue as CriticalIssue | FormattingIssue).problem;
+
+// Each finding with the document text it is anchored to, falling back to its quote
+function locatedIssues(review: StoredReview, marks: HighlightMark[], category: HighlightCategory) {
+  return (review.memo[CATEGORY_FIELDS[category]] as Issue[]).map((issue, index) => {
+    const mark = marks.find((candidate) => candidate.category === category && candidate.index === index);
+    return { index, issue, text: mark ? review.document.slice(mark.start, mark.end) : issue.quote };
+  });
+}
+
+/**
+ * Pairs each finding in the earlier draft with the most similar finding of the same
+ * category in the later one, most similar pairs first. Paired findings persist; the
+ * rest of the earlier draft's were resolved, and the rest of the later draft's are new.
+ */
+function matchIssues(previous: StoredReview, current: StoredReview): ComparedIssue[] {
+  const previousTriage = new Map((previous.triage || []).map((entry) => [entry.key, entry.status]));
+  const previousMarks = anchorMemo(previous.document, previous.memo).marks;
+  const currentMarks = anchorMemo(current.document, current.memo).marks;
+  const compared: ComparedIssue[] = [];
+
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    const before = locatedIssues(previous, previousMarks, category);
+    const after = locatedIssues(current, currentMarks, category);
+    const pairs = before
+      .flatMap((a) => after.map((b) => ({ a, b, similarity: quoteSimilarity(a.text, b.text) })))
+      .filter((pair) => pair.similarity >= MIN_MATCH_SIMILARITY)
+      .sort((x, y) => y.similarity - x.similarity);
+
+    const matched = new Map<number, { index: number; similarity: number }>();
+    const taken = new Set<number>();
+    for (const { a, b, similarity } of pairs) {
+      if (matched.has(a.index) || taken.has(b.index)) continue;
+      matched.set(a.index, { index: b.index, similarity });
+      taken.add(b.index);
+    }
+
+    for (const { index, issue } of before) {
+      const match = matched.get(index);
+      compared.push({
+        change: match ? "persisting" : "resolved",
+        category,
+        previousIndex: index,
+        currentIndex: match ? match.index : null,
+        quote: match ? after[match.index].issue.quote : issue.quote,
+        title: issueTitle(category, match ? after[match.index].issue : issue),
+        similarity: match ? Math.round(match.similarity * 100) / 100 : null,
+        previousTriage: previousTriage.get(`${category}-${index}`) || null,
+      });
+    }
+    for (const { index, issue } of after.filter(({ index }) => !taken.has(index))) {
+      compared.push({
+        change: "new",
+        category,
+        previousIndex: null,
+        currentIndex: index,
+        quote: issue.quote,
+        title: issueTitle(category, issue),
+        similarity: null,
+        previousTriage: null,
+      });
+    }
+  }
+  return compared;
+}
+
+// Lines that were rewritten rather than added or removed read better as a word diff
+function refineDiff(parts: DiffPart[]): DiffPart[] {
+  const refined: DiffPart[] = [];
+  for (let i = 0; i < parts.length; i++) {
+    const part = parts[i];
+    const next = parts[i + 1];
+    if (part.type === "delete" && next?.type === "insert" && part.text.length + next.text.length <= MAX_WORD_DIFF_CHARS) {
+      refined.push(...diffWords(part.text, next.text));
+      i++;
+    } else {
+      refined.push(part);
+    }
+  }
+  return refined;
+}
+
+/** Compares a review with the review of an earlier draft. `history` lists the drafts before `previous`. */
+export function compareReviews(previous: StoredReview, current: StoredReview, history: ReviewSummary[] = []): ReviewComparison {
+  const issues = matchIssues(previous, current);
+  const counts: Record<VersionChange, number> = { resolved: 0, persisting: 0, new: 0 };
+  issues.forEach((issue) => counts[issue.change]++);
+
+  const previousSummary = summarizeReview(previous);
+  const currentSummary = summarizeReview(current);
+  return {
+    previous: previousSummary,
+    current: currentSummary,
+    issues,
+    counts,
+    diff: refineDiff(diffLines(previous.document, current.document)),
+    history: [...history, previousSummary, currentSummary],
+  };
+}
@@ -0,0 +1,434 @@
+import type { Citation } from "./citations";
+import { findCourt } from "./courts";
+import type { PageSpan } from "./documents";
+import type { FormattingIssue } from "./types";
+
+export type CitationStyle = "bluebook" | "ny-official";
+
+export interface SectionRule {
+  name: string;
+  // Alternative headings, matched at the start of a short line
+  headings: string[];
+  rule: string;
+  // Only required once the brief runs past this many pages
+  requiredOverPages?: number;
+}
+
+/** Local rules for briefs filed in one court. */
+export interface CourtProfile {
+  // Court id from courts.ts, e.g. "ca9"
+  courtId: string;
+  name: string;
+  abbreviation: string;
+  documentType: string;
+  wordLimit?: { words: number; rule: string };
+  pageLimit?: { pages: number; rule: string };
+  requiredSections: SectionRule[];
+  citationStyle: { style: CitationStyle; rule: string };
+  typography: { minFontPt: number; serif: boolean; spacing: string; rule: string };
+}
+
+const TOC: Omit<SectionRule, "rule"> = { name: "Table of Contents", headings: ["TABLE OF CONTENTS"] };
+const TOA: Omit<SectionRule, "rule"> = { name: "Table of Authorities", headings: ["TABLE OF AUTHORITIES", "TABLE OF CASES"] };
+const CERTIFICATE: Omit<SectionRule, "rule"> = { name: "Certificate of Compliance", headings: ["CERTIFICATE OF COMPLIANCE", "FORM 8"] };
+
+export const COURT_PROFILES: CourtProfile[] = [
+  {
+    courtId: "ca9",
+    name: "U.S. Court of Appeals for the Ninth Circuit",
+    abbreviation: "9th Cir.",
+    documentType: "Principal brief",
+    wordLimit: { words: 14_000, rule: "9th Cir. R. 32-1(a)" },
+    requiredSections: [
+      { name: "Corporate Disclosure Statement", headings: ["CORPORATE DISCLOSURE STATEMENT", "DISCLOSURE STATEMENT"], rule: "Fed. R. App. P. 26.1, 28(a)(1)" },
+      { ...TOC, rule: "Fed. R. App. P. 28(a)(2)" },
+      { ...TOA, rule: "Fed. R. App. P. 28(a)(3)" },
+      { name: "Jurisdictional Statement", headings: ["JURISDICTIONAL STATEMENT", "STATEMENT OF JURISDICTION"], rule: "Fed. R. App. P. 28(a)(4)" },
+      { name: "Statement of the Issues", headings: ["STATEMENT OF THE ISSUES", "STATEMENT OF ISSUES", "ISSUES PRESENTED"], rule: "Fed. R. App. P. 28(a)(5)" },
+      { name: "Statement of the Case", headings: ["STATEMENT OF THE CASE"], rule: "Fed. R. App. P. 28(a)(6)" },
+      { name: "Summary of the Argument", headings: ["SUMMARY OF THE ARGUMENT", "SUMMARY OF ARGUMENT"], rule: "Fed. R. App. P. 28(a)(7)" },
+      { name: "Argument", headings: ["ARGUMENT"], rule: "Fed. R. App. P. 28(a)(8)" },
+      { name: "Conclusion", headings: ["CONCLUSION"], rule: "Fed. R. App. P. 28(a)(9)" },
+      { ...CERTIFICATE, rule: "Fed. R. App. P. 32(g); 9th Cir. Form 8" },
+    ],
+    citationStyle: { style: "bluebook", rule: "The Bluebook" },
+    typography: { minFontPt: 14, serif: true, spacing: "double-spaced, one-inch margins", rule: "Fed. R. App. P. 32(a)(4)-(5)" },
+  },
+  {
+    courtId: "cacd",
+    name: "U.S. District Court, Central District of California",
+    abbreviation: "C.D. Cal.",
+    documentType: "Memorandum of points and authorities",
+    wordLimit: { words: 7_000, rule: "C.D. Cal. L.R. 11-6.1" },
+    requiredSections: [
+      { name: "Memorandum of Points and Authorities", headings: ["MEMORANDUM OF POINTS AND AUTHORITIES"], rule: "C.D. Cal. L.R. 7-5(b)" },
+      { ...TOC, rule: "C.D. Cal. L.R. 11-8", requiredOverPages: 10 },
+      { ...TOA, rule: "C.D. Cal. L.R. 11-8", requiredOverPages: 10 },
+      { ...CERTIFICATE, rule: "C.D. Cal. L.R. 11-6.2" },
+    ],
+    citationStyle: { style: "bluebook", rule: "The Bluebook" },
+    typography: { minFontPt: 14, serif: false, spacing: "double-spaced", rule: "C.D. Cal. L.R. 11-3.1.1, 11-3.6" },
+  },
+  {
+    courtId: "nysd",
+    name: "U.S. District Court, Southern District of New York",
+    abbreviation: "S.D.N.Y.",
+    documentType: "Memorandum of law",
+    wordLimit: { words: 8_750, rule: "S.D.N.Y. Local Civ. R. 7.1(c)" },
+    requiredSections: [{ ...CERTIFICATE, rule: "S.D.N.Y. Local Civ. R. 7.1(c)" }],
+    citationStyle: { style: "bluebook", rule: "The Bluebook" },
+    typography: { minFontPt: 12, serif: false, spacing: "double-spaced", rule: "S.D.N.Y. Local Civ. R. 11.1(b)" },
+  },
+  {
+    courtId: "nyappdiv",
+    name: "New York Supreme Court, Appellate Division",
+    abbreviation: "N.Y. App. Div.",
+    documentType: "Principal brief",
+    wordLimit: { words: 14_000, rule: "22 NYCRR 1250.8(f)(2)" },
+    requiredSections: [
+      { ...TOC, rule: "22 NYCRR 1250.8(a)(1)" },
+      { ...TOA, rule: "22 NYCRR 1250.8(a)(2)" },
+      { name: "Questions Presented", headings: ["QUESTIONS PRESENTED", "QUESTIONS INVOLVED", "QUESTION PRESENTED"], rule: "22 NYCRR 1250.8(a)(3)" },
+      { name: "Statement of Facts", headings: ["STATEMENT OF FACTS", "STATEMENT OF THE CASE"], rule: "22 NYCRR 1250.8(a)(4)" },
+      { name: "Argument", headings: ["ARGUMENT"], rule: "22 NYCRR 1250.8(a)(5)" },
+      { name: "Conclusion", headings: ["CONCLUSION"], rule: "22 NYCRR 1250.8(a)(5)" },
+      { name: "Printing Specifications Statement", headings: ["PRINTING SPECIFICATIONS STATEMENT"], rule: "22 NYCRR 1250.8(j)" },
+    ],
+    citationStyle: { style: "ny-official", rule: "New York Law Reports Style Manual" },
+    typography: { minFontPt: 14, serif: true, spacing: "double-spaced, one-inch margins", rule: "22 NYCRR 1250.8(f)(1)" },
+  },
+];
+
+const byCourt = new Map(COURT_PROFILES.map((profile) => [profile.courtId, profile]));
+
+/** Resolves a court id ("ca9") or abbreviation ("9th Cir.") to its profile, if one is defined. */
+export function findCourtProfile(value: string | undefined): CourtProfile | undefined {
+  const court = findCourt(value);
+  return court ? byCourt.get(court.id) : undefined;
+}
+
+export type CourtCheckStatus = "pass" | "fail" | "unverified";
+
+export interface CourtCheck {
+  requirement: string;
+  rule: string;
+  status: CourtCheckStatus;
+  detail: string;
+}
+
+// Result of checking a brief against its target court's profile
+export interface CourtCompliance {
+  courtId: string;
+  court: string;
+  documentType: string;
+  words: number;
+  pages: number;
+  // True when `pages` was estimated from the word count
+  pagesEstimated: boolean;
+  checks: CourtCheck[];
+}
+
+// Double-spaced 14-point text runs about this many words to the page
+const WORDS_PER_PAGE = 250;
+// Style findings beyond this are summarised by the citation style check only
+const MAX_STYLE_FINDINGS = 10;
+const MAX_HEADING_CHARS = 80;
+
+// Sections that do not count toward a word limit (Fed. R. App. P. 32(f) and its local equivalents)
+const EXCLUDED_SECTIONS = [
+  TOC,
+  TOA,
+  CERTIFICATE,
+  { name: "Corporate Disclosure Statement", headings: ["CORPORATE DISCLOSURE STATEMENT", "DISCLOSURE STATEMENT"] },
+  { name: "Certificate of Service", headings: ["CERTIFICATE OF SERVICE"] },
+  { name: "Printing Specifications Statement", headings: ["PRINTING SPECIFICATIONS STATEMENT"] },
+  { name: "Addendum", headings: ["ADDENDUM", "STATUTORY ADDENDUM"] },
+];
+
+const SANS_SERIF = /\b(Arial|Calibri|Helvetica|Verdana|Tahoma|Segoe UI|Aptos)\b/i;
+const TYPEFACE = /\b(Times New Roman|Century Schoolbook|Book Antiqua|Garamond|Georgia|Palatino(?: Linotype)?|Cambria|Arial|Calibri|Helvetica|Verdana|Tahoma|Segoe UI|Aptos|Courier New)\b/i;
+const POINT_SIZE = /\b(\d{1,2}(?:\.\d)?)[-\s]?(?:point|pt)\b/i;
+const STATED_WORDS = /\b(?:contains|consists of|comprises|has)\s+([\d,]{2,7})\s+words\b/i;
+// "1 NY3d 1", "95 AD3d 1234", "40 Misc 3d 12": official New York citations
+const NY_OFFICIAL_CITE = /\b\d{1,4}\s+(?:NY[23]d|NY|AD[23]d|AD|Misc\s?[23]d|Misc)\s+\d{1,5}\b/g;
+
+interface Heading {
+  name: string;
+  start: number;
+}
+
+// A table of contents entry: dot leaders ("ARGUMENT ........ 12") or a trailing page number
+const CONTENTS_ENTRY = /(?:\.\s?){3,}|…|\s\d+$/;
+
+// Short lines opening with a known heading, optionally numbered ("I. ARGUMENT"). Entries
+// in the table of contents name the same headings but are not the sections themselves.
+function findHeadings(text: string, sections: Array<Pick<SectionRule, "name" | "headings">>): Heading[] {
+  const headings: Heading[] = [];
+  const lines = text.matchAll(/^[^\n]*$/gm);
+  for (const match of Array.from(lines)) {
+    const line = match[0].trim();
+    if (!line || line.length > MAX_HEADING_CHARS || CONTENTS_ENTRY.test(line)) continue;
+    const bare = line.replace(/^(?:[IVXLC]+|\d+|[A-Z])[.)]\s+/, "").toUpperCase();
+    for (const section of sections) {
+      if (section.headings.some((heading) => bare === heading || (bare.startsWith(heading) && !/[a-z]/.test(line.slice(line.length - bare.length + heading.length))))) {
+        headings.push({ name: section.name, start: match.index! });
+        break;
+      }
+    }
+  }
+  return headings;
+}
+
+// Headings that end an excluded section, whichever court the brief is for
+const BOUNDARY_SECTIONS = [
+  ...COURT_PROFILES.flatMap((profile) => profile.requiredSections),
+  ...EXCLUDED_SECTIONS,
+  { name: "Body", headings: ["INTRODUCTION", "PRELIMINARY STATEMENT", "BACKGROUND", "LEGAL STANDARD", "DISCUSSION", "STATEMENT OF FACTS", "ARGUMENT"] },
+];
+
+// Where a brief states its own word count and typeface
+const STATEMENT_SECTIONS = new Set([CERTIFICATE.name, "Printing Specifications Statement"]);
+
+/**
+ * The first match of `pattern` inside the brief's certificate of compliance (or printing
+ * specifications statement), with its index in the whole text. Word counts and typefaces
+ * mentioned anywhere else, in the argument or a quoted rule, are not the brief's own.
+ */
+function matchInCertificate(text: string, pattern: RegExp): RegExpMatchArray | null {
+  const headings = findHeadings(text, BOUNDARY_SECTIONS).sort((a, b) => a.start - b.start);
+  for (let i = 0; i < headings.length; i++) {
+    if (!STATEMENT_SECTIONS.has(headings[i].name)) continue;
+    const start = headings[i].start;
+    const match = text.slice(start, headings[i + 1]?.start ?? text.length).match(pattern);
+    if (match) {
+      match.index! += start;
+      return match;
+    }
+  }
+  return null;
+}
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Offsets of the words counted the way the local rules count them: tables, certificates
+ * and the other excluded sections are left out when their headings can be found.
+ */
+function countedWords(text: string): number[] {
+  const headings = findHeadings(text, BOUNDARY_SECTIONS).sort((a, b) => a.start - b.start);
+  const excluded = new Set(EXCLUDED_SECTIONS.map((section) => section.name));
+  const spans = headings.flatMap((heading, i) => (excluded.has(heading.name) ? [{ start: heading.start, end: headings[i + 1]?.start ?? text.length }] : []));
+  return Array.from(text.matchAll(/\S+/g))
+    .map((match) => match.index!)
+    .filter((at) => !spans.some((span) => at >= span.start && at < span.end));
+}
+
+// The reporter cite and parenthetical rewritten in Official Reports style: "1 NY3d 1, 5 [2003]"
+function officialForm(citation: Citation): string {
+  const strip = (value: string) => value.replace(/[.'’]/g, "").replace(/\s+(?=\d)/g, " ").trim();
+  const reporter = strip(citation.reporter || citation.reporterText || "");
+  const court = citation.court && !/^U\.?S\.?$/.test(citation.court) && !/^N\.Y\./.test(citation.court) ? `${strip(citation.court)} ` : "";
+  return `${citation.volume} ${reporter} ${citation.page}${citation.pinpoint ? `, ${citation.pinpoint}` : ""}${citation.year ? ` [${court}${citation.year}]` : ""}`;
+}
+
+function citationStyleFindings(text: string, citations: Citation[], profile: CourtProfile): { issues: FormattingIssue[]; count: number } {
+  const issues: FormattingIssue[] = [];
+  let count = 0;
+  const { style, rule } = profile.citationStyle;
+
+  if (style === "ny-official") {
+    for (const citation of citations) {
+      if (citation.kind !== "full" || !citation.reporterText?.includes(".")) continue;
+      count++;
+      if (issues.length >= MAX_STYLE_FINDINGS) continue;
+      // The reporter cite through the closing parenthesis of the court/year parenthetical
+      const close = text.indexOf(")", citation.end);
+      const end = close >= 0 && close < citation.fullEnd + 1 && citation.year ? close + 1 : citation.end;
+      issues.push({
+        quote: text.slice(citation.start, end),
+        start: citation.start,
+        end,
+        citationId: citation.id,
+        source: "court-profile",
+        problem: `${profile.abbreviation} briefs follow the ${rule}: reporters take no periods and the court and year go in brackets.`,
+        recommendation: officialForm(citation),
+        replacesQuote: true,
+      });
+    }
+  } else {
+    for (const match of Array.from(text.matchAll(NY_OFFICIAL_CITE))) {
+      count++;
+      if (issues.length >= MAX_STYLE_FINDINGS) continue;
+      issues.push({
+        quote: match[0],
+        start: match.index!,
+        end: match.index! + match[0].length,
+        source: "court-profile",
+        problem: `${profile.abbreviation} briefs follow ${rule} form; this is a New York Official Reports citation.`,
+        recommendation: match[0]
+          .replace(/\bNY([23])d\b/, "N.Y.$1d")
+          .replace(/\bNY\b/, "N.Y.")
+          .replace(/\bAD([23])d\b/, "A.D.$1d")
+          .replace(/\bAD\b/, "A.D.")
+          .replace(/\bMisc\s?([23])d\b/, "Misc. $1d")
+          .replace(/\bMisc\b(?!\.)/, "Misc."),
+        replacesQuote: true,
+      });
+    }
+  }
+  return { issues, count };
+}
+
+/**
+ * Checks a brief against its target court's profile: length, required sections,
+ * citation style and the typeface its certificate of compliance states. Everything here
+ * is deterministic; requirements that cannot be read from plain text are reported as
+ * unverified rather than guessed.
+ */
+export function checkCourtRules(
+  text: string,
+  citations: Citation[],
+  pageSpans: PageSpan[] | null,
+  profile: CourtProfile
+): { compliance: CourtCompliance; formattingIssues: FormattingIssue[] } {
+  const checks: CourtCheck[] = [];
+  const formattingIssues: FormattingIssue[] = [];
+  const counted = countedWords(text);
+  const words = counted.length;
+  const pagesEstimated = !pageSpans?.length;
+  const pages = pageSpans?.length || Math.max(1, Math.ceil(countWords(text) / WORDS_PER_PAGE));
+  const pageText = `${pages}${pagesEstimated ? " (estimated)" : ""} pages`;
+
+  // 1. Length
+  const statedMatch = matchInCertificate(text, STATED_WORDS);
+  const stated = statedMatch ? parseInt(statedMatch[1].replace(/,/g, ""), 10) : null;
+  if (profile.wordLimit) {
+    const { words: limit, rule } = profile.wordLimit;
+    const over = words > limit || (stated !== null && stated > limit);
+    checks.push({
+      requirement: `At most ${limit.toLocaleString("en-US")} words`,
+      rule,
+      status: over ? "fail" : "pass",
+      detail:
+        `About ${words.toLocaleString("en-US")} words counted, excluding tables and certificates` +
+        (stated !== null ? `; the certificate states ${stated.toLocaleString("en-US")}` : "") +
+        ".",
+    });
+    if (stated !== null && stated > limit && statedMatch) {
+      formattingIssues.push({
+        quote: statedMatch[0],
+        start: statedMatch.index,
+        end: statedMatch.index! + statedMatch[0].length,
+        source: "court-profile",
+        problem: `The certificate states ${stated.toLocaleString("en-US")} words; ${rule} allows ${limit.toLocaleString("en-US")}.`,
+        recommendation: `Cut the brief to ${limit.toLocaleString("en-US")} words or move for leave to file an oversized brief.`,
+      });
+    } else if (words > limit) {
+      // No certificate says so; the finding points at the words where the limit runs out
+      const start = counted[limit];
+      const quote = text.slice(start).match(/^\S+(?:[ \t]+\S+){0,7}/)![0];
+      formattingIssues.push({
+        quote,
+        start,
+        end: start + quote.length,
+        source: "court-profile",
+        problem: `About ${words.toLocaleString("en-US")} words counted, excluding tables and certificates; ${rule} allows ${limit.toLocaleString("en-US")}. The limit runs out here.`,
+        recommendation: `Cut the brief to ${limit.toLocaleString("en-US")} words or move for leave to file an oversized brief.`,
+      });
+    }
+  }
+  if (profile.pageLimit) {
+    const { pages: limit, rule } = profile.pageLimit;
+    checks.push({
+      requirement: `At most ${limit} pages`,
+      rule,
+      status: pages > limit ? (pagesEstimated ? "unverified" : "fail") : "pass",
+      detail: `${pageText}.`,
+    });
+  }
+
+  // 2. Required sections
+  const found = new Set(findHeadings(text, profile.requiredSections).map((heading) => heading.name));
+  for (const section of profile.requiredSections) {
+    if (section.requiredOverPages !== undefined && pages <= section.requiredOverPages) {
+      checks.push({
+        requirement: section.name,
+        rule: section.rule,
+        status: "pass",
+        detail: `Required only over ${section.requiredOverPages} pages; this brief runs ${pageText}.`,
+      });
+      continue;
+    }
+    checks.push({
+      requirement: section.name,
+      rule: section.rule,
+      status: found.has(section.name) ? "pass" : "fail",
+      detail: found.has(section.name) ? "Heading found." : `No "${section.headings[0]}" heading found.`,
+    });
+  }
+
+  // 3. Citation style
+  const style = citationStyleFindings(text, citations, profile);
+  formattingIssues.push(...style.issues);
+  checks.push({
+    requirement: profile.citationStyle.style === "ny-official" ? "Official Reports citation style" : "Bluebook citation style",
+    rule: profile.citationStyle.rule,
+    status: style.count ? "fail" : "pass",
+    detail: style.count ? `${style.count} citation${style.count > 1 ? "s" : ""} in the wrong style.` : "No citations in the wrong style.",
+  });
+
+  // 4. Typography, as stated in the brief's own certificate
+  const { minFontPt, serif, spacing, rule } = profile.typography;
+  const size = matchInCertificate(text, POINT_SIZE);
+  const face = matchInCertificate(text, TYPEFACE);
+  const sizePt = size ? parseFloat(size[1]) : null;
+  const sansSerif = !!face && SANS_SERIF.test(face[1]);
+  checks.push({
+    requirement: `${minFontPt}-point ${serif ? "serif " : ""}typeface`,
+    rule,
+    status: sizePt === null ? "unverified" : sizePt < minFontPt || (serif && sansSerif) ? "fail" : "pass",
+    detail:
+      sizePt === null
+        ? "The certificate of compliance does not state the typeface; confirm it in the word processor."
+        : `The certificate states ${sizePt}-point${face ? ` ${face[1]}` : ""}.`,
+  });
+  if (size && sizePt !== null && sizePt < minFontPt) {
+    formattingIssues.push({
+      quote: size[0],
+      start: size.index,
+      end: size.index! + size[0].length,
+      source: "court-profile",
+      problem: `${profile.abbreviation} requires at least ${minFontPt}-point type (${rule}).`,
+      recommendation: `${minFontPt}-point`,
+    });
+  }
+  if (face && serif && sansSerif) {
+    formattingIssues.push({
+      quote: face[0],
+      start: face.index,
+      end: face.index! + face[0].length,
+      source: "court-profile",
+      problem: `${profile.abbreviation} requires a proportionally spaced serif typeface (${rule}).`,
+      recommendation: "Times New Roman",
+    });
+  }
+  checks.push({
+    requirement: `Spacing: ${spacing}`,
+    rule,
+    status: "unverified",
+    detail: "Line spacing and margins cannot be read from extracted text; confirm them in the word processor.",
+  });
+
+  return {
+    compliance: {
+      courtId: profile.courtId,
+      court: profile.name,
+      documentType: profile.documentType,
+      words,
+      pages,
+      pagesEstimated,
+      checks,
+    },
+    formattingIssues,
+  };
+}
@@ -0,0 +1,53 @@
+export interface Court {
+  // CourtListener court id, used as the stable key across datasets
+  id: string;
+  // Bluebook abbreviation as it appears in a citation parenthetical
+  abbreviation: string;
+  name: string;
+}
+
+export const COURTS: Court[] = [
+  { id: "scotus", abbreviation: "U.S.", name: "Supreme Court of the United States" },
+  { id: "ca1", abbreviation: "1st Cir.", name: "Court of Appeals for the First Circuit" },
+  { id: "ca2", abbreviation: "2d Cir.", name: "Court of Appeals for the Second Circuit" },
+  { id: "ca3", abbreviation: "3d Cir.", name: "Court of Appeals for the Third Circuit" },
+  { id: "ca4", abbreviation: "4th Cir.", name: "Court of Appeals for the Fourth Circuit" },
+  { id: "ca5", abbreviation: "5th Cir.", name: "Court of Appeals for the Fifth Circuit" },
+  { id: "ca6", abbreviation: "6th Cir.", name: "Court of Appeals for the Sixth Circuit" },
+  { id: "ca7", abbreviation: "7th Cir.", name: "Court of Appeals for the Seventh Circuit" },
+  { id: "ca8", abbreviation: "8th Cir.", name: "Court of Appeals for the Eighth Circuit" },
+  { id: "ca9", abbreviation: "9th Cir.", name: "Court of Appeals for the Ninth Circuit" },
+  { id: "ca10", abbreviation: "10th Cir.", name: "Court of Appeals for the Tenth Circuit" },
+  { id: "ca11", abbreviation: "11th Cir.", name: "Court of Appeals for the Eleventh Circuit" },
+  { id: "cadc", abbreviation: "D.C. Cir.", name: "Court of Appeals for the D.C. Circuit" },
+  { id: "cafc", abbreviation: "Fed. Cir.", name: "Court of Appeals for the Federal Circuit" },
+  { id: "cacd", abbreviation: "C.D. Cal.", name: "District Court, C.D. California" },
+  { id: "cand", abbreviation: "N.D. Cal.", name: "District Court, N.D. California" },
+  { id: "casd", abbreviation: "S.D. Cal.", name: "District Court, S.D. California" },
+  { id: "caed", abbreviation: "E.D. Cal.", name: "District Court, E.D. California" },
+  { id: "nysd", abbreviation: "S.D.N.Y.", name: "District Court, S.D. New York" },
+  { id: "nyed", abbreviation: "E.D.N.Y.", name: "District Court, E.D. New York" },
+  { id: "nynd", abbreviation: "N.D.N.Y.", name: "District Court, N.D. New York" },
+  { id: "nywd", abbreviation: "W.D.N.Y.", name: "District Court, W.D. New York" },
+  { id: "dcd", abbreviation: "D.D.C.", name: "District Court, District of Columbia" },
+  { id: "txsd", abbreviation: "S.D. Tex.", name: "District Court, S.D. Texas" },
+  { id: "ilnd", abbreviation: "N.D. Ill.", name: "District Court, N.D. Illinois" },
+  { id: "cal", abbreviation: "Cal.", name: "California Supreme Court" },
+  { id: "calctapp", abbreviation: "Cal. Ct. App.", name: "California Court of Appeal" },
+  { id: "ny", abbreviation: "N.Y.", name: "New York Court of Appeals" },
+  { id: "nyappdiv", abbreviation: "N.Y. App. Div.", name: "Appellate Division of the Supreme Court of New York" },
+];
+
+const compact = (value: string) => value.replace(/[\s.]/g, "").toLowerCase();
+
+const byAbbreviation = new Map(COURTS.map((court) => [compact(court.abbreviation), court]));
+const byId = new Map(COURTS.map((court) => [court.id, court]));
+
+/**
+ * Resolves either a citation parenthetical ("9th Cir.", "S.D.N.Y.") or a CourtListener
+ * court id ("ca9") to a known court.
+ */
+export function findCourt(value: string | undefined): Court | undefined {
+  if (!value) return undefined;
+  return byId.get(value.trim().toLowerCase()) || byAbbreviation.get(compact(value));
+}
@@ -0,0 +1,132 @@
+export type DiffOp = "equal" | "insert" | "delete";
+
+export interface DiffPart {
+  type: DiffOp;
+  text: string;
+}
+
+// Past this many edits the inputs share little; report the middle as replaced outright
+const MAX_EDITS = 4000;
+
+/**
+ * Myers' O(ND) shortest edit script over two token arrays, after trimming the common
+ * prefix and suffix. Returns one op per token.
+ */
+function diffTokens(a: string[], b: string[]): Array<{ type: DiffOp; token: string }> {
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) prefix++;
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) suffix++;
+
+  const head = a.slice(0, prefix).map((token) => ({ type: "equal" as const, token }));
+  const tail = a.slice(a.length - suffix).map((token) => ({ type: "equal" as const, token }));
+  const x = a.slice(prefix, a.length - suffix);
+  const y = b.slice(prefix, b.length - suffix);
+  const n = x.length;
+  const m = y.length;
+  const replaced = () => [
+    ...x.map((token) => ({ type: "delete" as const, token })),
+    ...y.map((token) => ({ type: "insert" as const, token })),
+  ];
+  if (n === 0 || m === 0) return [...head, ...replaced(), ...tail];
+
+  const offset = n + m;
+  const v = new Int32Array(2 * offset + 2);
+  const trace: Int32Array[] = [];
+  let found = false;
+  for (let d = 0; d <= Math.min(n + m, MAX_EDITS) && !found; d++) {
+    trace.push(v.slice());
+    for (let k = -d; k <= d; k += 2) {
+      let i = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1]) ? v[offset + k + 1] : v[offset + k - 1] + 1;
+      let j = i - k;
+      while (i < n && j < m && x[i] === y[j]) {
+        i++;
+        j++;
+      }
+      v[offset + k] = i;
+      if (i >= n && j >= m) {
+        found = true;
+        break;
+      }
+    }
+  }
+  if (!found) return [...head, ...replaced(), ...tail];
+
+  // Walk the trace backwards to recover the edit script
+  const ops: Array<{ type: DiffOp; token: string }> = [];
+  let i = n;
+  let j = m;
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const previous = trace[d];
+    const k = i - j;
+    const prevK = k === -d || (k !== d && previous[offset + k - 1] < previous[offset + k + 1]) ? k + 1 : k - 1;
+    const prevI = previous[offset + prevK];
+    const prevJ = prevI - prevK;
+    while (i > prevI && j > prevJ) {
+      ops.push({ type: "equal", token: x[i - 1] });
+      i--;
+      j--;
+    }
+    if (d > 0) {
+      if (i === prevI) ops.push({ type: "insert", token: y[--j] });
+      else ops.push({ type: "delete", token: x[--i] });
+    }
+  }
+  return [...head, ...ops.reverse(), ...tail];
+}
+
+function merge(ops: Array<{ type: DiffOp; token: string }>): DiffPart[] {
+  const parts: DiffPart[] = [];
+  for (const { type, token } of ops) {
+    const last = parts[parts.length - 1];
+    if (last && last.type === type) last.text += token;
+    else parts.push({ type, text: token });
+  }
+  return parts;
+}
+
+/**
+ * Makes word diffs readable: whitespace left "equal" between two changes is folded into
+ * them, and each run of changes becomes a single deletion followed by a single insertion.
+ */
+function consolidate(parts: DiffPart[]): DiffPart[] {
+  const result: DiffPart[] = [];
+  let deleted = "";
+  let inserted = "";
+  const flush = () => {
+    if (deleted) result.push({ type: "delete", text: deleted });
+    if (inserted) result.push({ type: "insert", text: inserted });
+    deleted = inserted = "";
+  };
+
+  parts.forEach((part, index) => {
+    const between = index > 0 && index < parts.length - 1 && parts[index + 1].type !== "equal" && (deleted || inserted);
+    if (part.type === "equal" && !(between && !part.text.trim())) {
+      flush();
+      result.push(part);
+    } else if (part.type === "equal") {
+      deleted += part.text;
+      inserted += part.text;
+    } else if (part.type === "delete") {
+      deleted += part.text;
+    } else {
+      inserted += part.text;
+    }
+  });
+  flush();
+  return result;
+}
+
+// Words, runs of whitespace and single punctuation marks
+const WORD_TOKENS = /\s+|[A-Za-z0-9À-ÿ'’]+|[^\sA-Za-z0-9À-ÿ'’]/g;
+
+/** Word-level diff of two passages. Joining the equal and insert parts gives `after`. */
+export function diffWords(before: string, after: string): DiffPart[] {
+  return consolidate(merge(diffTokens(before.match(WORD_TOKENS) || [], after.match(WORD_TOKENS) || [])));
+}
+
+/** Line-level diff of two documents; each part's text keeps its line breaks. */
+export function diffLines(before: string, after: string): DiffPart[] {
+  const lines = (text: string) => text.match(/[^\n]*\n|[^\n]+$/g) || [];
+  return merge(diffTokens(lines(before), lines(after)));
+}
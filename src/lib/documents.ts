@@ -0,0 +1,56 @@
+// Page boundaries of extracted text: characters in [start, end) came from `page` (1-based)
+export interface PageSpan {
+  page: number;
+  start: number;
+  end: number;
+}
+
+export type DocumentFormat = "txt" | "docx" | "pdf" | "doc";
+
+export interface ExtractedDocument {
+  text: string;
+  format: DocumentFormat;
+  // null when the format carries no page information
+  pages: PageSpan[] | null;
+  // Header and footer lines removed from the page text, for display only
+  strippedLines: string[];
+}
+
+/** Finds the page a character offset falls on, or null when it is out of range or pages are unknown. */
+export function pageAt(pages: PageSpan[] | null | undefined, offset: number | undefined): number | null {
+  if (!pages || offset === undefined || offset < 0) return null;
+
+  let low = 0;
+  let high = pages.length - 1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (offset < pages[mid].start) high = mid - 1;
+    else if (offset >= pages[mid].end) low = mid + 1;
+    else return pages[mid].page;
+  }
+  return null;
+}
+
+/** "p. 12" or "pp. 12-13" for a span, or an empty string when its page is unknown. */
+export function pageLabel(pages: PageSpan[] | null | undefined, span: { start?: number; end?: number }): string {
+  const first = pageAt(pages, span.start);
+  if (first === null) return "";
+  const last = span.end !== undefined && span.end > (span.start ?? 0) ? pageAt(pages, span.end - 1) : first;
+  return last !== null && last !== first ? `pp. ${first}-${last}` : `p. ${first}`;
+}
+
+/** Checks that page spans are ordered, non-overlapping and lie within a text of `length` characters. */
+export function validPageSpans(value: unknown, length: number): value is PageSpan[] {
+  if (!Array.isArray(value)) return false;
+  let previousEnd = 0;
+  for (const span of value) {
+    if (!span || typeof span !== "object") return false;
+    const { page, start, end } = span as Record<string, unknown>;
+    if (![page, start, end].every((n) => typeof n === "number" && Number.isInteger(n))) return false;
+    if ((page as number) < 1 || (start as number) < previousEnd || (end as number) < (start as number) || (end as number) > length) {
+      return false;
+    }
+    previousEnd = end as number;
+  }
+  return true;
+}
@@ -0,0 +1,258 @@
+import {
+  AlignmentType,
+  CommentRangeEnd,
+  CommentRangeStart,
+  CommentReference,
+  DeletedTextRun,
+  Document,
+  InsertedTextRun,
+  LeaderType,
+  Packer,
+  Paragraph,
+  Tab,
+  TabStopType,
+  TextRun,
+  type ICommentOptions,
+  type ParagraphChild,
+} from "docx";
+import { AUTHORITY_HEADINGS, AUTHORITY_KINDS, formatTablePages, type TableOfAuthorities } from "./authorities";
+import { anchorMemo, CATEGORY_FIELDS, TENTATIVE_CONFIDENCE, type HighlightCategory } from "./anchoring";
+import { diffWords, type DiffOp } from "./diff";
+import { pageLabel } from "./documents";
+import type { CriticalIssue, FormattingIssue, HallucinationSignal, QuotationIssue, SharedReview } from "./types";
+
+export const REVIEW_AUTHOR = "Kord Review";
+const REVIEW_INITIALS = "KR";
+
+const CATEGORY_LABELS: Record<HighlightCategory, string> = {
+  hallucination: "Hallucination signal",
+  critical: "Critical issue",
+  quotation: "Quotation issue",
+  formatting: "Formatting issue",
+};
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Blank lines separate paragraphs; single line breaks inside one are kept as breaks
+function paragraphSpans(text: string): Span[] {
+  const spans: Span[] = [];
+  let start = 0;
+  for (const match of Array.from(text.matchAll(/\n[ \t]*\n\s*/g))) {
+    if (match.index! > start) spans.push({ start, end: match.index! });
+    start = match.index! + match[0].length;
+  }
+  if (start < text.length || !spans.length) spans.push({ start, end: text.length });
+  return spans;
+}
+
+function textRuns(text: string): TextRun[] {
+  return text.split("\n").map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined }));
+}
+
+// The brief as a Word file: US Letter, one-inch margins, 12pt Times
+function reviewDocument(review: SharedReview, children: Paragraph[], comments: ICommentOptions[] = []): Promise<Buffer> {
+  const doc = new Document({
+    creator: REVIEW_AUTHOR,
+    title: review.fileName || "Reviewed brief",
+    styles: { default: { document: { run: { font: "Times New Roman", size: 24 } } } },
+    comments: { children: comments },
+    sections: [{ properties: { page: { size: { width: 12240, height: 15840 } } }, children }],
+  });
+  return Packer.toBuffer(doc);
+}
+
+function commentBody(category: HighlightCategory, issue: HallucinationSignal | CriticalIssue | QuotationIssue | FormattingIssue): string[] {
+  if (category === "hallucination") {
+    const signal = issue as HallucinationSignal;
+    return [signal.pattern, signal.risk && `Risk: ${signal.risk}`];
+  }
+  if (category === "critical") {
+    const critical = issue as CriticalIssue;
+    const passage = critical.support?.passages[0];
+    return [
+      critical.problem,
+      critical.missingAuthority && `Missing authority: ${critical.missingAuthority}`,
+      passage ? `The opinion reads${passage.page ? ` (at ${passage.page})` : ""}: “${passage.text}”` : "",
+    ];
+  }
+  if (category === "quotation") {
+    const quotation = issue as QuotationIssue;
+    return [quotation.problem, quotation.recommendation && `The opinion reads: “${quotation.recommendation}”`];
+  }
+  const formatting = issue as FormattingIssue;
+  return [formatting.problem, formatting.recommendation && `Recommendation: ${formatting.recommendation}`];
+}
+
+/**
+ * Writes the reviewed brief back out as a Word document with one margin comment per
+ * finding, spanning the flagged text. Findings that could not be located in the brief
+ * are attached to its first paragraph so none are lost.
+ */
+export async function buildReviewDocx(review: SharedReview): Promise<Buffer> {
+  const { document: text, memo } = review;
+  const { marks, unanchored } = anchorMemo(text, memo);
+  const paragraphs = paragraphSpans(text);
+  const date = new Date(review.createdAt);
+
+  const comments: ICommentOptions[] = [];
+  // Comment boundaries per paragraph, as offsets into the document
+  const boundaries = paragraphs.map(() => [] as Array<{ at: number; id: number; kind: "start" | "end" }>);
+
+  const addComment = (category: HighlightCategory, index: number, span: Span, note?: string) => {
+    const startParagraph = paragraphs.findIndex((paragraph) => paragraph.end > span.start);
+    let endParagraph = paragraphs.length - 1;
+    while (endParagraph > 0 && paragraphs[endParagraph].start >= span.end) endParagraph--;
+    if (startParagraph < 0 || startParagraph > endParagraph) return;
+
+    const start = Math.max(span.start, paragraphs[startParagraph].start);
+    const end = Math.min(span.end, paragraphs[endParagraph].end);
+    if (startParagraph === endParagraph && start >= end) return;
+    const issue = memo[CATEGORY_FIELDS[category]][index];
+    const page = memo.pages ? pageLabel(memo.pages, { start, end }) : "";
+    const id = comments.length;
+
+    comments.push({
+      id,
+      author: REVIEW_AUTHOR,
+      initials: REVIEW_INITIALS,
+      date,
+      children: [
+        new Paragraph({ children: [new TextRun({ text: page ? `${CATEGORY_LABELS[category]} (${page})` : CATEGORY_LABELS[category], bold: true })] }),
+        ...[...commentBody(category, issue), note]
+          .filter((line): line is string => !!line)
+          .map((line) => new Paragraph(line)),
+      ],
+    });
+    boundaries[startParagraph].push({ at: start, id, kind: "start" });
+    boundaries[endParagraph].push({ at: end, id, kind: "end" });
+  };
+
+  for (const mark of marks) {
+    const note =
+      mark.confidence < TENTATIVE_CONFIDENCE
+        ? `Approximate match (${Math.round(mark.confidence * 100)}% confidence) for the quoted text.`
+        : undefined;
+    addComment(mark.category, mark.index, mark, note);
+  }
+  for (const issue of unanchored) {
+    addComment(issue.category, issue.index, paragraphs[0], `Not located in the brief. Quoted as: "${issue.quote}"`);
+  }
+
+  const children = paragraphs.map((paragraph, i) => {
+    // Ends sort before starts at the same offset so adjacent comments do not nest
+    const points = boundaries[i].sort((a, b) => a.at - b.at || (a.kind === b.kind ? a.id - b.id : a.kind === "end" ? -1 : 1));
+    const runs: ParagraphChild[] = [];
+    let cursor = paragraph.start;
+    for (const point of points) {
+      if (point.at > cursor) runs.push(...textRuns(text.slice(cursor, point.at)));
+      cursor = Math.max(cursor, point.at);
+      if (point.kind === "start") {
+        runs.push(new CommentRangeStart(point.id));
+      } else {
+        runs.push(new CommentRangeEnd(point.id), new TextRun({ children: [new CommentReference(point.id)] }));
+      }
+    }
+    if (cursor < paragraph.end) runs.push(...textRuns(text.slice(cursor, paragraph.end)));
+    return new Paragraph({ children: runs, spacing: { after: 240 } });
+  });
+
+  return reviewDocument(review, children, comments);
+}
+
+/**
+ * Writes the brief out with every accepted fix applied as a Word tracked change by
+ * "Kord Review", word by word, so the drafting attorney can accept or reject each edit.
+ */
+export async function buildTrackedChangesDocx(review: SharedReview): Promise<Buffer> {
+  const text = review.document;
+  const paragraphs = paragraphSpans(text);
+
+  // The document as a run of pieces; equal and deleted text consume [at, at + length)
+  const pieces: Array<{ type: DiffOp; text: string; at: number; date: string }> = [];
+  let cursor = 0;
+  for (const fix of [...(review.acceptedFixes || [])].sort((a, b) => a.start - b.start)) {
+    if (fix.start < cursor || text.slice(fix.start, fix.end) !== fix.original) continue;
+    if (fix.start > cursor) pieces.push({ type: "equal", text: text.slice(cursor, fix.start), at: cursor, date: fix.acceptedAt });
+    let at = fix.start;
+    for (const part of diffWords(fix.original, fix.replacement)) {
+      pieces.push({ ...part, at, date: fix.acceptedAt });
+      if (part.type !== "insert") at += part.text.length;
+    }
+    cursor = fix.end;
+  }
+  if (cursor < text.length) pieces.push({ type: "equal", text: text.slice(cursor), at: cursor, date: "" });
+
+  let changeId = 1;
+  let first = 0;
+  const children = paragraphs.map((paragraph, i) => {
+    const next = paragraphs[i + 1];
+    const runs: ParagraphChild[] = [];
+    const limit = next ? next.start : text.length + 1;
+    // Skip pieces wholly before this paragraph; insertions at its start still belong to it
+    while (
+      first < pieces.length &&
+      (pieces[first].type === "insert" ? pieces[first].at < paragraph.start : pieces[first].at + pieces[first].text.length <= paragraph.start)
+    ) {
+      first++;
+    }
+
+    for (let p = first; p < pieces.length && pieces[p].at < limit; p++) {
+      const piece = pieces[p];
+      const change = { id: changeId, author: REVIEW_AUTHOR, date: piece.date };
+      if (piece.type === "insert") {
+        // Insertions between paragraphs belong to the paragraph before them
+        if (piece.at < paragraph.start) continue;
+        piece.text.split("\n").forEach((line, l) => runs.push(new InsertedTextRun({ ...change, id: changeId++, text: line, break: l ? 1 : undefined })));
+        continue;
+      }
+      const from = Math.max(piece.at, paragraph.start);
+      const to = Math.min(piece.at + piece.text.length, paragraph.end);
+      if (from >= to) continue;
+      const slice = text.slice(from, to);
+      if (piece.type === "equal") runs.push(...textRuns(slice));
+      else slice.split("\n").forEach((line, l) => runs.push(new DeletedTextRun({ ...change, id: changeId++, text: line, break: l ? 1 : undefined })));
+    }
+    return new Paragraph({ children: runs, spacing: { after: 240 } });
+  });
+
+  return reviewDocument(review, children);
+}
+
+// The right margin of a Letter page with one-inch margins, in twips
+const TEXT_WIDTH = 9360;
+
+/**
+ * The generated Table of Authorities as a Word file ready to paste into the brief: one
+ * group per kind of authority, each entry hanging-indented with a dot leader to its pages.
+ */
+export async function buildTableOfAuthoritiesDocx(review: SharedReview, table: TableOfAuthorities): Promise<Buffer> {
+  const children = [
+    new Paragraph({ alignment: AlignmentType.CENTER, spacing: { after: 240 }, children: [new TextRun({ text: "TABLE OF AUTHORITIES", bold: true })] }),
+  ];
+  for (const kind of AUTHORITY_KINDS) {
+    const entries = table.entries.filter((entry) => entry.kind === kind);
+    if (!entries.length) continue;
+    children.push(
+      new Paragraph({
+        spacing: { before: 240, after: 240 },
+        tabStops: [{ type: TabStopType.RIGHT, position: TEXT_WIDTH }],
+        children: [new TextRun({ text: AUTHORITY_HEADINGS[kind], bold: true }), new TextRun({ children: [new Tab(), "Page(s)"], bold: true })],
+      })
+    );
+    for (const entry of entries) {
+      const pages = formatTablePages(entry, table.pageOffset);
+      children.push(
+        new Paragraph({
+          indent: { left: 360, hanging: 360, right: 1080 },
+          spacing: { after: 240 },
+          tabStops: [{ type: TabStopType.RIGHT, position: TEXT_WIDTH, leader: LeaderType.DOT }],
+          children: [new TextRun(entry.heading), new TextRun({ children: [new Tab(), pages] })],
+        })
+      );
+    }
+  }
+  return reviewDocument(review, children);
+}
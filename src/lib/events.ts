@@ -0,0 +1,69 @@
+import type { ApiErrorResponse, CriticalIssue, FormattingIssue, HallucinationSignal, LegalReviewMemo, QuotationIssue } from "./types";
+
+export type InvestigationStage = "extraction" | "citations" | "verification" | "treatment" | "statutes" | "quotations" | "support" | "formatting" | "court" | "authorities" | "review" | "scoring";
+
+export type StageStatus = "started" | "completed" | "skipped" | "failed";
+
+export interface FindingBatch {
+  criticalIssues?: CriticalIssue[];
+  hallucinationSignals?: HallucinationSignal[];
+  quotationIssues?: QuotationIssue[];
+  formattingIssues?: FormattingIssue[];
+}
+
+// Events streamed by POST /api/investigate when the client asks for text/event-stream
+export type InvestigationEvent =
+  | { type: "stage"; stage: InvestigationStage; status: StageStatus; message: string }
+  | {
+      type: "section";
+      index: number;
+      total: number;
+      status: "started" | "retrying" | "completed" | "failed";
+      message: string;
+    }
+  | { type: "findings"; stage: InvestigationStage; findings: FindingBatch }
+  | { type: "complete"; memo: LegalReviewMemo }
+  | ({ type: "error" } & ApiErrorResponse);
+
+export const encodeEvent = (event: InvestigationEvent) => `data: ${JSON.stringify(event)}\n\n`;
+
+/**
+ * Reads an investigation event stream, calling `onEvent` for each event as it arrives.
+ * Resolves with the final memo, or rejects with the streamed error.
+ */
+export async function readInvestigationStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: InvestigationEvent) => void
+): Promise<LegalReviewMemo> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (value) buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      const frame = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      const data = frame
+        .split("\n")
+        .filter((line) => line.startsWith("data:"))
+        .map((line) => line.slice(5).trimStart())
+        .join("\n");
+      if (!data) continue;
+
+      const event = JSON.parse(data) as InvestigationEvent;
+      onEvent(event);
+      if (event.type === "complete") return event.memo;
+      if (event.type === "error") {
+        throw new Error(
+          event.validationErrors ? `${event.error}: ${event.validationErrors.slice(0, 3).join("; ")}` : event.error
+        );
+      }
+    }
+
+    if (done) throw new Error("Investigation stream ended before the review completed");
+  }
+}
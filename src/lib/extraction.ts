@@ -0,0 +1,217 @@
+import mammoth from "mammoth";
+import path from "path";
+import type { TextItem } from "pdfjs-dist/types/src/display/api";
+import WordExtractor from "word-extractor";
+import type { DocumentFormat, ExtractedDocument, PageSpan } from "./documents";
+
+// An upload that could not be turned into text; `status` is the HTTP status to surface
+export class ExtractionError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "ExtractionError";
+  }
+}
+
+// Roughly 500 pages; larger uploads are not briefs
+export const MAX_UPLOAD_BYTES = 25 * 1024 * 1024;
+
+const PAGE_SEPARATOR = "\n\n";
+
+// Metrics for the 14 standard PDF fonts, which briefs rarely embed
+const STANDARD_FONTS_DIR = path.join(process.cwd(), "node_modules", "pdfjs-dist", "standard_fonts") + path.sep;
+
+// Lines this close to the top or bottom of a page are header/footer candidates
+const EDGE_LINES = 3;
+
+const MIME_FORMATS: Record<string, DocumentFormat> = {
+  "text/plain": "txt",
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.document": "docx",
+  "application/pdf": "pdf",
+  "application/msword": "doc",
+};
+
+/** Works out the format from the MIME type, falling back to the file extension. */
+export function detectFormat(fileName: string, mimeType = ""): DocumentFormat | null {
+  if (MIME_FORMATS[mimeType]) return MIME_FORMATS[mimeType];
+  const extension = fileName.toLowerCase().match(/\.(txt|docx|pdf|doc)$/);
+  return extension ? (extension[1] as DocumentFormat) : null;
+}
+
+/**
+ * Joins page texts into one string and records where each page landed. The separator
+ * after a page belongs to that page, so every character has a page number.
+ */
+export function joinPages(pageTexts: string[]): { text: string; pages: PageSpan[] } {
+  const pages: PageSpan[] = [];
+  let text = "";
+  pageTexts.forEach((pageText, i) => {
+    const start = text.length;
+    text += pageText;
+    if (i < pageTexts.length - 1) text += PAGE_SEPARATOR;
+    pages.push({ page: i + 1, start, end: text.length });
+  });
+  return { text, pages };
+}
+
+const normalizeLine = (line: string) => line.toLowerCase().replace(/\d+/g, "#").replace(/\s+/g, " ").trim();
+
+// "12", "- 12 -", "Page 12", "Page 12 of 30", "xii"
+const PAGE_NUMBER_LINE = /^(?:page\s+)?[-–—]?\s*(?:\d{1,4}|[ivx]{1,6})\s*[-–—]?(?:\s+of\s+\d{1,4})?$/i;
+
+/**
+ * Removes running headers and footers: lines at the top or bottom of a page that repeat
+ * (ignoring page numbers) on at least half the pages, plus bare page numbers. Only edge
+ * lines are touched, so body text that happens to match a header is kept.
+ */
+export function stripRunningHeaders(pages: string[][]): { pages: string[][]; stripped: string[] } {
+  const threshold = Math.max(2, Math.ceil(pages.length / 2));
+  const topCounts = new Map<string, number>();
+  const bottomCounts = new Map<string, number>();
+
+  for (const lines of pages) {
+    new Set(lines.slice(0, EDGE_LINES).map(normalizeLine)).forEach((key) => topCounts.set(key, (topCounts.get(key) || 0) + 1));
+    new Set(lines.slice(-EDGE_LINES).map(normalizeLine)).forEach((key) => bottomCounts.set(key, (bottomCounts.get(key) || 0) + 1));
+  }
+
+  const stripped = new Set<string>();
+  const isRunning = (line: string, counts: Map<string, number>) =>
+    PAGE_NUMBER_LINE.test(line.trim()) || (counts.get(normalizeLine(line)) || 0) >= threshold;
+
+  const result = pages.map((lines) => {
+    let start = 0;
+    let end = lines.length;
+    while (start < Math.min(EDGE_LINES, end) && isRunning(lines[start], topCounts)) stripped.add(lines[start++].trim());
+    while (end > start && lines.length - end < EDGE_LINES && isRunning(lines[end - 1], bottomCounts)) stripped.add(lines[--end].trim());
+    return lines.slice(start, end);
+  });
+
+  return { pages: result, stripped: Array.from(stripped) };
+}
+
+// Rejoins words hyphenated across a line break ("argu-\nment")
+const dehyphenate = (text: string) => text.replace(/([a-z])-\n([a-z])/g, "$1$2");
+
+/**
+ * Rebuilds the lines of a page from positioned text runs. A vertical gap well beyond the
+ * usual line spacing is treated as a paragraph break.
+ */
+function pageLines(items: TextItem[]): string[] {
+  const lines: { text: string; y: number }[] = [];
+  let current: { text: string; y: number; right: number } | null = null;
+
+  for (const item of items) {
+    const x = item.transform[4];
+    const y = item.transform[5];
+    if (current && Math.abs(current.y - y) > Math.max(2, item.height / 2)) {
+      lines.push(current);
+      current = null;
+    }
+    if (!current) {
+      current = { text: item.str, y, right: x + item.width };
+    } else {
+      const gap = x - current.right;
+      const needsSpace = gap > item.height * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(item.str);
+      current.text += (needsSpace ? " " : "") + item.str;
+      current.right = x + item.width;
+    }
+    if (item.hasEOL) {
+      lines.push(current);
+      current = null;
+    }
+  }
+  if (current) lines.push(current);
+
+  const visible = lines.filter((line) => line.text.trim());
+  const gaps = visible.slice(1).map((line, i) => Math.abs(visible[i].y - line.y)).sort((a, b) => a - b);
+  const spacing = gaps.length ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+  return visible.map((line, i) => {
+    const breakBefore = i > 0 && spacing > 0 && Math.abs(visible[i - 1].y - line.y) > spacing * 1.6;
+    return (breakBefore ? "\n" : "") + line.text.replace(/\s+/g, " ").trim();
+  });
+}
+
+async function extractPdf(data: Uint8Array): Promise<ExtractedDocument> {
+  const pdfjs = await import("pdfjs-dist/legacy/build/pdf.mjs");
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({
+      data,
+      isEvalSupported: false,
+      disableFontFace: true,
+      useSystemFonts: false,
+      standardFontDataUrl: STANDARD_FONTS_DIR,
+    }).promise;
+  } catch (error) {
+    throw new ExtractionError(`Unable to read PDF: ${(error as Error).message}`, 422);
+  }
+
+  const rawPages: string[][] = [];
+  for (let number = 1; number <= pdf.numPages; number++) {
+    const page = await pdf.getPage(number);
+    const content = await page.getTextContent();
+    rawPages.push(pageLines(content.items.filter((item): item is TextItem => "str" in item)));
+    page.cleanup();
+  }
+  await pdf.destroy();
+
+  const { pages, stripped } = stripRunningHeaders(rawPages);
+  const pageTexts = pages.map((lines) => dehyphenate(lines.join("\n")).trim());
+  if (!pageTexts.some(Boolean)) {
+    throw new ExtractionError("This PDF has no text layer. Scanned documents need OCR before review.", 422);
+  }
+
+  return { format: "pdf", ...joinPages(pageTexts), strippedLines: stripped };
+}
+
+async function extractDoc(buffer: Buffer): Promise<ExtractedDocument> {
+  try {
+    const document = await new WordExtractor().extract(buffer);
+    // Word 97-2003 files store no page layout, so there are no page numbers to keep
+    return { format: "doc", text: document.getBody().trim(), pages: null, strippedLines: [] };
+  } catch (error) {
+    throw new ExtractionError(`Unable to read Word document: ${(error as Error).message}`, 422);
+  }
+}
+
+/**
+ * Extracts review text from an uploaded brief. PDFs keep their page boundaries with
+ * running headers and footers removed; plain text keeps form-feed page breaks.
+ */
+export async function extractDocument(buffer: Buffer, fileName: string, mimeType = ""): Promise<ExtractedDocument> {
+  const format = detectFormat(fileName, mimeType);
+  if (!format) {
+    throw new ExtractionError("Unsupported file format. Please upload a .txt, .doc, .docx or .pdf file.", 415);
+  }
+  if (buffer.length > MAX_UPLOAD_BYTES) {
+    throw new ExtractionError(`File exceeds ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+
+  let document: ExtractedDocument;
+  switch (format) {
+    case "pdf":
+      document = await extractPdf(new Uint8Array(buffer));
+      break;
+    case "doc":
+      document = await extractDoc(buffer);
+      break;
+    case "docx":
+      try {
+        const result = await mammoth.extractRawText({ buffer });
+        document = { format, text: result.value.trim(), pages: null, strippedLines: [] };
+      } catch {
+        throw new ExtractionError("Unable to extract text from this document.", 422);
+      }
+      break;
+    case "txt": {
+      const text = buffer.toString("utf8");
+      document = text.includes("\f")
+        ? { format, ...joinPages(text.split("\f").map((page) => page.trim())), strippedLines: [] }
+        : { format, text, pages: null, strippedLines: [] };
+      break;
+    }
+  }
+
+  if (!document.text.trim()) throw new ExtractionError("No text could be extracted from this document.", 422);
+  return document;
+}
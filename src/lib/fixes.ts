@@ -0,0 +1,117 @@
+import { anchorMemo, CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, type HighlightCategory } from "./anchoring";
+import type { AcceptFixRequest, AcceptedFix, FixSource, FormattingIssue, QuotationIssue, StoredReview } from "./types";
+
+const FIX_SOURCES: FixSource[] = ["recommendation", "rewrite"];
+// Findings whose recommendation is replacement text for the flagged quote
+const RECOMMENDATION_CATEGORIES: HighlightCategory[] = ["formatting", "quotation"];
+const MAX_REPLACEMENT_CHARS = 20_000;
+
+// A fix that cannot be accepted; `status` is the HTTP status to surface
+export class FixError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "FixError";
+  }
+}
+
+/**
+ * Whether a finding's recommendation can be accepted as a fix: a misquotation's opinion
+ * text, or a formatting recommendation flagged as replacement text. Advice ("cut the brief
+ * to 14,000 words") and bare values ("14-point") would be pasted over the quote verbatim.
+ */
+export function acceptsRecommendation(
+  category: HighlightCategory,
+  issue: Pick<FormattingIssue, "recommendation" | "replacesQuote"> | undefined
+): boolean {
+  if (!issue?.recommendation?.trim()) return false;
+  return category === "quotation" || (category === "formatting" && issue.replacesQuote === true);
+}
+
+/**
+ * Checks the body of POST /api/reviews/[id]/fixes. Returns the typed request, or an
+ * error message suitable for a 400 response.
+ */
+export function parseAcceptFixRequest(body: unknown): AcceptFixRequest | string {
+  if (!body || typeof body !== "object") return "Request body must be a JSON object";
+  const { category, index, source, start, end, replacement } = body as Record<string, unknown>;
+
+  if (!HIGHLIGHT_CATEGORIES.includes(category as HighlightCategory)) {
+    return `category must be one of ${HIGHLIGHT_CATEGORIES.join(", ")}`;
+  }
+  if (typeof index !== "number" || !Number.isInteger(index) || index < 0) return "index must be a non-negative integer";
+  if (!FIX_SOURCES.includes(source as FixSource)) return `source must be one of ${FIX_SOURCES.join(", ")}`;
+  if (source === "recommendation" && !RECOMMENDATION_CATEGORIES.includes(category as HighlightCategory)) {
+    return "Only formatting and quotation findings carry a recommendation to accept";
+  }
+
+  if (source === "rewrite") {
+    if (typeof start !== "number" || typeof end !== "number" || !Number.isInteger(start) || !Number.isInteger(end) || start < 0 || end <= start) {
+      return "start and end must be integer offsets with start < end";
+    }
+    if (typeof replacement !== "string" || replacement.length > MAX_REPLACEMENT_CHARS) {
+      return `replacement must be a string of at most ${MAX_REPLACEMENT_CHARS.toLocaleString()} characters`;
+    }
+  }
+
+  return {
+    category: category as HighlightCategory,
+    index,
+    source: source as FixSource,
+    start: start as number | undefined,
+    end: end as number | undefined,
+    replacement: replacement as string | undefined,
+  };
+}
+
+/**
+ * Turns an accepted recommendation or rewrite into an edit of the stored document.
+ * Recommendations replace the flagged quote (for a misquotation, with the opinion's words); rewrites replace the span they were drafted for.
+ */
+export function resolveFix(review: StoredReview, request: AcceptFixRequest): AcceptedFix {
+  const key = `${request.category}-${request.index}`;
+  const issue = review.memo[CATEGORY_FIELDS[request.category]][request.index];
+  if (!issue) throw new FixError("Issue not found in this review", 404);
+
+  let start: number;
+  let end: number;
+  let replacement: string;
+  if (request.source === "recommendation") {
+    const mark = anchorMemo(review.document, review.memo).marks.find((candidate) => candidate.key === key);
+    if (!mark) throw new FixError("The flagged text could not be located in the document", 422);
+    if (!acceptsRecommendation(request.category, issue as FormattingIssue | QuotationIssue)) {
+      throw new FixError("This finding's recommendation is advice, not replacement text", 422);
+    }
+    replacement = (issue as FormattingIssue | QuotationIssue).recommendation.trim();
+    ({ start, end } = mark);
+  } else {
+    if (request.end! > review.document.length) throw new FixError("The fix lies outside the document", 400);
+    start = request.start!;
+    end = request.end!;
+    replacement = request.replacement!;
+  }
+
+  const original = review.document.slice(start, end);
+  if (original === replacement) throw new FixError("The fix does not change the text", 422);
+
+  // Another finding's fix over the same text would leave Word with conflicting edits
+  const clash = (review.acceptedFixes || []).find((fix) => fix.key !== key && fix.start < end && fix.end > start);
+  if (clash) throw new FixError(`This fix overlaps the accepted fix for ${clash.key}; undo that one first`, 409);
+
+  return {
+    key,
+    category: request.category,
+    index: request.index,
+    source: request.source,
+    start,
+    end,
+    original,
+    replacement,
+    acceptedAt: new Date().toISOString(),
+  };
+}
+
+/** The review with `fix` accepted, replacing any earlier fix for the same finding. */
+export function withFix(review: StoredReview, fix: AcceptedFix): StoredReview {
+  const fixes = (review.acceptedFixes || []).filter((existing) => existing.key !== fix.key);
+  return { ...review, acceptedFixes: [...fixes, fix].sort((a, b) => a.start - b.start) };
+}
@@ -0,0 +1,359 @@
+import { buildTableOfAuthorities, tableFindings } from "./authorities";
+import { lintCitations } from "./bluebook";
+import { verifyCitations } from "./case-index";
+import { checkCourtRules, findCourtProfile } from "./court-profiles";
+import { chunkDocument, DEFAULT_CHUNK_CHARS, type DocumentChunk } from "./chunking";
+import { citationFindings, extractCitations } from "./citations";
+import { checkCitator } from "./citator";
+import { checkStatutes } from "./code-index";
+import { validPageSpans } from "./documents";
+import type { InvestigationEvent } from "./events";
+import { extractJson, InvalidModelOutputError, LlmError, MAX_REPAIR_ATTEMPTS, PROVIDER_IDS, resolveProvider, type ChatMessage, type LlmProvider } from "./llm";
+import { anchorInChunk, mergeSectionReviews, type SectionResult } from "./merge";
+import { checkQuotations } from "./opinions";
+import { buildSectionPrompt, PROMPT_VERSION, SYSTEM_PROMPT } from "./prompts";
+import { applyScoring, computeRiskMetrics } from "./scoring";
+import { loadScoringModel } from "./scoring-config";
+import { extractStatutes, lintStatutes, statuteFindings } from "./statutes";
+import { checkSupport } from "./support";
+import { treatmentFindings } from "./treatment";
+import type { InvestigateRequest, LegalReviewMemo, ModelReview, ProviderId } from "./types";
+import { validateModelReview } from "./validation";
+import { verificationFindings } from "./verification";
+
+// Roughly 150 pages; anything larger is not a brief
+export const MAX_DOCUMENT_CHARS = 500_000;
+const MIN_SECTION_CHARS = 2000;
+const MAX_SECTION_CHARS = 12000;
+
+/**
+ * Checks the body of POST /api/investigate. Returns the typed request, or an error
+ * message suitable for a 400 response.
+ */
+export function parseInvestigateRequest(body: unknown): InvestigateRequest | string {
+  if (!body || typeof body !== "object") return "Request body must be a JSON object";
+  const { text, fileName, pages, options } = body as Record<string, unknown>;
+
+  if (typeof text !== "string" || !text.trim()) return "text must be a non-empty string";
+  if (text.length > MAX_DOCUMENT_CHARS) return `text exceeds ${MAX_DOCUMENT_CHARS.toLocaleString()} characters`;
+  if (fileName !== undefined && (typeof fileName !== "string" || fileName.length > 255)) {
+    return "fileName must be a string of at most 255 characters";
+  }
+  if (pages !== undefined && !validPageSpans(pages, text.length)) {
+    return "pages must be ordered { page, start, end } spans within the text";
+  }
+  if (options !== undefined && (!options || typeof options !== "object")) return "options must be an object";
+
+  const { sectionChars, jurisdiction, provider, model } = (options || {}) as Record<string, unknown>;
+  if (sectionChars !== undefined && typeof sectionChars !== "number") return "options.sectionChars must be a number";
+  if (jurisdiction !== undefined && (typeof jurisdiction !== "string" || jurisdiction.length > 100)) {
+    return "options.jurisdiction must be a string of at most 100 characters";
+  }
+  if (provider !== undefined && !PROVIDER_IDS.includes(provider as ProviderId)) {
+    return `options.provider must be one of ${PROVIDER_IDS.join(", ")}`;
+  }
+  if (model !== undefined && (typeof model !== "string" || model.length > 200)) {
+    return "options.model must be a string of at most 200 characters";
+  }
+
+  return {
+    text,
+    fileName: fileName as string | undefined,
+    pages: pages as InvestigateRequest["pages"],
+    options: {
+      sectionChars: sectionChars === undefined ? undefined : Math.min(Math.max(sectionChars, MIN_SECTION_CHARS), MAX_SECTION_CHARS),
+      jurisdiction: jurisdiction as string | undefined,
+      provider: provider as ProviderId | undefined,
+      model: model as string | undefined,
+    },
+  };
+}
+
+const repairPrompt = (errors: string[]) => `Your previous response failed validation:
+${errors.map((error) => `- ${error}`).join("\n")}
+
+Return the corrected JSON object only. Every "quote" must be copied exactly from the DOCUMENT section above; drop any finding you cannot quote.`;
+
+type Emit = (event: InvestigationEvent) => void;
+
+/**
+ * Runs one section through the model, validating each reply and feeding the errors back
+ * for up to MAX_REPAIR_ATTEMPTS further turns.
+ */
+async function reviewSection(
+  messages: ChatMessage[],
+  sectionText: string,
+  provider: LlmProvider,
+  onRetry: (attempt: number, errors: string[]) => void,
+  signal?: AbortSignal
+): Promise<ModelReview> {
+  const conversation = [...messages];
+  let errors: string[] = [];
+
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await provider.complete(conversation, signal);
+    const parsed = extractJson(content);
+    const result = "error" in parsed ? { ok: false as const, errors: [parsed.error] } : validateModelReview(parsed.value, sectionText);
+    if (result.ok) return result.review;
+
+    errors = result.errors;
+    console.warn(`Validation failed (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, errors);
+    if (attempt < MAX_REPAIR_ATTEMPTS) onRetry(attempt + 1, errors);
+    conversation.push({ role: "assistant", content }, { role: "user", content: repairPrompt(errors) });
+  }
+
+  throw new InvalidModelOutputError(errors);
+}
+
+const anchorAll = <T extends { quote: string }>(text: string, chunk: DocumentChunk, issues: T[]) =>
+  issues.map((issue) => ({ ...issue, ...anchorInChunk(text, chunk, issue.quote) }));
+
+/**
+ * The full review pipeline: citation parsing, case-index and code-index verification,
+ * later history from the citator, quotation and proposition-support checks against the
+ * opinion corpus, the Table of Authorities, section-by-section model review with the
+ * server-side prompts, then merging and scoring. Each stage is reported through `emit` as it actually happens. A section
+ * whose model call fails is recorded in the coverage; the investigation only fails
+ * outright when no section could be reviewed, or when `signal` aborts it.
+ */
+export async function runInvestigation(
+  request: InvestigateRequest,
+  provider: LlmProvider = resolveProvider(request.options),
+  emit: Emit = () => {},
+  signal?: AbortSignal
+): Promise<LegalReviewMemo> {
+  const { text, fileName = "pasted text", options = {} } = request;
+
+  const words = text.trim().split(/\s+/).length;
+  emit({ type: "stage", stage: "extraction", status: "completed", message: `Received ${fileName}: ${words.toLocaleString()} words` });
+
+  emit({ type: "stage", stage: "citations", status: "started", message: "Parsing citations..." });
+  const citations = extractCitations(text);
+  const parsedFindings = citationFindings(text, citations);
+  const fullCount = citations.filter((citation) => citation.kind === "full").length;
+  emit({
+    type: "stage",
+    stage: "citations",
+    status: "completed",
+    message: `Parsed ${fullCount} full citations and ${citations.length - fullCount} short forms`,
+  });
+  emit({ type: "findings", stage: "citations", findings: parsedFindings });
+
+  emit({ type: "stage", stage: "verification", status: "started", message: `Checking ${fullCount} citations against the local case index...` });
+  const verification = await verifyCitations(citations);
+  const indexFindings = verification
+    ? verificationFindings(text, citations, verification)
+    : { hallucinationSignals: [], criticalIssues: [] };
+  if (verification) {
+    const found = verification.verifications.filter((v) => v.status === "verified").length;
+    emit({
+      type: "stage",
+      stage: "verification",
+      status: "completed",
+      message: `${found} of ${verification.verifications.length} citations verified in ${verification.source}`,
+    });
+    emit({ type: "findings", stage: "verification", findings: indexFindings });
+  } else {
+    emit({ type: "stage", stage: "verification", status: "skipped", message: "No local case index configured" });
+  }
+
+  const treatment = await checkCitator(text, citations, verification);
+  const treatmentIssues = treatment ? treatmentFindings(text, citations, treatment) : { criticalIssues: [], formattingIssues: [] };
+  if (treatment) {
+    const negative = treatmentIssues.criticalIssues.length;
+    emit({
+      type: "stage",
+      stage: "treatment",
+      status: "completed",
+      message: `${treatment.checks.length} of ${treatment.checked} cited decisions have later history in ${treatment.source}${negative ? `; ${negative} cited without their negative history` : ""}`,
+    });
+    emit({ type: "findings", stage: "treatment", findings: treatmentIssues });
+  } else {
+    emit({ type: "stage", stage: "treatment", status: "skipped", message: "No citator dataset configured" });
+  }
+
+  const statutes = await checkStatutes(text, extractStatutes(text));
+  const codeFindings = statutes.source ? statuteFindings(text, statutes) : { hallucinationSignals: [], criticalIssues: [] };
+  if (statutes.source) {
+    const current = statutes.verifications.filter((v) => v.status === "current").length;
+    emit({
+      type: "stage",
+      stage: "statutes",
+      status: "completed",
+      message: `${current} of ${statutes.citations.length} statutory citations in force per ${statutes.source}`,
+    });
+    emit({ type: "findings", stage: "statutes", findings: codeFindings });
+  } else {
+    emit({ type: "stage", stage: "statutes", status: "skipped", message: `Found ${statutes.citations.length} statutory citations; no code index configured` });
+  }
+
+  const quotations = await checkQuotations(text, citations, verification);
+  if (quotations) {
+    const { checks, unchecked } = quotations.report;
+    emit({
+      type: "stage",
+      stage: "quotations",
+      status: "completed",
+      message: `Compared ${checks.length} quotations with ${quotations.report.source}: ${quotations.issues.length} misquoted${unchecked ? `, ${unchecked} not checked` : ""}`,
+    });
+    emit({ type: "findings", stage: "quotations", findings: { quotationIssues: quotations.issues } });
+  } else {
+    emit({ type: "stage", stage: "quotations", status: "skipped", message: "No local opinion corpus configured" });
+  }
+
+  emit({ type: "stage", stage: "support", status: "started", message: `Checking cited propositions against their opinions with ${provider.info.name}...` });
+  const support = await checkSupport(text, citations, verification, provider, signal);
+  if (support) {
+    const { checks, unchecked, failed } = support.report;
+    const supported = checks.filter((check) => check.status === "supported").length;
+    emit({
+      type: "stage",
+      stage: "support",
+      status: "completed",
+      message: `${supported} of ${checks.length} cited propositions supported by the opinion${failed ? `, ${failed} could not be judged` : ""}${unchecked ? `, ${unchecked} not checked` : ""}`,
+    });
+    emit({ type: "findings", stage: "support", findings: { criticalIssues: support.issues } });
+  } else {
+    emit({ type: "stage", stage: "support", status: "skipped", message: "No local opinion corpus configured" });
+  }
+
+  // A court with a profile gets its local rules checked; any other value only reaches the prompt
+  const profile = findCourtProfile(options.jurisdiction);
+
+  // Courts that want New York Official Reports style get that check from their profile instead
+  const lintFindings =
+    profile?.citationStyle.style === "ny-official" ? [] : [...lintCitations(text, citations, verification), ...lintStatutes(text, statutes.citations)];
+  if (profile?.citationStyle.style === "ny-official") {
+    emit({ type: "stage", stage: "formatting", status: "skipped", message: `${profile.abbreviation} does not use Bluebook citation form` });
+  } else {
+    emit({ type: "stage", stage: "formatting", status: "completed", message: `Bluebook check: ${lintFindings.length} citation formatting issues` });
+    emit({ type: "findings", stage: "formatting", findings: { formattingIssues: lintFindings } });
+  }
+
+  const courtCheck = profile ? checkCourtRules(text, citations, request.pages || null, profile) : null;
+  if (courtCheck) {
+    const failed = courtCheck.compliance.checks.filter((check) => check.status === "fail").length;
+    emit({
+      type: "stage",
+      stage: "court",
+      status: "completed",
+      message: `${failed} of ${courtCheck.compliance.checks.length} ${profile!.abbreviation} requirements not met`,
+    });
+    emit({ type: "findings", stage: "court", findings: { formattingIssues: courtCheck.formattingIssues } });
+  }
+
+  const tableOfAuthorities = buildTableOfAuthorities(text, citations, request.pages || null);
+  const tableIssues = tableFindings(text, citations, tableOfAuthorities);
+  emit({
+    type: "stage",
+    stage: "authorities",
+    status: "completed",
+    message: tableOfAuthorities.brief
+      ? `Table of Authorities: ${tableOfAuthorities.entries.length} authorities cited, ${tableOfAuthorities.brief.entries} listed, ${tableIssues.length} discrepancies`
+      : `Table of Authorities generated: ${tableOfAuthorities.entries.length} authorities cited; the brief has no table to compare`,
+  });
+  emit({ type: "findings", stage: "authorities", findings: { formattingIssues: tableIssues } });
+
+  const chunks = chunkDocument(text, { maxChars: options.sectionChars || DEFAULT_CHUNK_CHARS });
+  const results: SectionResult[] = [];
+  let lastError: unknown = null;
+  emit({
+    type: "stage",
+    stage: "review",
+    status: "started",
+    message: `Reviewing ${chunks.length} section${chunks.length > 1 ? "s" : ""} with ${provider.info.name}...`,
+  });
+
+  for (const chunk of chunks) {
+    signal?.throwIfAborted();
+    const section = { type: "section" as const, index: chunk.index, total: chunks.length };
+    const prompt = buildSectionPrompt({
+      chunk,
+      totalSections: chunks.length,
+      totalChars: text.length,
+      fileName,
+      jurisdiction: profile ? `${profile.name} (${profile.abbreviation})` : options.jurisdiction,
+    });
+
+    emit({ ...section, status: "started", message: `Reviewing section ${chunk.index + 1} of ${chunks.length}...` });
+    try {
+      const review = await reviewSection(
+        [
+          { role: "system", content: SYSTEM_PROMPT },
+          { role: "user", content: prompt },
+        ],
+        chunk.text,
+        provider,
+        (attempt, errors) =>
+          emit({
+            ...section,
+            status: "retrying",
+            message: `Section ${chunk.index + 1}: reply failed validation (${errors.length} errors), repair attempt ${attempt}`,
+          }),
+        signal
+      );
+      results.push({ chunk, review });
+      emit({ ...section, status: "completed", message: `Section ${chunk.index + 1} of ${chunks.length} reviewed` });
+      emit({
+        type: "findings",
+        stage: "review",
+        findings: {
+          criticalIssues: anchorAll(text, chunk, review.criticalIssues),
+          hallucinationSignals: anchorAll(text, chunk, review.hallucinationSignals),
+          formattingIssues: anchorAll(text, chunk, review.formattingIssues),
+        },
+      });
+    } catch (error) {
+      // A cancelled review is not a failed section
+      if (signal?.aborted) throw error;
+      console.error(`Section ${chunk.index + 1}/${chunks.length} failed:`, error);
+      lastError = error;
+      results.push({ chunk, review: null, error: (error as Error).message });
+      emit({ ...section, status: "failed", message: `Section ${chunk.index + 1} could not be reviewed: ${(error as Error).message}` });
+    }
+  }
+
+  if (results.every((result) => result.review === null)) {
+    emit({ type: "stage", stage: "review", status: "failed", message: "No section of the document could be reviewed" });
+    throw lastError instanceof LlmError ? lastError : new LlmError("No section of the document could be analyzed", 502);
+  }
+  const reviewed = results.filter((result) => result.review !== null).length;
+  emit({ type: "stage", stage: "review", status: "completed", message: `${reviewed} of ${chunks.length} sections reviewed` });
+
+  emit({ type: "stage", stage: "scoring", status: "started", message: "Scoring findings..." });
+  const merged = mergeSectionReviews(text, results);
+  const memo: LegalReviewMemo = applyScoring({
+    ...merged,
+    criticalIssues: [
+      ...indexFindings.criticalIssues,
+      ...parsedFindings.criticalIssues,
+      ...codeFindings.criticalIssues,
+      ...treatmentIssues.criticalIssues,
+      ...(support?.issues || []),
+      ...merged.criticalIssues,
+    ],
+    hallucinationSignals: [
+      ...indexFindings.hallucinationSignals,
+      ...parsedFindings.hallucinationSignals,
+      ...codeFindings.hallucinationSignals,
+      ...merged.hallucinationSignals,
+    ],
+    quotationIssues: quotations?.issues || [],
+    formattingIssues: [...lintFindings, ...treatmentIssues.formattingIssues, ...(courtCheck?.formattingIssues || []), ...tableIssues, ...merged.formattingIssues],
+    citations,
+    verification,
+    quotations: quotations?.report || null,
+    support: support?.report || null,
+    statutes,
+    treatment,
+    tableOfAuthorities,
+    court: courtCheck?.compliance || null,
+    promptVersion: PROMPT_VERSION,
+    model: provider.info,
+    pages: request.pages || null,
+  }, await loadScoringModel());
+  const metrics = computeRiskMetrics(memo);
+  emit({ type: "stage", stage: "scoring", status: "completed", message: `Risk score ${metrics.score}/100 across ${metrics.total} flags: ${metrics.readiness.replace(/_/g, " ")}` });
+
+  return memo;
+}
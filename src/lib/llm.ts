@@ -0,0 +1,215 @@
+import { REWRITE_SYSTEM_PROMPT, SUPPORT_SYSTEM_PROMPT } from "./prompts";
+import type { ModelInfo, ProviderId } from "./types";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+// A failed model call; `status` is the HTTP status to surface to the client
+export class LlmError extends Error {
+  constructor(message: string, public status: number, public details?: unknown) {
+    super(message);
+    this.name = "LlmError";
+  }
+}
+
+// Repair turns allowed per model call after the first reply fails validation
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+// The model kept returning output that failed validation after every repair turn
+export class InvalidModelOutputError extends LlmError {
+  constructor(public validationErrors: string[]) {
+    super("AI response failed validation after retries", 422, validationErrors);
+    this.name = "InvalidModelOutputError";
+  }
+}
+
+/**
+ * Extracts the JSON object from a model reply, tolerating markdown fences and
+ * surrounding prose. Returns the parse error message instead of throwing so it can be
+ * fed back to the model.
+ */
+export function extractJson(content: string): { value: unknown } | { error: string } {
+  let jsonString = content.trim();
+
+  // Remove markdown code blocks if present
+  const codeBlockMatch = jsonString.match(/```(?:json)?\s*\n?([\s\S]*?)\n?```/);
+  if (codeBlockMatch) {
+    jsonString = codeBlockMatch[1].trim();
+  }
+
+  // Find JSON object
+  const jsonObjectMatch = jsonString.match(/\{[\s\S]*\}/);
+  if (jsonObjectMatch) {
+    jsonString = jsonObjectMatch[0];
+  }
+
+  try {
+    return { value: JSON.parse(jsonString) };
+  } catch (error) {
+    return { error: `Response is not valid JSON (${(error as Error).message})` };
+  }
+}
+
+export interface LlmProvider {
+  info: ModelInfo;
+  // `signal` aborts the request when the caller no longer wants the reply
+  complete(messages: ChatMessage[], signal?: AbortSignal): Promise<string>;
+}
+
+export const PROVIDER_IDS: ProviderId[] = ["openrouter", "openai-compatible", "mock"];
+
+const DEFAULT_MODELS: Record<ProviderId, string> = {
+  "openrouter": "mistralai/mistral-7b-instruct:free",
+  "openai-compatible": "llama3",
+  "mock": "mock-reviewer",
+};
+
+const env = (name: string) => process.env[name]?.trim() || undefined;
+
+const list = (name: string) =>
+  env(name)
+    ?.split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+// Shared by OpenRouter and local llama.cpp / Ollama / vLLM servers, which all speak this API
+async function chatCompletion(
+  url: string,
+  headers: Record<string, string>,
+  model: string,
+  messages: ChatMessage[],
+  signal?: AbortSignal
+): Promise<string> {
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify({ model, messages }),
+      signal,
+    });
+  } catch (error) {
+    if (signal?.aborted) throw new LlmError("Model request cancelled", 499, error);
+    throw new LlmError(`Model endpoint unreachable: ${url}`, 502, error);
+  }
+
+  const data = await response.json().catch(() => null);
+
+  // If the provider returns an error, keep its details so the route can log them
+  if (!response.ok) {
+    throw new LlmError("Model request failed", response.status, data);
+  }
+
+  const content = data?.choices?.[0]?.message?.content || "";
+  if (!content) {
+    throw new LlmError("No content in AI response", 502, data);
+  }
+  return content;
+}
+
+function openRouter(model: string): LlmProvider {
+  // Remove any accidental spaces or hidden characters from the key
+  const apiKey = env("OPENROUTER_API_KEY");
+  if (!apiKey) {
+    throw new LlmError("API Key is not configured", 401);
+  }
+  return {
+    info: { provider: "openrouter", name: model },
+    complete: (messages, signal) =>
+      chatCompletion(
+        "https://openrouter.ai/api/v1/chat/completions",
+        {
+          "Authorization": `Bearer ${apiKey}`,
+          "HTTP-Referer": env("OPENROUTER_REFERER") || "http://localhost:3000",
+          "X-Title": "Kord Legal",
+        },
+        model,
+        messages,
+        signal
+      ),
+  };
+}
+
+function openAiCompatible(model: string): LlmProvider {
+  const baseUrl = env("OPENAI_COMPATIBLE_BASE_URL");
+  if (!baseUrl) {
+    throw new LlmError("OPENAI_COMPATIBLE_BASE_URL is not configured", 401);
+  }
+  const apiKey = env("OPENAI_COMPATIBLE_API_KEY");
+  return {
+    info: { provider: "openai-compatible", name: model },
+    complete: (messages, signal) =>
+      chatCompletion(
+        `${baseUrl.replace(/\/+$/, "")}/chat/completions`,
+        apiKey ? { "Authorization": `Bearer ${apiKey}` } : {},
+        model,
+        messages,
+        signal
+      ),
+  };
+}
+
+// Returns a valid, empty review (or a placeholder-only rewrite, or a support judgment that
+// flags nothing) so the pipeline can run with no model at all
+function mock(model: string): LlmProvider {
+  return {
+    info: { provider: "mock", name: model },
+    complete: async (messages) =>
+      messages[0]?.content === REWRITE_SYSTEM_PROMPT
+        ? JSON.stringify({
+            replacement: "[CITATION NEEDED: verified authority for this proposition]",
+            explanation: "Mock provider: no rewrite was generated",
+          })
+        : messages[0]?.content === SUPPORT_SYSTEM_PROMPT
+        ? JSON.stringify({
+            status: "supported",
+            explanation: "Mock provider: no model judged these passages",
+          })
+        : JSON.stringify({
+            filingVerdict: {
+              readiness: "file_with_caution",
+              justification: ["Mock provider: no model review was performed; only deterministic checks apply"],
+            },
+            criticalIssues: [],
+            hallucinationSignals: [],
+            formattingIssues: [],
+            opposingCounselPerspective: [],
+            jurisdictionNotes: "",
+          }),
+  };
+}
+
+const FACTORIES: Record<ProviderId, (model: string) => LlmProvider> = {
+  "openrouter": openRouter,
+  "openai-compatible": openAiCompatible,
+  "mock": mock,
+};
+
+/**
+ * Picks the provider and model for a request. Server config sets the defaults
+ * (LLM_PROVIDER, LLM_MODEL) and the limits (LLM_ALLOWED_PROVIDERS, LLM_ALLOWED_MODELS);
+ * a request may only choose within those limits.
+ */
+export function resolveProvider(selection: { provider?: string; model?: string } = {}): LlmProvider {
+  const allowedProviders = (list("LLM_ALLOWED_PROVIDERS") || PROVIDER_IDS) as ProviderId[];
+  const provider = (selection.provider || env("LLM_PROVIDER") || "openrouter") as ProviderId;
+
+  if (!PROVIDER_IDS.includes(provider)) {
+    throw new LlmError(`Unknown model provider "${provider}"`, 400);
+  }
+  if (!allowedProviders.includes(provider)) {
+    throw new LlmError(`Model provider "${provider}" is not allowed on this server`, 403);
+  }
+
+  const serverModel =
+    env(`${provider.toUpperCase().replace(/-/g, "_")}_MODEL`) || env("LLM_MODEL") || DEFAULT_MODELS[provider];
+  const model = selection.model || serverModel;
+  const allowedModels = list("LLM_ALLOWED_MODELS");
+  if (selection.model && selection.model !== serverModel && !allowedModels?.includes(selection.model)) {
+    throw new LlmError(`Model "${selection.model}" is not allowed on this server`, 403);
+  }
+
+  return FACTORIES[provider](model);
+}
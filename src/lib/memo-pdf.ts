@@ -0,0 +1,183 @@
+import PDFDocument from "pdfkit";
+import { formatMemoDate, type MemoIssue, type MemoReport } from "./memo-report";
+
+const MARGIN = 72;
+const INK = "#111111";
+const MUTED = "#555555";
+const VERDICT_COLORS: Record<MemoReport["verdict"]["readiness"], string> = {
+  do_not_file: "#AA1111",
+  file_with_caution: "#AA6600",
+  safe_to_file: "#116611",
+};
+
+function heading(doc: PDFKit.PDFDocument, text: string) {
+  if (doc.y > doc.page.height - MARGIN - 80) doc.addPage();
+  doc.moveDown(1).font("Times-Bold").fontSize(14).fillColor(INK).text(text);
+  const y = doc.y + 2;
+  doc.moveTo(MARGIN, y).lineTo(doc.page.width - MARGIN, y).lineWidth(0.75).stroke(INK);
+  doc.moveDown(0.6);
+}
+
+function issue(doc: PDFKit.PDFDocument, item: MemoIssue) {
+  // Keep an issue's heading with at least the start of its excerpt
+  if (doc.y > doc.page.height - MARGIN - 160) doc.addPage();
+  doc.moveDown(0.6).font("Times-Bold").fontSize(12).fillColor(INK).text(`${item.number}  ${item.title}`, { continued: !!item.page });
+  if (item.page) doc.font("Times-Roman").fillColor(MUTED).text(`   ${item.page}`);
+
+  const indent = { indent: 0, width: doc.page.width - 2 * MARGIN - 14 };
+  doc.moveDown(0.25);
+  const top = doc.y;
+  doc.x = MARGIN + 14;
+  doc.fontSize(11);
+  if (item.excerpt) {
+    doc.font("Times-Roman").fillColor(MUTED).text(item.excerpt.before, { ...indent, continued: true });
+    doc.font("Times-Bold").fillColor(item.category === "formatting" ? "#8A5A00" : "#AA1111").text(item.excerpt.quote, { continued: true, underline: true });
+    doc.font("Times-Roman").fillColor(MUTED).text(item.excerpt.after, { underline: false });
+  } else {
+    doc.font("Times-Italic").fillColor(MUTED).text(`“${item.quote}”`, indent);
+  }
+  // Rule down the left of the excerpt, as in a blockquote
+  doc.moveTo(MARGIN + 4, top).lineTo(MARGIN + 4, doc.y).lineWidth(2).stroke("#999999");
+  doc.x = MARGIN;
+
+  doc.moveDown(0.3).fontSize(11);
+  if (item.note) doc.font("Times-Italic").fillColor(MUTED).text(item.note);
+  for (const detail of item.details) doc.font("Times-Roman").fillColor(INK).text(detail);
+  if (item.verification) doc.font("Times-Italic").fillColor(MUTED).text(`Case index: ${item.verification}`);
+}
+
+/** Typesets the review memorandum as a US Letter PDF. */
+export function renderMemoPdf(report: MemoReport): Promise<Buffer> {
+  const doc = new PDFDocument({
+    size: "LETTER",
+    margin: MARGIN,
+    bufferPages: true,
+    // Fixed metadata so the same review always produces the same file
+    info: {
+      Title: `Review Memorandum: ${report.documentName}`,
+      Author: "Kord Review",
+      CreationDate: new Date(report.analysisDate),
+      ModDate: new Date(report.analysisDate),
+    },
+  });
+  const chunks: Buffer[] = [];
+  doc.on("data", (chunk: Buffer) => chunks.push(chunk));
+  const done = new Promise<Buffer>((resolve, reject) => {
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.on("error", reject);
+  });
+
+  // 1. Cover page
+  doc.moveDown(6).font("Times-Bold").fontSize(22).fillColor(INK).text("BRIEF REVIEW MEMORANDUM", { characterSpacing: 1 });
+  doc.moveDown(2);
+  const cover: Array<[string, string]> = [
+    ["Matter", report.matter || "Not specified"],
+    ["Document", report.documentName],
+    ["Document hash", `SHA-256 ${report.documentHash}`],
+    ["Analysis date", formatMemoDate(report.analysisDate)],
+    ...(report.reviewId ? [["Review", report.reviewId] as [string, string]] : []),
+  ];
+  for (const [label, value] of cover) {
+    const y = doc.y;
+    doc.font("Times-Bold").fontSize(12).text(label, MARGIN, y, { width: 120 });
+    doc.font("Times-Roman").text(value, MARGIN + 130, y, { width: doc.page.width - 2 * MARGIN - 130 });
+    doc.x = MARGIN;
+    doc.moveDown(0.6);
+  }
+
+  // 2. Verdict and score
+  doc.addPage();
+  heading(doc, "Filing Verdict");
+  doc.font("Times-Bold").fontSize(16).fillColor(VERDICT_COLORS[report.verdict.readiness] || INK).text(report.verdict.label);
+  doc.moveDown(0.4).font("Times-Roman").fontSize(12).fillColor(INK);
+  for (const line of report.verdict.justification) doc.text(`•  ${line}`, { indent: 0 });
+  doc.moveDown(0.6);
+  const rows: Array<[string, string]> = [
+    ["Risk score", `${report.metrics.score} / 100`],
+    ["Hallucination signals", String(report.metrics.hallucinations)],
+    ["Critical issues", String(report.metrics.badLaw)],
+    ["Quotation issues", String(report.metrics.quotations)],
+    ["Formatting issues", String(report.metrics.formatting)],
+    [
+      "Category sub-scores",
+      `Hallucination ${report.metrics.subScores.hallucination}, critical ${report.metrics.subScores.critical}, quotation ${report.metrics.subScores.quotation}, formatting ${report.metrics.subScores.formatting} (of 100)`,
+    ],
+  ];
+  for (const [label, value] of rows) {
+    const y = doc.y;
+    doc.font("Times-Bold").text(label, MARGIN, y, { width: 180 });
+    doc.font("Times-Roman").text(value, MARGIN + 190, y);
+    doc.x = MARGIN;
+  }
+
+  // 3. Findings
+  for (const section of report.sections) {
+    heading(doc, section.heading);
+    for (const item of section.issues) issue(doc, item);
+  }
+  if (!report.sections.length) {
+    heading(doc, "Findings");
+    doc.font("Times-Roman").fontSize(12).fillColor(INK).text("No issues were found.");
+  }
+
+  if (report.statutes.length) {
+    heading(doc, "Statutes, Rules and Regulations");
+    for (const statute of report.statutes) {
+      doc.moveDown(0.3).font("Times-Bold").fontSize(11).fillColor(statute.flagged ? "#AA1111" : INK).text(`${statute.citation}: ${statute.status}`);
+      if (statute.detail) doc.font("Times-Roman").fillColor(MUTED).text(statute.detail);
+    }
+  }
+
+  if (report.court) {
+    heading(doc, `Court Rules: ${report.court.court}`);
+    doc
+      .font("Times-Roman")
+      .fontSize(12)
+      .fillColor(INK)
+      .text(
+        `${report.court.documentType}. About ${report.court.words.toLocaleString("en-US")} words, ${report.court.pages}${report.court.pagesEstimated ? " (estimated)" : ""} pages.`
+      );
+    for (const check of report.court.checks) {
+      doc.moveDown(0.3).font("Times-Bold").fontSize(11).fillColor(check.status === "fail" ? "#AA1111" : INK).text(`${check.label}: ${check.requirement}`);
+      doc.font("Times-Roman").fillColor(MUTED).text(`${check.rule}. ${check.detail}`);
+    }
+  }
+
+  if (report.opposingCounsel.length) {
+    heading(doc, "Opposing Counsel Perspective");
+    for (const attack of report.opposingCounsel) {
+      doc.moveDown(0.3).font("Times-Bold").fontSize(12).fillColor(INK).text(attack.vulnerability);
+      doc.font("Times-Roman").text(attack.likelyChallenge);
+    }
+  }
+  if (report.jurisdictionNotes) {
+    heading(doc, "Jurisdiction Notes");
+    doc.font("Times-Roman").fontSize(12).fillColor(INK).text(report.jurisdictionNotes);
+  }
+
+  // 4. Methods
+  heading(doc, "Methods");
+  for (const method of report.methods) {
+    doc.font("Times-Bold").fontSize(11).fillColor(INK).text(method.label);
+    doc.font("Times-Roman").text(method.value).moveDown(0.3);
+  }
+
+  // Footer on every page but the cover
+  const range = doc.bufferedPageRange();
+  for (let i = 1; i < range.count; i++) {
+    doc.switchToPage(range.start + i);
+    doc.page.margins.bottom = 0;
+    doc
+      .font("Times-Roman")
+      .fontSize(9)
+      .fillColor(MUTED)
+      .text(`${report.documentName} · Review Memorandum · Page ${i + 1} of ${range.count}`, MARGIN, doc.page.height - MARGIN / 2 - 9, {
+        width: doc.page.width - 2 * MARGIN,
+        align: "center",
+      });
+    doc.page.margins.bottom = MARGIN;
+  }
+
+  doc.end();
+  return done;
+}
@@ -0,0 +1,482 @@
+import { anchorMemo, CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, TENTATIVE_CONFIDENCE, type HighlightCategory } from "./anchoring";
+import type { CourtCheck, CourtCheckStatus, CourtCompliance } from "./court-profiles";
+import { pageLabel } from "./documents";
+import { assessIssue, computeRiskMetrics, DEFAULT_SCORING_MODEL, type RiskMetrics } from "./scoring";
+import { QUOTATION_LABELS } from "./quotations";
+import { STATUTE_LABELS, statuteForIssue, type StatuteReport } from "./statutes";
+import { NEGATIVE_TREATMENTS, omittedTreatments } from "./treatment";
+import { isClosed, TRIAGE_LABELS, triagedMemo } from "./triage";
+import type { CriticalIssue, FilingReadiness, FormattingIssue, HallucinationSignal, IssueTriage, QuotationIssue, SharedReview, StoredReview, SupportStatus } from "./types";
+import { verificationForIssue, type VerificationStatus } from "./verification";
+
+// Characters of surrounding text shown on each side of a flagged excerpt
+const CONTEXT_CHARS = 220;
+
+export const READINESS_LABELS: Record<FilingReadiness, string> = {
+  safe_to_file: "Safe to file",
+  file_with_caution: "File with caution",
+  do_not_file: "Do not file",
+};
+
+export const SUPPORT_LABELS: Record<SupportStatus, string> = {
+  supported: "Supported",
+  partially_supported: "Partially supported",
+  unsupported: "Unsupported",
+};
+
+// On screen the score takes the verdict's colour, so it can never read green when the brief is not safe
+export const READINESS_COLORS: Record<FilingReadiness, string> = {
+  safe_to_file: "#10b981",
+  file_with_caution: "#f59e0b",
+  do_not_file: "#ef4444",
+};
+
+const CATEGORY_HEADINGS: Record<HighlightCategory, string> = {
+  hallucination: "Hallucination Signals",
+  critical: "Critical Issues",
+  quotation: "Quotation Issues",
+  formatting: "Formatting Issues",
+};
+
+const COURT_CHECK_LABELS: Record<CourtCheckStatus, string> = {
+  pass: "Met",
+  fail: "Not met",
+  unverified: "Not verified",
+};
+
+const VERIFICATION_LABELS: Record<VerificationStatus, string> = {
+  verified: "Citation found in case index",
+  mismatch: "Citation resolves to a different case, court or year",
+  not_found: "Citation does not exist in the local case index",
+  unchecked: "Citation could not be checked",
+};
+
+export interface MemoExcerpt {
+  before: string;
+  quote: string;
+  after: string;
+}
+
+export interface MemoIssue {
+  category: HighlightCategory;
+  number: string;
+  title: string;
+  details: string[];
+  quote: string;
+  // Null when the quote could not be located in the document
+  excerpt: MemoExcerpt | null;
+  page: string;
+  note: string;
+  verification: string;
+}
+
+export interface MemoCourt extends Omit<CourtCompliance, "checks"> {
+  // Each check with its status spelled out
+  checks: Array<CourtCheck & { label: string }>;
+}
+
+// One statutory citation as the memo's table of statutes and rules lists it
+export interface MemoStatute {
+  citation: string;
+  status: string;
+  detail: string;
+  // Repealed, renumbered or nonexistent, and not cited as historical
+  flagged: boolean;
+}
+
+export interface MemoSection {
+  category: HighlightCategory;
+  heading: string;
+  issues: MemoIssue[];
+}
+
+/** Everything printed on the review memorandum, derived only from the stored review. */
+export interface MemoReport {
+  // Null on a memo exported through a share link, which must not reveal the review id
+  reviewId: string | null;
+  matter: string | null;
+  documentName: string;
+  documentHash: string;
+  analysisDate: string;
+  verdict: { readiness: FilingReadiness; label: string; justification: string[] };
+  metrics: RiskMetrics;
+  sections: MemoSection[];
+  statutes: MemoStatute[];
+  court: MemoCourt | null;
+  opposingCounsel: Array<{ vulnerability: string; likelyChallenge: string }>;
+  jurisdictionNotes: string;
+  methods: Array<{ label: string; value: string }>;
+}
+
+const collapse = (text: string) => text.replace(/\s+/g, " ");
+
+// Surrounding text cut back to whole words, with ellipses where the document continues
+function excerptAround(text: string, start: number, end: number): MemoExcerpt {
+  let from = Math.max(0, start - CONTEXT_CHARS);
+  let to = Math.min(text.length, end + CONTEXT_CHARS);
+  if (from > 0) from = text.indexOf(" ", from) + 1 || from;
+  if (to < text.length) to = Math.max(end, text.lastIndexOf(" ", to));
+  return {
+    before: (from > 0 ? "…" : "") + collapse(text.slice(from, start)).trimStart(),
+    quote: collapse(text.slice(start, end)),
+    after: collapse(text.slice(end, to)).trimEnd() + (to < text.length ? "…" : ""),
+  };
+}
+
+function issueText(category: HighlightCategory, issue: HallucinationSignal | CriticalIssue | QuotationIssue | FormattingIssue) {
+  if (category === "hallucination") {
+    const signal = issue as HallucinationSignal;
+    return { title: signal.pattern, details: [signal.risk && `Risk: ${signal.risk}`] };
+  }
+  if (category === "critical") {
+    const critical = issue as CriticalIssue;
+    return {
+      title: critical.problem,
+      details: [
+        critical.missingAuthority && `Missing authority: ${critical.missingAuthority}`,
+        critical.support && `Support check: ${SUPPORT_LABELS[critical.support.status]}`,
+        ...(critical.support?.passages || []).map(({ text, page }) => `Opinion text${page ? ` (at ${page})` : ""}: “${text}”`),
+      ],
+    };
+  }
+  if (category === "quotation") {
+    const quotation = issue as QuotationIssue;
+    return {
+      title: quotation.problem,
+      details: [
+        `Check: ${QUOTATION_LABELS[quotation.status]}`,
+        quotation.recommendation && `Opinion text${quotation.opinionPage ? ` (at ${quotation.opinionPage})` : ""}: “${quotation.recommendation}”`,
+      ],
+    };
+  }
+  const formatting = issue as FormattingIssue;
+  return { title: formatting.problem, details: [formatting.recommendation && `Recommendation: ${formatting.recommendation}`] };
+}
+
+// What the reviewer decided about a finding, as memo detail lines
+function triageDetails(entry: IssueTriage | undefined): string[] {
+  if (!entry) return [];
+  return [
+    `Triage: ${TRIAGE_LABELS[entry.status]}${entry.reason ? ` (${entry.reason})` : ""}${entry.assignee ? `, assigned to ${entry.assignee}` : ""}`,
+    ...(entry.notes ? [`Reviewer notes: ${entry.notes}`] : []),
+  ];
+}
+
+// The stored verdict, rescored from open findings once the reviewer has triaged any
+function triagedVerdict(review: SharedReview, metrics: RiskMetrics): Pick<MemoReport["verdict"], "readiness" | "justification"> {
+  const { memo, triage = [] } = review;
+  if (triage.length === 0) return memo.filingVerdict;
+  // Drop the reasons scoring gave before triage; the model's own justification stays
+  const stale = new Set(computeRiskMetrics(memo).reasons);
+  const closed = triage.filter(isClosed).length;
+  return {
+    readiness: metrics.readiness,
+    justification: [
+      ...metrics.reasons,
+      ...(closed ? [`${closed} finding${closed === 1 ? "" : "s"} dismissed or resolved in triage`] : []),
+      ...memo.filingVerdict.justification.filter((line) => !stale.has(line)),
+    ],
+  };
+}
+
+function describeStatutes(report: StatuteReport | null): MemoStatute[] {
+  if (!report) return [];
+  return report.citations.map((statute) => {
+    const verification = report.verifications.find((candidate) => candidate.statuteId === statute.id);
+    const status = verification?.status || "unchecked";
+    const record = verification?.record;
+    return {
+      citation: statute.canonical,
+      status: `${STATUTE_LABELS[status]}${verification?.historical ? " (cited as historical)" : ""}`,
+      detail: [
+        record?.heading,
+        record?.replacedBy && `Now ${record.replacedBy}`,
+        record?.effective && status !== "current" && `Effective ${record.effective}`,
+        !record && verification?.detail,
+        statute.partialRange && `Only the ends of §§ ${statute.partialRange} were checked`,
+      ]
+        .filter(Boolean)
+        .join(". "),
+      flagged: !verification?.historical && (status === "repealed" || status === "renumbered" || status === "not_found"),
+    };
+  });
+}
+
+function describeMethods(review: SharedReview): MemoReport["methods"] {
+  const { memo } = review;
+  const reviewed = memo.coverage.sections.filter((section) => section.status === "reviewed").length;
+  const report = memo.verification;
+  const counts = (status: VerificationStatus) => report?.verifications.filter((v) => v.status === status).length || 0;
+
+  return [
+    { label: "Model", value: memo.model ? `${memo.model.name} (${memo.model.provider})` : "Not recorded: the review was saved without model details" },
+    { label: "Prompt version", value: memo.promptVersion },
+    {
+      label: "Coverage",
+      value: `${reviewed} of ${memo.coverage.sections.length} sections reviewed (${memo.coverage.totalChars.toLocaleString("en-US")} characters)`,
+    },
+    {
+      label: "Scoring model",
+      value: `${(memo.scoring || DEFAULT_SCORING_MODEL).name}: findings weighted by severity and confidence, capped per category`,
+    },
+    { label: "Citation extraction", value: `${memo.citations.length} citations found by the rule-based reporter citation parser` },
+    {
+      label: "Verification source",
+      value: report
+        ? `${report.source}, ${report.indexSize.toLocaleString("en-US")} cases. ${counts("verified")} verified, ${counts("mismatch")} mismatched, ${counts("not_found")} not found, ${counts("unchecked")} unchecked.`
+        : "No local case index was available; citations were not verified",
+    },
+    {
+      label: "Subsequent history",
+      value: memo.treatment
+        ? `${memo.treatment.checked} cited decisions looked up in ${memo.treatment.source}: ${memo.treatment.checks.length} have later history, ${
+            memo.treatment.checks.filter((check) => omittedTreatments(check).some((treatment) => NEGATIVE_TREATMENTS.has(treatment.treatment))).length
+          } cited without their negative treatment, ${
+            memo.treatment.checks.filter((check) => omittedTreatments(check).some((treatment) => !NEGATIVE_TREATMENTS.has(treatment.treatment))).length
+          } missing an affirmance.`
+        : "No citator dataset was available; reversals and overrulings were not checked",
+    },
+    {
+      label: "Quotation check",
+      value: memo.quotations
+        ? `${memo.quotations.checks.length} attributed quotations compared with ${memo.quotations.source}. ${
+            memo.quotations.checks.filter((check) => check.status === "exact").length
+          } exact, ${memo.quotations.unchecked} not checked (case unverified or no opinion text).`
+        : "No local opinion corpus was available; quotations were not checked",
+    },
+    {
+      label: "Proposition support",
+      value: memo.support
+        ? `${memo.support.checks.length} cited propositions judged by the model against retrieved passages of ${memo.support.source} (prompt ${memo.support.promptVersion}). ${(
+            Object.keys(SUPPORT_LABELS) as SupportStatus[]
+          )
+            .map((status) => `${memo.support!.checks.filter((check) => check.status === status).length} ${SUPPORT_LABELS[status].toLowerCase()}`)
+            .join(", ")}; ${memo.support.unchecked} not checked, ${memo.support.failed} could not be judged.`
+        : "No local opinion corpus was available; cited propositions were not checked against the opinions",
+    },
+    {
+      label: "Statutes and rules",
+      value: memo.statutes
+        ? memo.statutes.source
+          ? `${memo.statutes.citations.length} statutory citations looked up in ${memo.statutes.source}: ${
+              memo.statutes.verifications.filter((v) => v.status === "current").length
+            } in force, ${memo.statutes.verifications.filter((v) => v.status === "repealed" || v.status === "renumbered").length} repealed or renumbered, ${
+              memo.statutes.verifications.filter((v) => v.status === "not_found").length
+            } not found.`
+          : `No code index was available; ${memo.statutes.citations.length} statutory citations were checked for form only.`
+        : "Not checked for this review",
+    },
+    {
+      label: "Table of Authorities",
+      value: memo.tableOfAuthorities
+        ? `${memo.tableOfAuthorities.entries.length} authorities cited. ${
+            memo.tableOfAuthorities.brief
+              ? `Compared with the brief's own table of ${memo.tableOfAuthorities.brief.entries} entries${
+                  memo.tableOfAuthorities.pageOffset === null ? "; page numbers were not compared" : ""
+                }.`
+              : "The brief has no Table of Authorities to compare."
+          }`
+        : "Not generated for this review",
+    },
+    {
+      label: "Court rules",
+      value: memo.court
+        ? `${memo.court.court}: ${memo.court.checks.length} deterministic checks of length, required sections, citation style and typeface`
+        : "No target court selected",
+    },
+    { label: "Excerpt location", value: "Quotes matched to the document text; approximate matches are marked with their confidence" },
+    { label: "Document hash", value: `SHA-256 ${review.documentHash}` },
+  ];
+}
+
+/**
+ * Lays out the review memorandum for a stored review. The result depends only on the
+ * stored document and memo, so regenerating it later yields the same memorandum.
+ */
+export function buildMemoReport(review: StoredReview | SharedReview): MemoReport {
+  const { document: text, memo } = review;
+  const { marks } = anchorMemo(text, memo);
+  const triage = new Map((review.triage || []).map((entry) => [entry.key, entry]));
+  const metrics = computeRiskMetrics(triagedMemo(memo, review.triage));
+  const verdict = triagedVerdict(review, metrics);
+
+  const sections = HIGHLIGHT_CATEGORIES.map((category, c) => ({
+    category,
+    heading: CATEGORY_HEADINGS[category],
+    issues: (memo[CATEGORY_FIELDS[category]] as Array<HallucinationSignal | CriticalIssue | QuotationIssue | FormattingIssue>).map((issue, index): MemoIssue => {
+      const mark = marks.find((candidate) => candidate.category === category && candidate.index === index);
+      const { title, details } = issueText(category, issue);
+      const { severity, confidence } = assessIssue(category, issue, memo);
+      const statute = category === "formatting" ? null : statuteForIssue(issue, memo.statutes);
+      const checked =
+        category === "formatting" || statute
+          ? null
+          : verificationForIssue(mark ? { ...issue, ...mark } : issue, memo.citations, memo.verification?.verifications || []);
+      return {
+        category,
+        number: `${c + 1}.${index + 1}`,
+        title,
+        details: [
+          ...details.filter((detail): detail is string => !!detail),
+          ...(statute ? [`Code index: ${STATUTE_LABELS[statute.verification.status]}`] : []),
+          `Severity: ${severity} (${Math.round(confidence * 100)}% confidence)`,
+          ...triageDetails(triage.get(`${category}-${index}`)),
+        ],
+        quote: issue.quote,
+        excerpt: mark ? excerptAround(text, mark.start, mark.end) : null,
+        page: mark && memo.pages ? pageLabel(memo.pages, mark) : "",
+        note: !mark
+          ? "Not located in the document"
+          : mark.confidence < TENTATIVE_CONFIDENCE
+            ? `Approximate match (${Math.round(mark.confidence * 100)}% confidence)`
+            : "",
+        verification: checked ? VERIFICATION_LABELS[checked.verification.status] : "",
+      };
+    }),
+  })).filter((section) => section.issues.length);
+
+  return {
+    reviewId: "id" in review ? review.id : null,
+    matter: review.matter || null,
+    documentName: review.fileName || "Pasted text",
+    documentHash: review.documentHash,
+    analysisDate: review.createdAt,
+    verdict: {
+      readiness: verdict.readiness,
+      label: READINESS_LABELS[verdict.readiness] || verdict.readiness,
+      justification: verdict.justification,
+    },
+    metrics,
+    sections,
+    statutes: describeStatutes(memo.statutes),
+    court: memo.court
+      ? { ...memo.court, checks: memo.court.checks.map((check) => ({ ...check, label: COURT_CHECK_LABELS[check.status] })) }
+      : null,
+    opposingCounsel: memo.opposingCounselPerspective,
+    jurisdictionNotes: memo.jurisdictionNotes,
+    methods: describeMethods(review),
+  };
+}
+
+/** Formats an ISO timestamp as a fixed UTC date, so output does not depend on the server's locale. */
+export function formatMemoDate(iso: string): string {
+  const date = new Date(iso);
+  const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+  return `${months[date.getUTCMonth()]} ${date.getUTCDate()}, ${date.getUTCFullYear()}`;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+/** Renders the memorandum as a standalone, print-ready HTML page. */
+export function renderMemoHtml(report: MemoReport): string {
+  const e = escapeHtml;
+  const issueHtml = (issue: MemoIssue) => `
+      <article class="issue ${issue.category}">
+        <h3>${issue.number} ${e(issue.title)}${issue.page ? ` <span class="page">${e(issue.page)}</span>` : ""}</h3>
+        ${
+          issue.excerpt
+            ? `<blockquote>${e(issue.excerpt.before)}<mark>${e(issue.excerpt.quote)}</mark>${e(issue.excerpt.after)}</blockquote>`
+            : `<blockquote>“${e(issue.quote)}”</blockquote>`
+        }
+        ${issue.note ? `<p class="note">${e(issue.note)}</p>` : ""}
+        ${issue.details.map((detail) => `<p>${e(detail)}</p>`).join("")}
+        ${issue.verification ? `<p class="note">Case index: ${e(issue.verification)}</p>` : ""}
+      </article>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Review Memorandum: ${e(report.documentName)}</title>
+<style>
+  @page { size: letter; margin: 1in; }
+  body { font-family: "Times New Roman", Times, serif; font-size: 12pt; line-height: 1.45; color: #111; max-width: 7in; margin: 0 auto; padding: 1in 0; }
+  h1 { font-size: 20pt; margin: 0 0 0.4in; letter-spacing: 0.04em; text-transform: uppercase; }
+  h2 { font-size: 14pt; border-bottom: 1px solid #111; padding-bottom: 2pt; margin-top: 0.35in; }
+  h3 { font-size: 12pt; margin: 0.2in 0 4pt; }
+  .cover { page-break-after: always; min-height: 8in; }
+  .cover dl { display: grid; grid-template-columns: 1.6in 1fr; row-gap: 8pt; }
+  .cover dt { font-weight: bold; }
+  .cover dd { margin: 0; word-break: break-all; }
+  .verdict { font-size: 16pt; font-weight: bold; }
+  .verdict.do_not_file { color: #a11; } .verdict.file_with_caution { color: #a60; } .verdict.safe_to_file { color: #161; }
+  table { border-collapse: collapse; margin: 8pt 0; }
+  td, th { border: 1px solid #999; padding: 3pt 10pt; text-align: left; }
+  blockquote { margin: 4pt 0 6pt; padding: 4pt 10pt; border-left: 3px solid #999; font-size: 11pt; }
+  mark { background: #ffe08a; }
+  .issue.hallucination mark, .issue.critical mark { background: #f9c4c4; }
+  .page { font-weight: normal; color: #555; }
+  .note { color: #555; font-style: italic; font-size: 10.5pt; margin: 2pt 0; }
+  .issue { page-break-inside: avoid; }
+  .flagged { color: #a11; }
+  .methods dt { font-weight: bold; } .methods dd { margin: 0 0 6pt; }
+</style>
+</head>
+<body>
+  <section class="cover">
+    <h1>Brief Review Memorandum</h1>
+    <dl>
+      <dt>Matter</dt><dd>${e(report.matter || "Not specified")}</dd>
+      <dt>Document</dt><dd>${e(report.documentName)}</dd>
+      <dt>Document hash</dt><dd>SHA-256 ${e(report.documentHash)}</dd>
+      <dt>Analysis date</dt><dd>${e(formatMemoDate(report.analysisDate))}</dd>
+      ${report.reviewId ? `<dt>Review</dt><dd>${e(report.reviewId)}</dd>` : ""}
+    </dl>
+  </section>
+
+  <h2>Filing Verdict</h2>
+  <p class="verdict ${report.verdict.readiness}">${e(report.verdict.label)}</p>
+  ${report.verdict.justification.length ? `<ul>${report.verdict.justification.map((line) => `<li>${e(line)}</li>`).join("")}</ul>` : ""}
+  <table>
+    <tr><th>Risk score</th><td>${report.metrics.score} / 100</td></tr>
+    <tr><th>Hallucination signals</th><td>${report.metrics.hallucinations}</td></tr>
+    <tr><th>Critical issues</th><td>${report.metrics.badLaw}</td></tr>
+    <tr><th>Quotation issues</th><td>${report.metrics.quotations}</td></tr>
+    <tr><th>Formatting issues</th><td>${report.metrics.formatting}</td></tr>
+    <tr><th>Category sub-scores</th><td>Hallucination ${report.metrics.subScores.hallucination}, critical ${report.metrics.subScores.critical}, quotation ${report.metrics.subScores.quotation}, formatting ${report.metrics.subScores.formatting} (of 100)</td></tr>
+  </table>
+
+  ${report.sections.map((section) => `<h2>${e(section.heading)}</h2>${section.issues.map(issueHtml).join("")}`).join("\n")}
+  ${report.sections.length ? "" : "<h2>Findings</h2><p>No issues were found.</p>"}
+
+  ${
+    report.statutes.length
+      ? `<h2>Statutes, Rules and Regulations</h2>
+  <table>
+    ${report.statutes
+      .map((statute) => `<tr><th>${e(statute.citation)}</th><td${statute.flagged ? ' class="flagged"' : ""}>${e(statute.status)}${statute.detail ? `. ${e(statute.detail)}` : ""}</td></tr>`)
+      .join("\n    ")}
+  </table>`
+      : ""
+  }
+
+  ${
+    report.court
+      ? `<h2>Court Rules: ${e(report.court.court)}</h2>
+  <p>${e(report.court.documentType)}. About ${report.court.words.toLocaleString("en-US")} words, ${report.court.pages}${report.court.pagesEstimated ? " (estimated)" : ""} pages.</p>
+  <table>
+    ${report.court.checks
+      .map((check) => `<tr><th>${e(check.requirement)}<br><span class="note">${e(check.rule)}</span></th><td>${e(check.label)}. ${e(check.detail)}</td></tr>`)
+      .join("\n    ")}
+  </table>`
+      : ""
+  }
+
+  ${
+    report.opposingCounsel.length
+      ? `<h2>Opposing Counsel Perspective</h2>${report.opposingCounsel
+          .map((attack) => `<h3>${e(attack.vulnerability)}</h3><p>${e(attack.likelyChallenge)}</p>`)
+          .join("")}`
+      : ""
+  }
+  ${report.jurisdictionNotes ? `<h2>Jurisdiction Notes</h2><p>${e(report.jurisdictionNotes)}</p>` : ""}
+
+  <h2>Methods</h2>
+  <dl class="methods">
+    ${report.methods.map((method) => `<dt>${e(method.label)}</dt><dd>${e(method.value)}</dd>`).join("\n    ")}
+  </dl>
+</body>
+</html>
+`;
+}
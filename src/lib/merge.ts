@@ -0,0 +1,116 @@
+import { anchorQuote } from "./anchoring";
+import type { DocumentChunk } from "./chunking";
+import type { FilingReadiness, ModelReview, ReviewCoverage } from "./types";
+
+export interface SectionResult {
+  chunk: DocumentChunk;
+  // Null when the model call for this section failed
+  review: ModelReview | null;
+  error?: string;
+}
+
+const READINESS_ORDER: FilingReadiness[] = ["safe_to_file", "file_with_caution", "do_not_file"];
+
+const worst = (a: FilingReadiness, b: FilingReadiness) =>
+  READINESS_ORDER.indexOf(a) >= READINESS_ORDER.indexOf(b) ? a : b;
+
+const normalize = (value: string) => value.toLowerCase().replace(/\s+/g, " ").trim();
+
+/**
+ * Locates a section-relative quote in the full document. Occurrences inside the section
+ * win, so a phrase repeated elsewhere in the brief stays anchored where the model saw it.
+ * Inexact matches carry their confidence.
+ */
+export function anchorInChunk(
+  text: string,
+  chunk: DocumentChunk,
+  quote: string
+): { start: number; end: number; anchorConfidence?: number } | null {
+  const anchor = anchorQuote(text, quote, { near: { start: chunk.start, end: chunk.end } });
+  if (!anchor) return null;
+  return anchor.confidence < 1
+    ? { start: anchor.start, end: anchor.end, anchorConfidence: anchor.confidence }
+    : { start: anchor.start, end: anchor.end };
+}
+
+function mergeIssues<T extends { quote: string; start?: number; end?: number }>(
+  text: string,
+  sections: Array<{ chunk: DocumentChunk; issues: T[] }>
+): T[] {
+  const seen = new Set<string>();
+  const merged: T[] = [];
+
+  for (const { chunk, issues } of sections) {
+    for (const issue of issues) {
+      const anchor = anchorInChunk(text, chunk, issue.quote);
+      const placed = anchor ? { ...issue, ...anchor } : issue;
+      // Overlapping chunks report the same passage twice; the span (or quote) identifies it
+      const key = anchor ? `${anchor.start}:${anchor.end}` : normalize(issue.quote);
+      if (seen.has(key)) continue;
+      seen.add(key);
+      merged.push(placed);
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Combines per-section model reviews into one review of the whole document: issues are
+ * mapped to global offsets and de-duplicated, and the verdict is the most severe one
+ * any section returned. Sections that failed are recorded in the coverage and keep the
+ * verdict from reading as clean.
+ */
+export function mergeSectionReviews(text: string, results: SectionResult[]): ModelReview & { coverage: ReviewCoverage } {
+  const reviewed = results.filter((result): result is SectionResult & { review: ModelReview } => result.review !== null);
+  const failed = results.filter((result) => result.review === null);
+
+  let readiness: FilingReadiness = "safe_to_file";
+  const justification: string[] = [];
+  for (const { review } of reviewed) {
+    readiness = worst(readiness, review.filingVerdict.readiness);
+    for (const reason of review.filingVerdict.justification) {
+      if (!justification.some((existing) => normalize(existing) === normalize(reason))) justification.push(reason);
+    }
+  }
+  if (failed.length > 0) {
+    readiness = worst(readiness, "file_with_caution");
+    justification.unshift(
+      `Section${failed.length > 1 ? "s" : ""} ${failed.map((result) => result.chunk.index + 1).join(", ")} of ${results.length} could not be reviewed by the model`
+    );
+  }
+
+  const opposingCounselPerspective = reviewed
+    .flatMap(({ review }) => review.opposingCounselPerspective || [])
+    .filter(
+      (attack, index, all) =>
+        all.findIndex((other) => normalize(other.vulnerability) === normalize(attack.vulnerability)) === index
+    );
+
+  const jurisdictionNotes = reviewed
+    .map(({ review }) => review.jurisdictionNotes?.trim())
+    .filter((note, index, all): note is string => !!note && all.indexOf(note) === index)
+    .join("\n\n");
+
+  return {
+    filingVerdict: { readiness, justification },
+    criticalIssues: mergeIssues(text, reviewed.map(({ chunk, review }) => ({ chunk, issues: review.criticalIssues || [] }))),
+    hallucinationSignals: mergeIssues(
+      text,
+      reviewed.map(({ chunk, review }) => ({ chunk, issues: review.hallucinationSignals || [] }))
+    ),
+    formattingIssues: mergeIssues(text, reviewed.map(({ chunk, review }) => ({ chunk, issues: review.formattingIssues || [] }))),
+    opposingCounselPerspective,
+    jurisdictionNotes,
+    coverage: {
+      totalChars: text.length,
+      sections: results.map(({ chunk, review, error }) => ({
+        index: chunk.index,
+        start: chunk.start,
+        end: chunk.end,
+        status: review ? "reviewed" : "failed",
+        ...(error ? { error } : {}),
+      })),
+    },
+  };
+}
@@ -0,0 +1,95 @@
+import { promises as fs } from "fs";
+import path from "path";
+import type { Citation } from "./citations";
+import type { PageSpan } from "./documents";
+import { checkQuotation, findQuotations, type Opinion, type QuotationReport } from "./quotations";
+import type { QuotationIssue } from "./types";
+import type { CaseRecord, VerificationReport } from "./verification";
+
+// One plain-text file per decision, named by its case index id: data/opinions/<id>.txt
+export const OPINIONS_DIR = process.env.OPINIONS_DIR || path.join(process.cwd(), "data", "opinions");
+
+// Case index ids become file names; anything that could leave the directory is not looked up
+const CASE_ID_PATTERN = /^[A-Za-z0-9_.-]{1,100}$/;
+
+// "[*322]" starts page 322 of the reporter the opinion is paginated by
+const STAR_PAGE = /\[\*(\d+)\]/g;
+
+// Strips the star-page markers, recording where each page starts in the remaining text
+function parseOpinion(caseId: string, content: string): Opinion {
+  let text = "";
+  const starts: Array<{ page: number; start: number }> = [];
+  let at = 0;
+  for (const match of Array.from(content.matchAll(STAR_PAGE))) {
+    text += content.slice(at, match.index);
+    starts.push({ page: Number(match[1]), start: text.length });
+    at = match.index! + match[0].length;
+  }
+  text += content.slice(at);
+
+  const pages: PageSpan[] = starts.map(({ page, start }, i) => ({ page, start, end: starts[i + 1]?.start ?? text.length }));
+  return { caseId, text, pages: pages.length ? pages : null };
+}
+
+/** Reads one opinion from the corpus; null when the case has no opinion text. */
+export async function loadOpinion(caseId: string): Promise<Opinion | null> {
+  if (!CASE_ID_PATTERN.test(caseId)) return null;
+  try {
+    return parseOpinion(caseId, await fs.readFile(path.join(OPINIONS_DIR, `${caseId}.txt`), "utf8"));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+/** Describes the corpus for reports, e.g. "opinions (1,204 opinions)"; null when it is not installed. */
+export async function describeCorpus(): Promise<string | null> {
+  try {
+    const files = (await fs.readdir(OPINIONS_DIR)).filter((file) => file.endsWith(".txt"));
+    return `${path.basename(OPINIONS_DIR)} (${files.length.toLocaleString()} opinions)`;
+  } catch {
+    return null;
+  }
+}
+
+/** The indexed decision behind a full citation, through a verified parallel cite if need be. */
+export function verifiedRecord(full: Citation, report: VerificationReport | null): CaseRecord | null {
+  const ids = [full.id, ...full.parallel];
+  const verification = report?.verifications.find((v) => ids.includes(v.citationId) && v.status === "verified" && v.match);
+  return verification?.match || null;
+}
+
+/**
+ * Checks every quotation attributed to a verified case against that case's opinion in the
+ * local corpus. Returns null when no corpus is installed.
+ */
+export async function checkQuotations(
+  text: string,
+  citations: Citation[],
+  verification: VerificationReport | null
+): Promise<{ report: QuotationReport; issues: QuotationIssue[] } | null> {
+  const source = await describeCorpus();
+  if (!source) return null;
+
+  const report: QuotationReport = {
+    source,
+    checks: [],
+    unchecked: 0,
+  };
+  const issues: QuotationIssue[] = [];
+  const opinions = new Map<string, Opinion | null>();
+
+  for (const passage of findQuotations(text, citations)) {
+    const record = verifiedRecord(passage.full, verification);
+    if (record && !opinions.has(record.id)) opinions.set(record.id, await loadOpinion(record.id));
+    const opinion = record && opinions.get(record.id);
+    if (!record || !opinion) {
+      report.unchecked++;
+      continue;
+    }
+    const { check, issue } = checkQuotation(passage, opinion, record.caseName);
+    report.checks.push(check);
+    if (issue) issues.push(issue);
+  }
+  return { report, issues };
+}
@@ -0,0 +1,154 @@
+import type { DocumentChunk } from "./chunking";
+
+// Bump whenever either prompt changes; it is recorded on every memo the prompts produce
+export const PROMPT_VERSION = "review-v3";
+
+export const SYSTEM_PROMPT = `You are a HOSTILE legal auditor. Your primary goal is to find reasons to DISQUALIFY this document.
+
+STRICT PROTOCOLS:
+1. Every case citation (e.g., Vol. Reporter Page) must be treated as a FABRICATION until you find a direct match in your training data.
+2. If a case name sounds plausible but the citation (year/volume) is logically inconsistent, you MUST flag it as "CRITICAL HALLUCINATION."
+3. Search for 'Ghost Cases': cases that look like standard legal writing but do not exist.
+4. If you have any doubt, do not be helpful. Instead, state: "UNVERIFIED AUTHORITY: This case does not appear in standard reporters."`;
+
+export interface SectionPromptInput {
+  chunk: DocumentChunk;
+  totalSections: number;
+  totalChars: number;
+  fileName: string;
+  // Court the brief will be filed in, when the user named one
+  jurisdiction?: string;
+}
+
+export function buildSectionPrompt({ chunk, totalSections, totalChars, fileName, jurisdiction }: SectionPromptInput): string {
+  return `You are a senior legal investigator. Analyze this legal brief and return ONLY a raw JSON object (no markdown, no code blocks, no extra text).
+
+Required JSON structure:
+{
+  "filingVerdict": {
+    "readiness": "file_with_caution",
+    "justification": ["brief reason 1", "brief reason 2", "brief reason 3"]
+  },
+  "criticalIssues": [
+    {
+      "quote": "exact text from document showing the problem",
+      "problem": "why this is a legal issue",
+      "missingAuthority": "what citation or support is needed",
+      "severity": "high",
+      "confidence": 0.7
+    }
+  ],
+  "hallucinationSignals": [
+    {
+      "quote": "suspicious text from document",
+      "pattern": "AI hallucination pattern detected",
+      "risk": "why this is risky",
+      "severity": "critical",
+      "confidence": 0.6
+    }
+  ],
+  "formattingIssues": [
+    {
+      "quote": "text with formatting issue",
+      "problem": "formatting problem",
+      "recommendation": "corrected version",
+      "severity": "low",
+      "confidence": 0.9
+    }
+  ],
+  "opposingCounselPerspective": [
+    {
+      "vulnerability": "weak point",
+      "likelyChallenge": "how they would attack it"
+    }
+  ],
+  "jurisdictionNotes": "notes about citation standards"
+}
+
+Quote text exactly as it appears in this section so findings can be located in the document.
+Give every issue a "severity": "critical" for fabricated or misrepresented authority, "high" for law that does not support the argument, "medium" for gaps a court would notice, "low" for form only. Give your "confidence" that the issue is real, from 0 to 1.
+${jurisdiction ? `\nThe brief will be filed in: ${jurisdiction}. Apply that court's citation and formatting rules.\n` : ""}
+DOCUMENT (File: ${fileName}, Length: ${totalChars} chars, section ${chunk.index + 1} of ${totalSections}, chars ${chunk.start}-${chunk.end}):
+${chunk.text}
+
+Return ONLY the JSON object, nothing else.`;
+}
+
+// Bump whenever the rewrite prompts change; it is returned with every rewrite
+export const REWRITE_PROMPT_VERSION = "rewrite-v1";
+
+export const REWRITE_SYSTEM_PROMPT = `You are a careful legal editor. You revise one passage of a brief to fix a specific problem.
+
+STRICT PROTOCOLS:
+1. You may cite ONLY the verified authorities listed in the request, and only by writing their token exactly, e.g. {{A1}}. Never write a case name, reporter citation or statute yourself.
+2. Where the argument needs support and no listed authority fits, write [CITATION NEEDED: what the authority must establish].
+3. Keep the author's argument, voice and surrounding facts. Change only what the problem requires.
+4. Never invent holdings, quotations or facts.`;
+
+export interface RewritePromptInput {
+  passage: string;
+  quote: string;
+  problem: string;
+  // Token ("A1") and full citation of each authority the rewrite may use
+  authorities: Array<{ id: string; citation: string }>;
+}
+
+export function buildRewritePrompt({ passage, quote, problem, authorities }: RewritePromptInput): string {
+  return `Rewrite the PASSAGE below to fix the PROBLEM with the flagged text. Return ONLY a raw JSON object (no markdown, no code blocks, no extra text):
+{
+  "replacement": "the full revised passage",
+  "explanation": "one or two sentences on what changed and why"
+}
+
+VERIFIED AUTHORITIES (cite only by token):
+${authorities.length ? authorities.map(({ id, citation }) => `{{${id}}} = ${citation}`).join("\n") : "(none - use [CITATION NEEDED: ...] wherever support is required)"}
+
+FLAGGED TEXT:
+${quote}
+
+PROBLEM:
+${problem}
+
+PASSAGE:
+${passage}
+
+Return ONLY the JSON object, nothing else.`;
+}
+
+// Bump whenever the support prompts change; it is recorded with every support report
+export const SUPPORT_PROMPT_VERSION = "support-v1";
+
+export const SUPPORT_SYSTEM_PROMPT = `You are a careful law clerk checking whether a cited case says what a brief claims it says.
+
+STRICT PROTOCOLS:
+1. Judge ONLY from the opinion passages in the request. Do not rely on your memory of the case.
+2. "supported": the passages state or directly establish the proposition.
+3. "partially_supported": the passages support part of the proposition, or support it only with qualifications the brief leaves out.
+4. "unsupported": the passages do not establish the proposition, or contradict it.
+5. If the passages are about something else entirely, say so; never assume the rest of the opinion fills the gap.`;
+
+export interface SupportPromptInput {
+  proposition: string;
+  citation: string;
+  caseName: string;
+  passages: Array<{ text: string; page: number | null }>;
+}
+
+export function buildSupportPrompt({ proposition, citation, caseName, passages }: SupportPromptInput): string {
+  return `Decide whether the OPINION PASSAGES support the PROPOSITION the brief cites ${caseName} for. Return ONLY a raw JSON object (no markdown, no code blocks, no extra text):
+{
+  "status": "supported" | "partially_supported" | "unsupported",
+  "explanation": "one or two sentences naming what the passages do or do not say"
+}
+
+PROPOSITION:
+${proposition}
+
+CITATION AS WRITTEN:
+${citation}
+
+OPINION PASSAGES (${caseName}):
+${passages.map(({ text, page }, i) => `[${i + 1}]${page !== null ? ` (at ${page})` : ""} ${text}`).join("\n\n")}
+
+Return ONLY the JSON object, nothing else.`;
+}
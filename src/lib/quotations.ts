@@ -0,0 +1,335 @@
+import { anchorQuote } from "./anchoring";
+import type { Citation } from "./citations";
+import { diffWords } from "./diff";
+import { pageAt, type PageSpan } from "./documents";
+import type { QuotationIssue, QuotationStatus, Severity } from "./types";
+
+// Shorter quotations are usually terms of art ("plausible", "genuine issue") rather than holdings
+const MIN_QUOTE_WORDS = 5;
+const MAX_QUOTE_CHARS = 2_000;
+
+// How far a citation may sit from the quotation it is taken to support
+const MAX_CITE_AFTER = 150;
+const MAX_CITE_BEFORE = 250;
+// How many opinion words a located span may grow by to reach the quotation's first or last word
+const MAX_SPAN_EXTENSION = 6;
+
+const QUOTATION = /“([^“”]+)”|"([^"]+)"/g;
+const WORD = /[A-Za-z0-9À-ÿ§¶]+(?:['’][A-Za-z]+)*/g;
+// "[. . .]" before plain dots, so the brackets are consumed with the ellipsis
+const ELLIPSIS = /\s*\[\s*(?:\.\s*){3}\]\s*|\s*(?:\.\s*){3,}\s*|\s*…\s*/;
+
+// One opinion in the local corpus, with its star pages when the file marks them
+export interface Opinion {
+  caseId: string;
+  text: string;
+  pages: PageSpan[] | null;
+}
+
+/** A quotation in the brief and the citation it is attributed to. */
+export interface QuotedPassage {
+  quote: string;
+  // Offsets of the quoted words, inside the quotation marks
+  start: number;
+  end: number;
+  citation: Citation;
+  // The full citation a short form or id. refers to
+  full: Citation;
+}
+
+// The outcome for one quotation whose case has an opinion in the corpus
+export interface QuotationCheck {
+  quote: string;
+  start: number;
+  end: number;
+  citationId: string;
+  caseName: string;
+  status: QuotationStatus;
+  opinionPage: number | null;
+}
+
+export interface QuotationReport {
+  // Description of the corpus consulted, e.g. "opinions (1,204 opinions)"
+  source: string;
+  checks: QuotationCheck[];
+  // Attributed quotations whose case was not verified or has no opinion text
+  unchecked: number;
+}
+
+// Each status as a finding; the deterministic comparison is sure of what it saw
+const STATUS_ASSESSMENTS: Record<QuotationIssue["status"], { severity: Severity; confidence: number }> = {
+  // A quotation the opinion does not contain is as sanctionable as a fabricated case
+  not_found: { severity: "high", confidence: 0.8 },
+  altered: { severity: "high", confidence: 0.85 },
+  missing_ellipsis: { severity: "medium", confidence: 0.85 },
+  missing_brackets: { severity: "low", confidence: 0.9 },
+};
+
+const fullCitationFor = (citation: Citation, citations: Citation[]) =>
+  citation.kind === "full" ? citation : citations.find((candidate) => candidate.id === citation.antecedentId);
+
+/**
+ * Finds the quotations in a brief that are attributed to a case: the citation right after
+ * the closing quotation mark, or failing that one earlier in the same sentence ("In
+ * Celotex, 477 U.S. at 322, the Court held that "...""). Unattributed quotations are left out.
+ */
+export function findQuotations(text: string, citations: Citation[]): QuotedPassage[] {
+  const passages: QuotedPassage[] = [];
+
+  for (const match of Array.from(text.matchAll(QUOTATION))) {
+    const quote = match[1] ?? match[2];
+    if (quote.length > MAX_QUOTE_CHARS || (quote.match(WORD) || []).length < MIN_QUOTE_WORDS) continue;
+    const start = match.index! + 1;
+    const end = start + quote.length;
+    const close = match.index! + match[0].length;
+
+    const after = citations.find((citation) => {
+      const gap = text.slice(close, citation.fullStart);
+      return citation.fullStart >= close && gap.length <= MAX_CITE_AFTER && !/["“”]/.test(gap);
+    });
+    const before = after
+      ? undefined
+      : [...citations].reverse().find((citation) => {
+          const gap = text.slice(citation.fullEnd, match.index!);
+          return citation.fullEnd <= match.index! && gap.length <= MAX_CITE_BEFORE && !/["“”]|[.!?]\s+[A-Z]/.test(gap);
+        });
+    const citation = after || before;
+    const full = citation && fullCitationFor(citation, citations);
+    if (citation && full) passages.push({ quote, start, end, citation, full });
+  }
+  return passages;
+}
+
+interface QuoteWord {
+  lower: string;
+  original: string;
+  bracketed: boolean;
+  // Which ellipsis-separated fragment of the quotation the word is in
+  fragment: number;
+}
+
+const normalizeWord = (word: string) => word.toLowerCase().replace(/’/g, "'");
+
+// The quotation's words, remembering which were changed in brackets and where ellipses fall
+function quoteWords(quote: string): QuoteWord[] {
+  const words: QuoteWord[] = [];
+  quote.split(ELLIPSIS).forEach((fragment, index) => {
+    let plain = "";
+    const inside: boolean[] = [];
+    let depth = 0;
+    for (let i = 0; i < fragment.length; i++) {
+      if (fragment[i] === "[") depth++;
+      else if (fragment[i] === "]") depth = Math.max(depth - 1, 0);
+      else {
+        plain += fragment[i];
+        inside.push(depth > 0);
+      }
+    }
+    for (const match of Array.from(plain.matchAll(WORD))) {
+      words.push({
+        lower: normalizeWord(match[0]),
+        original: match[0].replace(/’/g, "'"),
+        bracketed: inside.slice(match.index!, match.index! + match[0].length).some(Boolean),
+        fragment: index,
+      });
+    }
+  });
+  return words;
+}
+
+type AlignOp = { type: "equal"; p: number; q: number } | { type: "delete"; p: number } | { type: "insert"; q: number };
+
+// Longest common subsequence alignment of the opinion's words with the quotation's
+function alignWords(passage: string[], quote: string[]): AlignOp[] {
+  const n = passage.length;
+  const m = quote.length;
+  const table = Array.from({ length: n + 1 }, () => new Int32Array(m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      table[i][j] = passage[i] === quote[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+    }
+  }
+  const ops: AlignOp[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < n || j < m) {
+    if (i < n && j < m && passage[i] === quote[j]) ops.push({ type: "equal", p: i++, q: j++ });
+    else if (j < m && (i === n || table[i][j + 1] >= table[i + 1][j])) ops.push({ type: "insert", q: j++ });
+    else ops.push({ type: "delete", p: i++ });
+  }
+  return ops;
+}
+
+/**
+ * Classifies a quotation against the opinion passage it was matched to. Words the brief
+ * added or changed are an alteration unless bracketed; opinion words it dropped need an
+ * ellipsis (or a bracketed substitute) where they were cut; a change of capitalisation
+ * needs brackets. Punctuation is not compared.
+ */
+function classify(passage: string, quote: string): QuotationStatus {
+  const words = quoteWords(quote);
+  const opinionWords = (passage.match(WORD) || []).map((word) => word.replace(/’/g, "'"));
+  const ops = alignWords(opinionWords.map(normalizeWord), words.map((word) => word.lower));
+
+  let altered = false;
+  let omitted = false;
+  let recased = false;
+  ops.forEach((op, k) => {
+    if (op.type === "equal") {
+      if (!words[op.q].bracketed && words[op.q].original !== opinionWords[op.p]) recased = true;
+    } else if (op.type === "insert") {
+      if (!words[op.q].bracketed) altered = true;
+    } else if (k === 0 || ops[k - 1].type !== "delete") {
+      // A run of dropped words is marked by an ellipsis or a bracketed word beside it
+      const kept = (other: AlignOp): other is Exclude<AlignOp, { type: "delete" }> => other.type !== "delete";
+      const previous = ops.slice(0, k).reverse().find(kept);
+      const next = ops.slice(k).find(kept);
+      if (!previous || !next) return;
+      const a = words[previous.q];
+      const b = words[next.q];
+      if (a.fragment === b.fragment && !a.bracketed && !b.bracketed) omitted = true;
+    }
+  });
+
+  return altered ? "altered" : omitted ? "missing_ellipsis" : recased ? "missing_brackets" : "exact";
+}
+
+// Where the quotation sits in the opinion; an elided quotation is located by its first and last fragments
+function locate(opinion: string, quote: string): { start: number; end: number } | null {
+  const fragments = quote.split(ELLIPSIS).filter((fragment) => (fragment.match(WORD) || []).length > 0);
+  if (fragments.length > 1) {
+    const first = anchorQuote(opinion, fragments[0]);
+    if (first) {
+      const window = opinion.slice(first.end, first.end + Math.max(2000, quote.length * 10));
+      const last = anchorQuote(window, fragments[fragments.length - 1]);
+      if (last) return { start: first.start, end: first.end + last.end };
+    }
+  }
+  return anchorQuote(opinion, quote);
+}
+
+/**
+ * A fuzzy match spans about as many characters as the quotation, so when the brief dropped
+ * words it stops short of the last quoted word, and when it added words it runs past it.
+ * Moves each end of the span to the quotation's end word when that word lies close by,
+ * so dropped words read as an omission rather than the end word as an alteration.
+ */
+function fitSpan(opinion: string, span: { start: number; end: number }, quote: string): { start: number; end: number } {
+  const words = quoteWords(quote);
+  if (!words.length) return span;
+  const wordsIn = (from: number, to: number) =>
+    Array.from(opinion.slice(from, to).matchAll(WORD)).map((match) => ({
+      word: normalizeWord(match[0]),
+      start: from + match.index!,
+      end: from + match.index! + match[0].length,
+    }));
+  const inside = wordsIn(span.start, span.end);
+  const reach = MAX_SPAN_EXTENSION * 30;
+  let { start, end } = span;
+
+  // The last quoted word in the span's tail, else just after the span
+  const last = words[words.length - 1];
+  if (!last.bracketed && inside[inside.length - 1]?.word !== last.lower) {
+    const match = [
+      ...inside.slice(-MAX_SPAN_EXTENSION).reverse(),
+      ...wordsIn(span.end, span.end + reach).slice(0, MAX_SPAN_EXTENSION),
+    ].find((candidate) => candidate.word === last.lower);
+    if (match) end = match.end;
+  }
+
+  const first = words[0];
+  if (!first.bracketed && inside[0]?.word !== first.lower) {
+    const match = [
+      ...inside.slice(0, MAX_SPAN_EXTENSION),
+      ...wordsIn(Math.max(0, span.start - reach), span.start).slice(-MAX_SPAN_EXTENSION).reverse(),
+    ].find((candidate) => candidate.word === first.lower);
+    if (match) start = match.start;
+  }
+  return start < end ? { start, end } : span;
+}
+
+/** Compares one quotation with its opinion: the status, the opinion's own words and their page. */
+export function compareQuotation(
+  quote: string,
+  opinion: Opinion
+): { status: QuotationStatus; passage: string | null; page: number | null } {
+  const located = locate(opinion.text, quote);
+  if (!located) return { status: "not_found", passage: null, page: null };
+  const span = fitSpan(opinion.text, located, quote);
+  const passage = opinion.text.slice(span.start, span.end);
+  return { status: classify(passage, quote), passage, page: pageAt(opinion.pages, span.start) };
+}
+
+const PROBLEMS: Record<QuotationIssue["status"], (caseName: string, at: string) => string> = {
+  altered: (caseName, at) => `The quotation changes the wording of ${caseName}${at} without brackets.`,
+  missing_ellipsis: (caseName, at) => `The quotation leaves out words of ${caseName}${at} without an ellipsis.`,
+  missing_brackets: (caseName, at) => `The quotation changes the capitalisation of ${caseName}${at} without brackets.`,
+  not_found: (caseName) => `The quoted language does not appear in the opinion in ${caseName}.`,
+};
+
+/**
+ * The opinion's words as they should appear inside the brief's quotation marks: quotations
+ * within them become single quotes, a change to the first letter's case is bracketed, and
+ * the brief's closing punctuation is kept so the words drop straight into the sentence.
+ */
+function asQuoted(passage: string, quote: string): string {
+  let text = passage
+    .replace(/[.,;:!?]+$/, "")
+    .replace(/“/g, "‘")
+    .replace(/”/g, "’")
+    .replace(/"/g, "'");
+  const first = quote.replace(/^\[/, "").charAt(0);
+  if (first && text.charAt(0) !== first && text.charAt(0).toLowerCase() === first.toLowerCase()) {
+    text = `[${first}]${text.slice(1)}`;
+  }
+  return text + (quote.match(/[.,;:!?]+$/)?.[0] || "");
+}
+
+/**
+ * Checks one attributed quotation against its opinion. Returns the check for the report
+ * and, unless the quotation is exact, a finding anchored to the quoted words.
+ */
+export function checkQuotation(
+  passage: QuotedPassage,
+  opinion: Opinion,
+  caseName: string
+): { check: QuotationCheck; issue: QuotationIssue | null } {
+  const result = compareQuotation(passage.quote, opinion);
+  const check: QuotationCheck = {
+    quote: passage.quote,
+    start: passage.start,
+    end: passage.end,
+    citationId: passage.citation.id,
+    caseName,
+    status: result.status,
+    opinionPage: result.page,
+  };
+  if (result.status === "exact") return { check, issue: null };
+
+  const recommendation = result.passage ? asQuoted(result.passage, passage.quote) : "";
+  return {
+    check,
+    issue: {
+      quote: passage.quote,
+      start: passage.start,
+      end: passage.end,
+      citationId: passage.citation.id,
+      source: "opinion-corpus",
+      ...STATUS_ASSESSMENTS[result.status],
+      status: result.status,
+      caseName,
+      problem: PROBLEMS[result.status](caseName, result.page ? ` at ${result.page}` : ""),
+      recommendation,
+      opinionPage: result.page,
+      diff: result.passage ? diffWords(result.passage, passage.quote) : [],
+    },
+  };
+}
+
+export const QUOTATION_LABELS: Record<QuotationStatus, string> = {
+  exact: "Exact match",
+  altered: "Altered wording",
+  missing_ellipsis: "Missing ellipsis",
+  missing_brackets: "Missing brackets",
+  not_found: "Quote not found",
+};
@@ -0,0 +1,95 @@
+export interface Reporter {
+  // Bluebook abbreviation, e.g. "F.3d"
+  abbreviation: string;
+  name: string;
+  // Publication range; `to` is omitted for reporters still being published
+  from: number;
+  to?: number;
+  // Court implied by the reporter when the parenthetical omits it
+  court?: string;
+  // Non-Bluebook spellings seen in the wild, recognised but flagged later
+  variants?: string[];
+}
+
+export const REPORTERS: Reporter[] = [
+  { abbreviation: "U.S.", name: "United States Reports", from: 1790, court: "U.S." },
+  { abbreviation: "S. Ct.", name: "Supreme Court Reporter", from: 1882, court: "U.S.", variants: ["S.Ct."] },
+  { abbreviation: "L. Ed.", name: "Lawyers' Edition", from: 1790, to: 1956, court: "U.S.", variants: ["L.Ed."] },
+  { abbreviation: "L. Ed. 2d", name: "Lawyers' Edition, Second Series", from: 1956, court: "U.S.", variants: ["L.Ed.2d"] },
+  { abbreviation: "F.", name: "Federal Reporter", from: 1880, to: 1924 },
+  { abbreviation: "F.2d", name: "Federal Reporter, Second Series", from: 1924, to: 1993, variants: ["F.2nd"] },
+  { abbreviation: "F.3d", name: "Federal Reporter, Third Series", from: 1993, to: 2021, variants: ["F.3rd"] },
+  { abbreviation: "F.4th", name: "Federal Reporter, Fourth Series", from: 2021 },
+  { abbreviation: "F. Supp.", name: "Federal Supplement", from: 1932, to: 1998, variants: ["F.Supp."] },
+  { abbreviation: "F. Supp. 2d", name: "Federal Supplement, Second Series", from: 1998, to: 2014, variants: ["F.Supp.2d"] },
+  { abbreviation: "F. Supp. 3d", name: "Federal Supplement, Third Series", from: 2014, variants: ["F.Supp.3d"] },
+  { abbreviation: "F. App'x", name: "Federal Appendix", from: 2001, to: 2021, variants: ["F. App’x", "F. Appx.", "F. Appx", "Fed. Appx."] },
+  { abbreviation: "B.R.", name: "Bankruptcy Reporter", from: 1979 },
+  { abbreviation: "Cal.", name: "California Reports", from: 1850, to: 1934, court: "Cal." },
+  { abbreviation: "Cal. 2d", name: "California Reports, Second Series", from: 1934, to: 1969, court: "Cal." },
+  { abbreviation: "Cal. 3d", name: "California Reports, Third Series", from: 1969, to: 1991, court: "Cal." },
+  { abbreviation: "Cal. 4th", name: "California Reports, Fourth Series", from: 1991, to: 2016, court: "Cal." },
+  { abbreviation: "Cal. 5th", name: "California Reports, Fifth Series", from: 2016, court: "Cal." },
+  { abbreviation: "Cal. App.", name: "California Appellate Reports", from: 1905, to: 1934, court: "Cal. Ct. App." },
+  { abbreviation: "Cal. App. 2d", name: "California Appellate Reports, Second Series", from: 1934, to: 1969, court: "Cal. Ct. App." },
+  { abbreviation: "Cal. App. 3d", name: "California Appellate Reports, Third Series", from: 1969, to: 1991, court: "Cal. Ct. App." },
+  { abbreviation: "Cal. App. 4th", name: "California Appellate Reports, Fourth Series", from: 1991, to: 2016, court: "Cal. Ct. App." },
+  { abbreviation: "Cal. App. 5th", name: "California Appellate Reports, Fifth Series", from: 2016, court: "Cal. Ct. App." },
+  { abbreviation: "Cal. Rptr.", name: "California Reporter", from: 1959, to: 1991 },
+  { abbreviation: "Cal. Rptr. 2d", name: "California Reporter, Second Series", from: 1991, to: 2003 },
+  { abbreviation: "Cal. Rptr. 3d", name: "California Reporter, Third Series", from: 2003 },
+  { abbreviation: "N.Y.", name: "New York Reports", from: 1847, to: 1956, court: "N.Y." },
+  { abbreviation: "N.Y.2d", name: "New York Reports, Second Series", from: 1956, to: 2004, court: "N.Y." },
+  { abbreviation: "N.Y.3d", name: "New York Reports, Third Series", from: 2003, court: "N.Y." },
+  { abbreviation: "A.D.", name: "Appellate Division Reports", from: 1896, to: 1955, court: "N.Y. App. Div." },
+  { abbreviation: "A.D.2d", name: "Appellate Division Reports, Second Series", from: 1955, to: 2004, court: "N.Y. App. Div." },
+  { abbreviation: "A.D.3d", name: "Appellate Division Reports, Third Series", from: 2003, court: "N.Y. App. Div." },
+  { abbreviation: "N.Y.S.", name: "New York Supplement", from: 1888, to: 1938 },
+  { abbreviation: "N.Y.S.2d", name: "New York Supplement, Second Series", from: 1938, to: 2015 },
+  { abbreviation: "N.Y.S.3d", name: "New York Supplement, Third Series", from: 2015 },
+  { abbreviation: "N.E.", name: "North Eastern Reporter", from: 1885, to: 1936 },
+  { abbreviation: "N.E.2d", name: "North Eastern Reporter, Second Series", from: 1936, to: 2014 },
+  { abbreviation: "N.E.3d", name: "North Eastern Reporter, Third Series", from: 2014 },
+  { abbreviation: "A.", name: "Atlantic Reporter", from: 1885, to: 1938 },
+  { abbreviation: "A.2d", name: "Atlantic Reporter, Second Series", from: 1938, to: 2010 },
+  { abbreviation: "A.3d", name: "Atlantic Reporter, Third Series", from: 2010 },
+  { abbreviation: "P.", name: "Pacific Reporter", from: 1883, to: 1931 },
+  { abbreviation: "P.2d", name: "Pacific Reporter, Second Series", from: 1931, to: 2000 },
+  { abbreviation: "P.3d", name: "Pacific Reporter, Third Series", from: 2000 },
+  { abbreviation: "N.W.", name: "North Western Reporter", from: 1879, to: 1942 },
+  { abbreviation: "N.W.2d", name: "North Western Reporter, Second Series", from: 1941 },
+  { abbreviation: "S.W.", name: "South Western Reporter", from: 1886, to: 1928 },
+  { abbreviation: "S.W.2d", name: "South Western Reporter, Second Series", from: 1928, to: 1999 },
+  { abbreviation: "S.W.3d", name: "South Western Reporter, Third Series", from: 1999 },
+  { abbreviation: "So.", name: "Southern Reporter", from: 1887, to: 1941 },
+  { abbreviation: "So. 2d", name: "Southern Reporter, Second Series", from: 1941, to: 2008, variants: ["So.2d"] },
+  { abbreviation: "So. 3d", name: "Southern Reporter, Third Series", from: 2008, variants: ["So.3d"] },
+  { abbreviation: "S.E.", name: "South Eastern Reporter", from: 1887, to: 1939 },
+  { abbreviation: "S.E.2d", name: "South Eastern Reporter, Second Series", from: 1939 },
+];
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// "S. Ct." also matches "S.Ct." and "S.  Ct.": spacing after a period is never significant
+const toPattern = (form: string) =>
+  escapeRegExp(form)
+    .replace(/\\\.(?=.)/g, "\\.\\s*")
+    .replace(/ /g, "\\s*");
+
+const forms = REPORTERS.flatMap((reporter) =>
+  [reporter.abbreviation, ...(reporter.variants || [])].map((form) => ({ form, reporter }))
+);
+
+// Longest first so "F. Supp. 2d" wins over "F. Supp." and "F."
+export const REPORTER_PATTERN = forms
+  .map(({ form }) => toPattern(form))
+  .sort((a, b) => b.length - a.length)
+  .join("|");
+
+const compact = (value: string) => value.replace(/[\s’]/g, "").replace(/'/g, "").toLowerCase();
+
+const lookup = new Map(forms.map(({ form, reporter }) => [compact(form), reporter]));
+
+export function findReporter(text: string): Reporter | undefined {
+  return lookup.get(compact(text));
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { buildTableOfAuthorities, renderTableOfAuthorities } from "./authorities";
+import { buildReviewDocx, buildTableOfAuthoritiesDocx, buildTrackedChangesDocx } from "./docx-export";
+import { renderMemoPdf } from "./memo-pdf";
+import { buildMemoReport, renderMemoHtml } from "./memo-report";
+import type { SharedReview, StoredReview } from "./types";
+
+// The downloads a review offers, shared by /api/reviews/<id>/* and /api/shares/<token>/*.
+// `label` names the review in the server log only.
+
+const baseName = (review: SharedReview) => (review.fileName || "brief").replace(/\.[^.]+$/, "").replace(/[^\w.-]+/g, "_");
+
+/** The brief as Word: a comment on each finding, or ?changes=tracked for the accepted fixes. */
+export async function docxResponse(req: Request, review: SharedReview, label: string): Promise<NextResponse> {
+  const tracked = new URL(req.url).searchParams.get("changes") === "tracked";
+  const buffer = tracked ? await buildTrackedChangesDocx(review) : await buildReviewDocx(review);
+  console.log(`Exported ${label} as DOCX${tracked ? " with tracked changes" : ""} (${buffer.length} bytes)`);
+
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "Content-Disposition": `attachment; filename="${baseName(review)}-${tracked ? "tracked-changes" : "review"}.docx"`,
+    },
+  });
+}
+
+/** The review memorandum as ?format=pdf (the default) or html, laid out from the stored memo only. */
+export async function memoResponse(req: Request, review: StoredReview | SharedReview, label: string): Promise<NextResponse> {
+  const format = new URL(req.url).searchParams.get("format") || "pdf";
+  if (format !== "pdf" && format !== "html") {
+    return NextResponse.json({ error: "format must be pdf or html" }, { status: 400 });
+  }
+
+  const report = buildMemoReport(review);
+  if (format === "html") {
+    return new NextResponse(renderMemoHtml(report), {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  }
+
+  const buffer = await renderMemoPdf(report);
+  console.log(`Rendered review memo for ${label} (${buffer.length} bytes)`);
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `attachment; filename="${baseName(review)}-review-memo.pdf"`,
+    },
+  });
+}
+
+/** The Table of Authorities as ?format=docx (the default) or txt. */
+export async function tableOfAuthoritiesResponse(req: Request, review: SharedReview, label: string): Promise<NextResponse> {
+  const format = new URL(req.url).searchParams.get("format") || "docx";
+  if (format !== "docx" && format !== "txt") {
+    return NextResponse.json({ error: "format must be docx or txt" }, { status: 400 });
+  }
+
+  // Reviews saved before the table was generated get it built from their citations now
+  const table = review.memo.tableOfAuthorities || buildTableOfAuthorities(review.document, review.memo.citations, review.memo.pages);
+
+  if (format === "txt") {
+    return new NextResponse(renderTableOfAuthorities(table), {
+      headers: {
+        "Content-Type": "text/plain; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${baseName(review)}-table-of-authorities.txt"`,
+      },
+    });
+  }
+
+  const buffer = await buildTableOfAuthoritiesDocx(review, table);
+  console.log(`Exported Table of Authorities for ${label} (${table.entries.length} authorities, ${buffer.length} bytes)`);
+  return new NextResponse(new Uint8Array(buffer), {
+    headers: {
+      "Content-Type": "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+      "Content-Disposition": `attachment; filename="${baseName(review)}-table-of-authorities.docx"`,
+    },
+  });
+}
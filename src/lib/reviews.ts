@@ -0,0 +1,319 @@
+import { createHash, randomBytes, randomUUID, timingSafeEqual } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import { compareReviews, summarizeReview, type ReviewComparison } from "./compare";
+import { MAX_DOCUMENT_CHARS } from "./investigate";
+import type { MatterDraft, SavedReview, SaveReviewRequest, SharedReview, ShareLink, StoredReview } from "./types";
+
+// One JSON file per review, plus one per share link under shares/ and the matter index under index/
+export const REVIEWS_DIR = process.env.REVIEWS_DIR || path.join(process.cwd(), "data", "reviews");
+const SHARES_DIR = path.join(REVIEWS_DIR, "shares");
+const MATTER_INDEX = path.join(REVIEWS_DIR, "index", "matters.json");
+
+export const DEFAULT_SHARE_DAYS = 7;
+export const MAX_SHARE_DAYS = 90;
+
+// How far back a chain of linked drafts is followed
+const MAX_DRAFTS = 20;
+
+// Ids and tokens are random base64url; anything else is rejected before touching the disk
+const ID_PATTERN = /^[A-Za-z0-9_-]{12,64}$/;
+
+const newId = (bytes: number) => randomBytes(bytes).toString("base64url");
+
+export const hashDocument = (document: string) => createHash("sha256").update(document, "utf8").digest("hex");
+
+/**
+ * Whether `key` is the owner key handed out when the review was saved. Share links are
+ * managed with it, so knowing a review's id is not enough to share or revoke.
+ */
+export function hasOwnerKey(review: StoredReview, key: string | null): boolean {
+  if (!key || !review.ownerKeyHash) return false;
+  return timingSafeEqual(Buffer.from(hashDocument(key), "hex"), Buffer.from(review.ownerKeyHash, "hex"));
+}
+
+async function readJson<T>(file: string): Promise<T | null> {
+  try {
+    return JSON.parse(await fs.readFile(file, "utf8")) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+// Reviews saved before the quotation, support, statute and authorities checks have no results from them; read them as having none
+async function readReview(file: string): Promise<StoredReview | null> {
+  const review = await readJson<StoredReview>(file);
+  if (review) {
+    review.memo.quotationIssues ??= [];
+    review.memo.quotations ??= null;
+    review.memo.support ??= null;
+    review.memo.statutes ??= null;
+    review.memo.treatment ??= null;
+    review.memo.tableOfAuthorities ??= null;
+  }
+  return review;
+}
+
+const locks = new Map<string, Promise<unknown>>();
+
+// Runs read-modify-write tasks on the same key one after another; requests can overlap
+function serialize<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const run = (locks.get(key) || Promise.resolve()).catch(() => undefined).then(task);
+  locks.set(key, run);
+  run.catch(() => undefined).finally(() => {
+    if (locks.get(key) === run) locks.delete(key);
+  });
+  return run;
+}
+
+// Write-then-rename so a crash never leaves a half-written review behind. Each write has
+// its own temp file, so two writes to the same file never share one.
+async function writeJson(file: string, value: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const temp = `${file}.${randomUUID()}.tmp`;
+  await fs.writeFile(temp, JSON.stringify(value), "utf8");
+  await fs.rename(temp, file);
+}
+
+/**
+ * Checks the body of POST /api/reviews. Returns the typed request, or an error message
+ * suitable for a 400 response.
+ */
+export function parseSaveReviewRequest(body: unknown): SaveReviewRequest | string {
+  if (!body || typeof body !== "object") return "Request body must be a JSON object";
+  const { document, fileName, matter, previousReviewId, previousDraft, memo } = body as Record<string, unknown>;
+
+  if (typeof document !== "string" || !document.trim()) return "document must be a non-empty string";
+  if (document.length > MAX_DOCUMENT_CHARS) return `document exceeds ${MAX_DOCUMENT_CHARS.toLocaleString()} characters`;
+  if (fileName !== undefined && (typeof fileName !== "string" || fileName.length > 255)) {
+    return "fileName must be a string of at most 255 characters";
+  }
+  if (matter !== undefined && (typeof matter !== "string" || matter.length > 255)) {
+    return "matter must be a string of at most 255 characters";
+  }
+  if (previousReviewId !== undefined && (typeof previousReviewId !== "string" || !ID_PATTERN.test(previousReviewId))) {
+    return "previousReviewId must be a review id";
+  }
+  if (previousDraft !== undefined && (typeof previousDraft !== "string" || !ID_PATTERN.test(previousDraft))) {
+    return "previousDraft must be a draft handle";
+  }
+  if (previousReviewId !== undefined && previousDraft !== undefined) return "Give previousReviewId or previousDraft, not both";
+  if (!memo || typeof memo !== "object") return "memo must be an object";
+  const { filingVerdict, criticalIssues, hallucinationSignals, formattingIssues, quotationIssues } = memo as Record<string, unknown>;
+  if (!filingVerdict || typeof filingVerdict !== "object") return "memo.filingVerdict must be an object";
+  if (![criticalIssues, hallucinationSignals, formattingIssues].every(Array.isArray)) {
+    return "memo must include criticalIssues, hallucinationSignals and formattingIssues arrays";
+  }
+  if (quotationIssues !== undefined && !Array.isArray(quotationIssues)) return "memo.quotationIssues must be an array";
+
+  return {
+    document,
+    fileName: fileName as string | undefined,
+    matter: (matter as string | undefined)?.trim() || undefined,
+    previousReviewId: previousReviewId as string | undefined,
+    previousDraft: previousDraft as string | undefined,
+    memo: { quotations: null, support: null, statutes: null, treatment: null, tableOfAuthorities: null, ...memo, quotationIssues: quotationIssues || [] } as SaveReviewRequest["memo"],
+  };
+}
+
+export async function saveReview(request: SaveReviewRequest): Promise<SavedReview> {
+  const ownerKey = newId(24);
+  const review: StoredReview = {
+    id: newId(12),
+    createdAt: new Date().toISOString(),
+    fileName: request.fileName || null,
+    matter: request.matter || null,
+    documentHash: hashDocument(request.document),
+    document: request.document,
+    memo: request.memo,
+    previousReviewId: request.previousReviewId || null,
+    ownerKeyHash: hashDocument(ownerKey),
+  };
+  await writeJson(path.join(REVIEWS_DIR, `${review.id}.json`), review);
+  await indexMatter(review);
+  return { ...review, ownerKey };
+}
+
+export async function loadReview(id: string): Promise<StoredReview | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  return readReview(path.join(REVIEWS_DIR, `${id}.json`));
+}
+
+// Each matter's reviews, newest first, keyed by the matter ignoring case and spacing
+type MatterIndex = Record<string, Array<MatterDraft & { reviewId: string }>>;
+
+const matterKey = (matter: string) => matter.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Adds or refreshes a review's entry; its draft handle stays the same
+function addToIndex(index: MatterIndex, review: StoredReview): void {
+  const key = matterKey(review.matter!);
+  const entries = index[key] || [];
+  const { createdAt, fileName, score, readiness } = summarizeReview(review);
+  const draft = entries.find((entry) => entry.reviewId === review.id)?.draft || newId(12);
+  index[key] = [...entries.filter((entry) => entry.reviewId !== review.id), { draft, reviewId: review.id, createdAt, fileName, score, readiness }].sort(
+    (a, b) => b.createdAt.localeCompare(a.createdAt)
+  );
+}
+
+// The matter index; reviews saved before it existed are indexed the first time it is read
+async function readMatterIndex(): Promise<MatterIndex> {
+  const index = await readJson<MatterIndex>(MATTER_INDEX);
+  if (index) return index;
+  const built: MatterIndex = {};
+  let files: string[] = [];
+  try {
+    files = await fs.readdir(REVIEWS_DIR);
+  } catch {
+    // No reviews yet
+  }
+  for (const file of files.filter((name) => name.endsWith(".json"))) {
+    const review = await readReview(path.join(REVIEWS_DIR, file));
+    if (review?.matter) addToIndex(built, review);
+  }
+  await writeJson(MATTER_INDEX, built);
+  return built;
+}
+
+// Records a saved or updated review of a matter in the index
+const indexMatter = (review: StoredReview) =>
+  review.matter
+    ? serialize(MATTER_INDEX, async () => {
+        const index = await readMatterIndex();
+        addToIndex(index, review);
+        await writeJson(MATTER_INDEX, index);
+      })
+    : Promise.resolve();
+
+/** Earlier reviews of a matter for the upload screen, newest first, without their review ids. */
+export async function listMatterDrafts(matter: string): Promise<MatterDraft[]> {
+  const index = await serialize(MATTER_INDEX, readMatterIndex);
+  return (index[matterKey(matter)] || []).map(({ draft, createdAt, fileName, score, readiness }) => ({ draft, createdAt, fileName, score, readiness }));
+}
+
+/** The review id behind a draft handle from listMatterDrafts, or null when there is none. */
+export async function resolveMatterDraft(draft: string): Promise<string | null> {
+  if (!ID_PATTERN.test(draft)) return null;
+  const index = await serialize(MATTER_INDEX, readMatterIndex);
+  for (const entries of Object.values(index)) {
+    const entry = entries.find((candidate) => candidate.draft === draft);
+    if (entry) return entry.reviewId;
+  }
+  return null;
+}
+
+/**
+ * The reviews of the drafts before `review`, oldest first, following each review's link
+ * to the previous draft. Stops at a missing review or a link back into the chain.
+ */
+export async function loadEarlierDrafts(review: StoredReview): Promise<StoredReview[]> {
+  const drafts: StoredReview[] = [];
+  const seen = new Set([review.id]);
+  let id = review.previousReviewId;
+  while (id && !seen.has(id) && drafts.length < MAX_DRAFTS) {
+    seen.add(id);
+    const draft = await loadReview(id);
+    if (!draft) break;
+    drafts.unshift(draft);
+    id = draft.previousReviewId;
+  }
+  return drafts;
+}
+
+/**
+ * Compares a review with the review of an earlier draft: `previousId` when given,
+ * otherwise the draft it is linked to. Null when there is no such review.
+ */
+export async function loadComparison(review: StoredReview, previousId?: string): Promise<ReviewComparison | null> {
+  const previous = previousId ? await loadReview(previousId) : (await loadEarlierDrafts(review)).pop();
+  if (!previous || previous.id === review.id) return null;
+  const history = await loadEarlierDrafts(previous);
+  return compareReviews(previous, review, history.map(summarizeReview));
+}
+
+/**
+ * Rewrites a stored review in place, e.g. after the reviewer accepts a fix. `change` gets
+ * the review as stored and returns the new one, or null to leave it alone. Changes to one
+ * review run one at a time, so overlapping triage and fix requests each see the other's
+ * write. Returns the updated review, or null when there is no such review or no change.
+ */
+export async function updateReview(id: string, change: (review: StoredReview) => StoredReview | null): Promise<StoredReview | null> {
+  if (!ID_PATTERN.test(id)) return null;
+  const file = path.join(REVIEWS_DIR, `${id}.json`);
+  const updated = await serialize(file, async () => {
+    const review = await readReview(file);
+    const next = review && change(review);
+    if (next) await writeJson(file, next);
+    return next;
+  });
+  // Triage changes the score the upload screen shows
+  if (updated) await indexMatter(updated);
+  return updated;
+}
+
+export async function createShareLink(reviewId: string, days = DEFAULT_SHARE_DAYS): Promise<ShareLink> {
+  const now = Date.now();
+  const link: ShareLink = {
+    token: newId(24),
+    reviewId,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + Math.min(Math.max(days, 1), MAX_SHARE_DAYS) * 86_400_000).toISOString(),
+    revokedAt: null,
+  };
+  await writeJson(path.join(SHARES_DIR, `${link.token}.json`), link);
+  return link;
+}
+
+export async function listShareLinks(reviewId: string): Promise<ShareLink[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(SHARES_DIR);
+  } catch {
+    return [];
+  }
+  const links = await Promise.all(
+    files.filter((file) => file.endsWith(".json")).map((file) => readJson<ShareLink>(path.join(SHARES_DIR, file)))
+  );
+  return links
+    .filter((link): link is ShareLink => link?.reviewId === reviewId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/** Revokes a share link. Returns the updated link, or null when it does not belong to the review. */
+export async function revokeShareLink(reviewId: string, token: string): Promise<ShareLink | null> {
+  if (!ID_PATTERN.test(token)) return null;
+  const file = path.join(SHARES_DIR, `${token}.json`);
+  const link = await readJson<ShareLink>(file);
+  if (!link || link.reviewId !== reviewId) return null;
+  if (!link.revokedAt) {
+    link.revokedAt = new Date().toISOString();
+    await writeJson(file, link);
+  }
+  return link;
+}
+
+export type ShareResolution =
+  | { status: "active"; link: ShareLink; review: StoredReview }
+  | { status: "expired" | "revoked"; link: ShareLink }
+  | { status: "not_found" };
+
+/** The review without its own id or its previous draft's, either of which would grant access after the link lapses. */
+export function toSharedReview(review: StoredReview): SharedReview {
+  const shared: SharedReview & Partial<Pick<StoredReview, "id" | "previousReviewId" | "ownerKeyHash">> = { ...review };
+  delete shared.id;
+  delete shared.previousReviewId;
+  delete shared.ownerKeyHash;
+  return shared;
+}
+
+/** Looks up the review behind a share token, refusing revoked and expired links. */
+export async function resolveShareLink(token: string): Promise<ShareResolution> {
+  if (!ID_PATTERN.test(token)) return { status: "not_found" };
+  const link = await readJson<ShareLink>(path.join(SHARES_DIR, `${token}.json`));
+  if (!link) return { status: "not_found" };
+  if (link.revokedAt) return { status: "revoked", link };
+  if (Date.parse(link.expiresAt) <= Date.now()) return { status: "expired", link };
+
+  const review = await loadReview(link.reviewId);
+  return review ? { status: "active", link, review } : { status: "not_found" };
+}
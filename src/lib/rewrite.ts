@@ -0,0 +1,273 @@
+import { anchorQuote, CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, type HighlightCategory } from "./anchoring";
+import { verifyCitations } from "./case-index";
+import { extractCitations, shortCaseName, type Citation } from "./citations";
+import { findCourt } from "./courts";
+import { diffWords } from "./diff";
+import { extractJson, InvalidModelOutputError, MAX_REPAIR_ATTEMPTS, PROVIDER_IDS, resolveProvider, type ChatMessage, type LlmProvider } from "./llm";
+import { buildRewritePrompt, REWRITE_PROMPT_VERSION, REWRITE_SYSTEM_PROMPT } from "./prompts";
+import type { ProviderId, RewriteRequest, RewriteResponse, StoredReview, VerifiedAuthority } from "./types";
+import { citeKey, type VerificationReport } from "./verification";
+
+// A finding that cannot be rewritten; `status` is the HTTP status to surface
+export class RewriteError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "RewriteError";
+  }
+}
+
+/**
+ * Checks the body of POST /api/rewrite. Returns the typed request, or an error message
+ * suitable for a 400 response.
+ */
+export function parseRewriteRequest(body: unknown): RewriteRequest | string {
+  if (!body || typeof body !== "object") return "Request body must be a JSON object";
+  const { reviewId, category, index, options } = body as Record<string, unknown>;
+
+  if (typeof reviewId !== "string" || !reviewId) return "reviewId must be a non-empty string";
+  if (!HIGHLIGHT_CATEGORIES.includes(category as HighlightCategory)) {
+    return `category must be one of ${HIGHLIGHT_CATEGORIES.join(", ")}`;
+  }
+  if (typeof index !== "number" || !Number.isInteger(index) || index < 0) return "index must be a non-negative integer";
+  if (options !== undefined && (!options || typeof options !== "object")) return "options must be an object";
+
+  const { provider, model } = (options || {}) as Record<string, unknown>;
+  if (provider !== undefined && !PROVIDER_IDS.includes(provider as ProviderId)) {
+    return `options.provider must be one of ${PROVIDER_IDS.join(", ")}`;
+  }
+  if (model !== undefined && (typeof model !== "string" || model.length > 200)) {
+    return "options.model must be a string of at most 200 characters";
+  }
+
+  return {
+    reviewId,
+    category: category as HighlightCategory,
+    index,
+    options: { provider: provider as ProviderId | undefined, model: model as string | undefined },
+  };
+}
+
+// Sentence ends: terminal punctuation (not after a reporter or "v.") followed by a space and a capital, or a blank line
+const SENTENCE_END = /(?<!\b(?:v|U\.S|[A-Z]|[A-Z][a-z]{1,3}|\d+[a-z]{1,2})\.)[.!?]["”’)]*\s+(?=["“(]?[A-Z])|\n\s*\n/g;
+
+/** Widens a span to the sentence(s) it sits in, so the rewrite replaces whole sentences. */
+export function sentenceAround(text: string, start: number, end: number): { start: number; end: number } {
+  let sentenceStart = 0;
+  let sentenceEnd = text.length;
+  for (const match of Array.from(text.matchAll(SENTENCE_END))) {
+    const boundary = match.index! + match[0].length;
+    if (boundary <= start) sentenceStart = boundary;
+    else if (match.index! >= end - 1) {
+      sentenceEnd = match.index! + match[0].trimEnd().length;
+      break;
+    }
+  }
+  return { start: sentenceStart, end: Math.max(sentenceEnd, end) };
+}
+
+/**
+ * Authorities a rewrite may cite: every citation the case index confirmed, plus the real
+ * case behind a citation the brief got wrong. All are formatted from the index record.
+ */
+export function verifiedAuthorities(report: VerificationReport | null): VerifiedAuthority[] {
+  if (!report) return [];
+  const seen = new Set<string>();
+  const authorities: VerifiedAuthority[] = [];
+
+  for (const verification of report.verifications) {
+    const record = verification.match;
+    if (!record || (verification.status !== "verified" && verification.status !== "mismatch")) continue;
+    if (seen.has(record.id)) continue;
+    seen.add(record.id);
+
+    // Supreme Court parentheticals carry only the year
+    const court = findCourt(record.court)?.abbreviation;
+    const courtText = court && court !== "U.S." ? `${court} ` : "";
+    authorities.push({
+      id: `A${authorities.length + 1}`,
+      citationId: verification.citationId,
+      citation: `${record.caseName}, ${verification.citeKey} (${courtText}${record.year})`,
+      corrected: verification.status === "mismatch",
+    });
+  }
+
+  return authorities;
+}
+
+const PLACEHOLDER = /\[CITATION NEEDED[^\]]*\]/g;
+const UNVERIFIED_CITATION = "[CITATION NEEDED: verified authority to replace an unverified citation]";
+const UNVERIFIED_CASE = "[CITATION NEEDED: verified authority to replace an unverified case]";
+
+// Words that open a sentence or a citation clause but are never part of a case name
+const LEADING = String.raw`(?:See|In|Under|As|But|Cf\.|Accord|Compare|Also|Here|Because|After|Since|Following|Like|Unlike|Citing|Quoting|While|Although|When|Before|Thus|Accordingly|Moreover|However|And)`;
+const LEADING_WORDS = new RegExp(String.raw`^(?:${LEADING}\s+)+`);
+// A party's name: capitalized words and the connectors between them ("Board of Education").
+// A connector only counts with a name word after it, so the prose that follows stays out;
+// the name runs on past a period only after an abbreviation ("Corp.", "Inc.").
+const NAME_WORD = String.raw`[A-Z][\w'’&-]*\.?`;
+const PARTY = String.raw`${NAME_WORD}(?:(?:(?<!\.)|(?<=\b[A-Z][a-z]{0,3}\.)(?!\s+(?:${LEADING}|The)\b))(?:\s+(?:of|the|and|for|&))*\s+${NAME_WORD})*`;
+// A case named in prose: "Smith v. Jones", "In re Grand Jury Subpoena"
+const CASE_NAME = new RegExp(String.raw`\b(?:(?:In re|Ex parte)\s+${PARTY}|${PARTY}\s+v\.\s+${PARTY})`, "g");
+// The case name a short form opens with: "Twombly, " in "Twombly, 550 U.S. at 556"
+const NAME_BEFORE = new RegExp(String.raw`(?:${PARTY}\s+v\.\s+)?${PARTY},\s*$`);
+
+// Offset a case name really starts at, once any leading signal or sentence word is dropped
+function nameStart(name: string, start: number): number {
+  if (/^(?:In re|Ex parte)\s/.test(name)) return start;
+  return start + (name.match(LEADING_WORDS)?.[0].length || 0);
+}
+
+// Where a citation's removal starts: a short form takes the case name written before it
+function citationStart(text: string, citation: Citation): number {
+  if (citation.kind !== "short") return citation.fullStart;
+  const window = text.slice(Math.max(0, citation.fullStart - 120), citation.fullStart);
+  const name = window.match(NAME_BEFORE);
+  return name ? nameStart(name[0], citation.fullStart - window.length + name.index!) : citation.fullStart;
+}
+
+/**
+ * Turns the model's draft into text that cites only verified authorities: tokens become
+ * the exact citation and unknown tokens become placeholders. So does anything the model
+ * cited itself unless it leads back to a verified authority: a full citation the index
+ * confirmed, a short form, id. or supra whose antecedent is one, or a case named in prose
+ * that is one of them.
+ */
+export function groundReplacement(
+  draft: string,
+  authorities: VerifiedAuthority[]
+): { replacement: string; used: VerifiedAuthority[]; removed: string[] } {
+  const used = new Set<VerifiedAuthority>();
+  const removed: string[] = [];
+
+  // Tokens are expanded first, so the citations they become anchor the short forms after them
+  const text = draft.replace(/\{\{\s*(A\d+)\s*\}\}/g, (token, id: string) => {
+    const authority = authorities.find((candidate) => candidate.id === id);
+    if (!authority) {
+      removed.push(token);
+      return "[CITATION NEEDED: authority for this proposition]";
+    }
+    used.add(authority);
+    return authority.citation;
+  });
+
+  const known = authorities
+    .map((authority) => extractCitations(authority.citation).find((citation) => citation.kind === "full"))
+    .filter((citation): citation is Citation => !!citation);
+  const knownName = (name: string | undefined) =>
+    !!name && known.some((citation) => !!citation.caseName && (citation.caseName.includes(name) || shortCaseName(citation.caseName) === shortCaseName(name)));
+
+  const citations = extractCitations(text);
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const verified = new Set<string>();
+  const spans: Array<{ start: number; end: number; placeholder: string }> = [];
+
+  for (const citation of citations) {
+    const group = [citation, ...citation.parallel.map((id) => byId.get(id)!)];
+    const fromAntecedent = !!citation.antecedentId && verified.has(citation.antecedentId);
+    const ok =
+      citation.kind === "full"
+        ? group.some((cite) => authorities.some((authority) => authority.citation.includes(citeKey(cite.volume, cite.reporter, cite.page))))
+        : citation.kind === "short"
+          ? fromAntecedent || known.some((cite) => cite.volume === citation.volume && cite.reporter === citation.reporter)
+          : citation.kind === "supra"
+            ? fromAntecedent || knownName(citation.caseName)
+            : fromAntecedent;
+    if (ok) verified.add(citation.id);
+    // Parallel cites share one span
+    else if (!spans.some((span) => span.start <= citation.fullStart && span.end >= citation.fullEnd)) {
+      spans.push({ start: citationStart(text, citation), end: citation.fullEnd, placeholder: UNVERIFIED_CITATION });
+    }
+  }
+
+  const cited = [...citations.map((citation) => ({ start: citation.fullStart, end: citation.fullEnd })), ...spans];
+  for (const match of Array.from(text.matchAll(CASE_NAME))) {
+    const start = nameStart(match[0], match.index!);
+    // A period after the last party ends the sentence, not the name
+    let end = match.index! + match[0].length;
+    if (text[end - 1] === "." && /^(?:\s+["“(]?[A-Z]|\s*$)/.test(text.slice(end))) end--;
+    if (cited.some((span) => start < span.end && end > span.start) || knownName(text.slice(start, end))) continue;
+    spans.push({ start, end, placeholder: UNVERIFIED_CASE });
+  }
+
+  let replacement = text;
+  spans.sort((a, b) => a.start - b.start);
+  removed.push(...spans.map((span) => text.slice(span.start, span.end)));
+  for (const span of [...spans].reverse()) {
+    replacement = `${replacement.slice(0, span.start)}${span.placeholder}${replacement.slice(span.end)}`;
+  }
+
+  return { replacement: replacement.trim(), used: Array.from(used), removed };
+}
+
+/**
+ * Proposes replacement text for one finding of a stored review. Citations are re-verified
+ * against the case index first, so only authorities confirmed now can appear in the draft.
+ */
+export async function runRewrite(
+  review: StoredReview,
+  request: RewriteRequest,
+  provider: LlmProvider = resolveProvider(request.options)
+): Promise<RewriteResponse> {
+  const issue = review.memo[CATEGORY_FIELDS[request.category]][request.index];
+  if (!issue) throw new RewriteError("Issue not found in this review", 404);
+
+  const anchor =
+    issue.start !== undefined && issue.end !== undefined ? { start: issue.start, end: issue.end } : anchorQuote(review.document, issue.quote);
+  if (!anchor) throw new RewriteError("The flagged text could not be located in the document", 422);
+
+  const span = sentenceAround(review.document, anchor.start, anchor.end);
+  const original = review.document.slice(span.start, span.end);
+  const authorities = verifiedAuthorities(await verifyCitations(review.memo.citations));
+  const problem = [
+    "problem" in issue ? issue.problem : "",
+    "pattern" in issue ? `${issue.pattern}. ${issue.risk}` : "",
+    "missingAuthority" in issue ? `Needed: ${issue.missingAuthority}` : "",
+    "recommendation" in issue ? `Recommendation: ${issue.recommendation}` : "",
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+  const conversation: ChatMessage[] = [
+    { role: "system", content: REWRITE_SYSTEM_PROMPT },
+    { role: "user", content: buildRewritePrompt({ passage: original, quote: issue.quote, problem, authorities }) },
+  ];
+
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await provider.complete(conversation);
+    const parsed = extractJson(content);
+    const value = "value" in parsed ? (parsed.value as Record<string, unknown> | null) : null;
+
+    errors = "error" in parsed ? [parsed.error] : [];
+    if (!errors.length && (typeof value?.replacement !== "string" || !value.replacement.trim())) {
+      errors.push("replacement must be a non-empty string");
+    }
+    if (!errors.length && typeof value?.replacement === "string" && value.replacement.length > original.length * 4 + 500) {
+      errors.push("replacement must revise the passage, not expand it into a new one");
+    }
+
+    if (!errors.length && value) {
+      const { replacement, used, removed } = groundReplacement(value.replacement as string, authorities);
+      return {
+        ...span,
+        original,
+        replacement,
+        diff: diffWords(original, replacement),
+        authorities: used,
+        placeholders: replacement.match(PLACEHOLDER) || [],
+        removed,
+        explanation: typeof value.explanation === "string" ? value.explanation : "",
+        model: provider.info,
+        promptVersion: REWRITE_PROMPT_VERSION,
+      };
+    }
+
+    console.warn(`Rewrite failed validation (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, errors);
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: `Your previous response failed validation:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nReturn the corrected JSON object only.` }
+    );
+  }
+
+  throw new InvalidModelOutputError(errors);
+}
@@ -0,0 +1,22 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { DEFAULT_SCORING_MODEL, parseScoringModel, type ScoringModel } from "./scoring";
+
+// A firm's scoring model; see data/scoring.example.json
+export const SCORING_MODEL_PATH = process.env.SCORING_MODEL_PATH || path.join(process.cwd(), "data", "scoring.json");
+
+/**
+ * Loads the firm's scoring model, or the default when none is configured. A model file
+ * that fails validation is an error rather than a silent fallback to the default.
+ */
+export async function loadScoringModel(): Promise<ScoringModel> {
+  let content: string;
+  try {
+    content = await fs.readFile(SCORING_MODEL_PATH, "utf8");
+  } catch {
+    return DEFAULT_SCORING_MODEL;
+  }
+  const model = parseScoringModel(JSON.parse(content));
+  if (typeof model === "string") throw new Error(`Invalid scoring model in ${SCORING_MODEL_PATH}: ${model}`);
+  return model;
+}
@@ -0,0 +1,263 @@
+import { CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, type HighlightCategory } from "./anchoring";
+import type { CriticalIssue, FilingReadiness, FormattingIssue, HallucinationSignal, LegalReviewMemo, QuotationIssue, Severity } from "./types";
+import { verificationForIssue } from "./verification";
+
+export const SEVERITIES: Severity[] = ["critical", "high", "medium", "low"];
+
+/**
+ * How findings become a risk score and a filing verdict. The default below applies unless
+ * the server has a firm's own model in data/scoring.json (see scoring-config.ts); the
+ * model used is stored on each memo so later recomputation gives the same answer.
+ */
+export interface ScoringModel {
+  // Recorded on the memo, e.g. "default-v1" or "smith-llp-2026"
+  name: string;
+  // Points one finding of each severity takes off 100, scaled by its confidence
+  severityPoints: Record<Severity, number>;
+  // Most points one category can take off, so formatting alone cannot sink a brief
+  categoryCaps: Record<HighlightCategory, number>;
+  // At or above `safe` the brief is safe to file; below `doNotFile` it is not
+  thresholds: { safe: number; doNotFile: number };
+  // A critical finding at or above this confidence counts as confirmed and forces do_not_file
+  confirmedConfidence: number;
+}
+
+export const DEFAULT_SCORING_MODEL: ScoringModel = {
+  name: "default-v1",
+  severityPoints: { critical: 45, high: 15, medium: 6, low: 2 },
+  categoryCaps: { hallucination: 100, critical: 80, quotation: 60, formatting: 30 },
+  thresholds: { safe: 70, doNotFile: 40 },
+  confirmedConfidence: 0.9,
+};
+
+type Issue = HallucinationSignal | CriticalIssue | QuotationIssue | FormattingIssue;
+type ScoredMemo = Pick<LegalReviewMemo, "hallucinationSignals" | "criticalIssues" | "quotationIssues" | "formattingIssues"> &
+  Partial<Pick<LegalReviewMemo, "citations" | "verification" | "coverage" | "scoring">>;
+
+export interface IssueAssessment {
+  severity: Severity;
+  confidence: number;
+}
+
+// Findings that do not state their own severity, by where they came from. The
+// deterministic checks are near-certain about what they found; the model is not.
+const SOURCE_DEFAULTS: Record<HighlightCategory, Record<string, IssueAssessment>> = {
+  hallucination: {
+    // Not in the case index at all
+    "case-index": { severity: "critical", confidence: 0.95 },
+    // A title or section number the code does not have
+    "code-index": { severity: "high", confidence: 0.85 },
+    // A reporter that did not exist in the cited year, a year in the future
+    "citation-parser": { severity: "high", confidence: 0.85 },
+    model: { severity: "high", confidence: 0.5 },
+  },
+  critical: {
+    // Resolves to a different case, court or year
+    "case-index": { severity: "high", confidence: 0.9 },
+    // A repealed or renumbered section
+    "code-index": { severity: "high", confidence: 0.9 },
+    // Reversed, vacated or overruled without that history in the citation; partial treatment states its own
+    citator: { severity: "high", confidence: 0.9 },
+    // A short form with no full citation to refer to
+    "citation-parser": { severity: "medium", confidence: 0.9 },
+    // The model's judgment against retrieved opinion passages; each finding states its own
+    "support-check": { severity: "high", confidence: 0.7 },
+    model: { severity: "medium", confidence: 0.5 },
+  },
+  quotation: {
+    // Each quotation finding states its own severity by how far the quote strays
+    "opinion-corpus": { severity: "high", confidence: 0.85 },
+    model: { severity: "medium", confidence: 0.5 },
+  },
+  formatting: {
+    "court-profile": { severity: "medium", confidence: 0.95 },
+    bluebook: { severity: "low", confidence: 0.9 },
+    // The brief's own Table of Authorities against its citations; each finding states its own
+    toa: { severity: "medium", confidence: 0.85 },
+    // An affirmance missing from the citation's subsequent history
+    citator: { severity: "medium", confidence: 0.9 },
+    model: { severity: "low", confidence: 0.5 },
+  },
+};
+
+/**
+ * Severity and confidence of one finding: its own when it states them, otherwise the
+ * default for its source. The case index outranks the model: a model finding about a
+ * citation the index verified drops to low confidence.
+ */
+export function assessIssue(category: HighlightCategory, issue: Issue, memo: ScoredMemo): IssueAssessment {
+  const fallback = SOURCE_DEFAULTS[category][issue.source || "model"] || SOURCE_DEFAULTS[category].model;
+  const assessment = {
+    severity: issue.severity || fallback.severity,
+    confidence: typeof issue.confidence === "number" ? issue.confidence : fallback.confidence,
+  };
+
+  if ((issue.source || "model") === "model" && (category === "hallucination" || category === "critical") && memo.citations && memo.verification) {
+    const checked = verificationForIssue(issue, memo.citations, memo.verification.verifications);
+    if (checked?.verification.status === "verified") {
+      return { severity: assessment.severity, confidence: Math.min(assessment.confidence, 0.2) };
+    }
+  }
+  return assessment;
+}
+
+// The memo with every finding carrying its severity and confidence, and the scoring model attached
+function withAssessments<T extends ScoredMemo>(memo: T, model: ScoringModel = DEFAULT_SCORING_MODEL): T {
+  const assessed = { ...memo, scoring: model };
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    const field = CATEGORY_FIELDS[category];
+    (assessed[field] as Issue[]) = (memo[field] as Issue[]).map((issue) => ({ ...issue, ...assessIssue(category, issue, memo) }));
+  }
+  return assessed;
+}
+
+export interface RiskMetrics {
+  // 0-100, higher is safer; its band always matches `readiness`
+  score: number;
+  hallucinations: number;
+  badLaw: number;
+  quotations: number;
+  formatting: number;
+  total: number;
+  // 0-100 per category, 100 when the category has no findings
+  subScores: Record<HighlightCategory, number>;
+  bySeverity: Record<Severity, number>;
+  readiness: FilingReadiness;
+  // Why the verdict is what it is, most serious first
+  reasons: string[];
+  model: string;
+}
+
+const CATEGORY_NAMES: Record<HighlightCategory, string> = {
+  hallucination: "hallucination signal",
+  critical: "critical issue",
+  quotation: "misquotation",
+  formatting: "formatting issue",
+};
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+/**
+ * Scores a memo with its scoring model. Each finding takes off its severity's points
+ * scaled by confidence, capped per category. The verdict is do_not_file below the
+ * do-not-file threshold or with any confirmed critical finding; file_with_caution below
+ * the safe threshold, with any critical or high finding, or when part of the brief went
+ * unreviewed; otherwise safe_to_file. The score is then held within the verdict's band,
+ * so a brief with a confirmed fabricated citation can never show green.
+ */
+export function computeRiskMetrics(memo: ScoredMemo, model: ScoringModel = memo.scoring || DEFAULT_SCORING_MODEL): RiskMetrics {
+  const bySeverity: Record<Severity, number> = { critical: 0, high: 0, medium: 0, low: 0 };
+  const subScores = {} as Record<HighlightCategory, number>;
+  const confirmed: string[] = [];
+  let deducted = 0;
+
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    let points = 0;
+    for (const issue of memo[CATEGORY_FIELDS[category]] as Issue[]) {
+      const { severity, confidence } = assessIssue(category, issue, memo);
+      bySeverity[severity]++;
+      points += model.severityPoints[severity] * Math.min(Math.max(confidence, 0), 1);
+      if (severity === "critical" && confidence >= model.confirmedConfidence) confirmed.push(CATEGORY_NAMES[category]);
+    }
+    const cap = model.categoryCaps[category];
+    const capped = Math.min(points, cap);
+    subScores[category] = cap > 0 ? Math.round(100 - (capped / cap) * 100) : 100;
+    deducted += capped;
+  }
+
+  const { safe, doNotFile } = model.thresholds;
+  let score = Math.max(0, Math.round(100 - deducted));
+  const reasons: string[] = [];
+  const unreviewed = memo.coverage?.sections.filter((section) => section.status === "failed").length || 0;
+  let readiness: FilingReadiness;
+
+  if (confirmed.length > 0) {
+    readiness = "do_not_file";
+    reasons.push(`${plural(confirmed.length, "confirmed critical finding")} (${Array.from(new Set(confirmed)).join(", ")})`);
+  } else if (score < doNotFile) {
+    readiness = "do_not_file";
+  } else if (score < safe || bySeverity.critical + bySeverity.high > 0 || unreviewed > 0) {
+    readiness = "file_with_caution";
+  } else {
+    readiness = "safe_to_file";
+  }
+
+  if (readiness === "do_not_file") score = Math.min(score, Math.max(doNotFile - 1, 0));
+  else if (readiness === "file_with_caution") score = Math.min(score, Math.max(safe - 1, 0));
+
+  if (bySeverity.critical > confirmed.length) reasons.push(plural(bySeverity.critical - confirmed.length, "unconfirmed critical finding"));
+  if (bySeverity.high) reasons.push(plural(bySeverity.high, "high-severity finding"));
+  if (unreviewed) reasons.push(`${plural(unreviewed, "section")} not reviewed by the model`);
+  reasons.push(`Risk score ${score}/100 under the ${model.name} scoring model`);
+
+  const hallucinations = memo.hallucinationSignals.length;
+  const badLaw = memo.criticalIssues.length;
+  const quotations = memo.quotationIssues.length;
+  const formatting = memo.formattingIssues.length;
+  return {
+    score,
+    hallucinations,
+    badLaw,
+    quotations,
+    formatting,
+    total: hallucinations + badLaw + quotations + formatting,
+    subScores,
+    bySeverity,
+    readiness,
+    reasons,
+    model: model.name,
+  };
+}
+
+/**
+ * Scores a finished memo: attaches the scoring model, stamps each finding with its
+ * severity and confidence, and sets the filing verdict from the score. The scoring
+ * reasons lead the justification, followed by any the model gave.
+ */
+export function applyScoring<T extends ScoredMemo & Pick<LegalReviewMemo, "filingVerdict">>(
+  memo: T,
+  model: ScoringModel = DEFAULT_SCORING_MODEL
+): T {
+  const assessed = withAssessments(memo, model);
+  const metrics = computeRiskMetrics(assessed, model);
+  return {
+    ...assessed,
+    filingVerdict: {
+      readiness: metrics.readiness,
+      score: metrics.score,
+      justification: [...metrics.reasons, ...memo.filingVerdict.justification],
+    },
+  };
+}
+
+const isNumber = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks a firm's scoring model, filling anything it leaves out from the default.
+ * Returns the model, or an error message naming the bad field.
+ */
+export function parseScoringModel(value: unknown): ScoringModel | string {
+  if (!value || typeof value !== "object") return "scoring model must be a JSON object";
+  const { name, severityPoints = {}, categoryCaps = {}, thresholds = {}, confirmedConfidence } = value as Record<string, unknown>;
+  if (typeof name !== "string" || !name.trim()) return "name must be a non-empty string";
+
+  const model: ScoringModel = {
+    name: name.trim(),
+    severityPoints: { ...DEFAULT_SCORING_MODEL.severityPoints, ...(severityPoints as object) },
+    categoryCaps: { ...DEFAULT_SCORING_MODEL.categoryCaps, ...(categoryCaps as object) },
+    thresholds: { ...DEFAULT_SCORING_MODEL.thresholds, ...(thresholds as object) },
+    confirmedConfidence: confirmedConfidence === undefined ? DEFAULT_SCORING_MODEL.confirmedConfidence : (confirmedConfidence as number),
+  };
+  for (const severity of SEVERITIES) {
+    if (!isNumber(model.severityPoints[severity])) return `severityPoints.${severity} must be a non-negative number`;
+  }
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    if (!isNumber(model.categoryCaps[category])) return `categoryCaps.${category} must be a non-negative number`;
+  }
+  const { safe, doNotFile } = model.thresholds;
+  if (!isNumber(safe) || !isNumber(doNotFile) || doNotFile > safe || safe > 100) {
+    return "thresholds must satisfy 0 <= doNotFile <= safe <= 100";
+  }
+  if (!isNumber(model.confirmedConfidence) || model.confirmedConfidence > 1) return "confirmedConfidence must be between 0 and 1";
+  return model;
+}
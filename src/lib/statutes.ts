@@ -0,0 +1,474 @@
+import type { CriticalIssue, FormattingIssue, HallucinationSignal } from "./types";
+
+// U.S.C. and state codes are statutes, C.F.R. regulations, the federal rules rules
+export type StatuteKind = "statute" | "regulation" | "rule";
+
+/** A citation to a code section or rule, with character offsets into the document. */
+export interface StatuteCitation {
+  id: string;
+  kind: StatuteKind;
+  // The code cited into: "usc", "cfr", "fed-r-civ-p", "cal-civ-proc"
+  code: string;
+  // The title of a titled code (42 U.S.C.), or null
+  title: number | null;
+  // "1983", "35.130", "12", "425.16"
+  section: string;
+  // "(b)(6)", or empty
+  subsections: string;
+  start: number;
+  end: number;
+  text: string;
+  // The citation in Bluebook form: "Fed. R. Civ. P. 12(b)(6)"
+  canonical: string;
+  // On the two ends of a "§§" range too long to check section by section: the range as written
+  partialRange?: string;
+}
+
+export type CodeStatus = "current" | "repealed" | "renumbered";
+
+// One section or rule in the code index
+export interface CodeSection {
+  code: string;
+  title?: number;
+  // With subsections when only part of a section changed: "803(24)"
+  section: string;
+  heading?: string;
+  status: CodeStatus;
+  // Where a renumbered section went, or what replaced a repealed one: "52 U.S.C. § 10301"
+  replacedBy?: string;
+  // When the repeal or renumbering took effect (YYYY-MM-DD)
+  effective?: string;
+}
+
+// current/repealed/renumbered: the index lists the section. unlisted: within the code's
+// sections but not listed. not_found: no such title, or a section number the code does
+// not reach. unchecked: the index does not cover the code.
+export type StatuteStatus = CodeStatus | "unlisted" | "not_found" | "unchecked";
+
+export interface StatuteVerification {
+  statuteId: string;
+  status: StatuteStatus;
+  // "usc 42 1983" as looked up
+  key: string;
+  record?: CodeSection;
+  detail: string;
+  // The brief cites the section as it stood before it was repealed or renumbered
+  historical: boolean;
+}
+
+export interface StatuteReport {
+  // Description of the code index consulted; null when there is none and only form was checked
+  source: string | null;
+  citations: StatuteCitation[];
+  verifications: StatuteVerification[];
+}
+
+/** The index as `verifyStatutes` needs it; built from data/code-index.jsonl by code-index.ts. */
+export interface CodeIndexLookup {
+  source: string;
+  section(key: string): CodeSection | undefined;
+  // Ranges of section numbers a code or title has; undefined when the index does not cover it
+  ranges(code: string, title: number | null): Array<[number, number]> | undefined;
+  // Titles a titled code has, e.g. [1, 54] for the United States Code
+  titles(code: string): [number, number] | undefined;
+}
+
+export const STATUTE_LABELS: Record<StatuteStatus, string> = {
+  current: "In force",
+  repealed: "Repealed",
+  renumbered: "Renumbered",
+  unlisted: "Not listed in code index",
+  not_found: "No such section",
+  unchecked: "Not checked",
+};
+
+export const codeKey = (code: string, title: number | null | undefined, section: string) =>
+  `${code}${title != null ? ` ${title}` : ""} ${section}`;
+
+interface CodeForm {
+  kind: StatuteKind;
+  // Groups: 1 title, 2 code name as written, 3 section symbol, 4 section, 5 subsections
+  pattern: RegExp;
+  // The code and its Bluebook name, from the name as written
+  code: (name: string) => { code: string; name: string };
+  // Whether the Bluebook puts a section symbol before the number
+  sign: boolean;
+}
+
+const SUB = String.raw`((?:\([A-Za-z0-9]+\))*)`;
+const letters = (name: string) => name.toLowerCase().replace(/[^a-z]+/g, "");
+const slug = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/\b(?:code|ann|law)\b\.?/g, " ")
+    .replace(/[^a-z]+/g, " ")
+    .trim()
+    .replace(/\s+/g, "-");
+
+const FEDERAL_RULES: Record<string, { code: string; name: string }> = {
+  fedrcivp: { code: "fed-r-civ-p", name: "Fed. R. Civ. P." },
+  frcp: { code: "fed-r-civ-p", name: "Fed. R. Civ. P." },
+  fedrcrimp: { code: "fed-r-crim-p", name: "Fed. R. Crim. P." },
+  frcrp: { code: "fed-r-crim-p", name: "Fed. R. Crim. P." },
+  fedrappp: { code: "fed-r-app-p", name: "Fed. R. App. P." },
+  frap: { code: "fed-r-app-p", name: "Fed. R. App. P." },
+  fedrbankrp: { code: "fed-r-bankr-p", name: "Fed. R. Bankr. P." },
+  frbp: { code: "fed-r-bankr-p", name: "Fed. R. Bankr. P." },
+  fedrevid: { code: "fed-r-evid", name: "Fed. R. Evid." },
+  fre: { code: "fed-r-evid", name: "Fed. R. Evid." },
+};
+
+// California's codes are also cited "Code Civ. Proc."; the Bluebook puts "Code" last
+const CALIFORNIA_CODES: Record<string, string> = {
+  "civ-proc": "Civ. Proc.",
+  civ: "Civ.",
+  penal: "Penal",
+  evid: "Evid.",
+  "bus-prof": "Bus. & Prof.",
+  "gov-t": "Gov't",
+  lab: "Lab.",
+  fam: "Fam.",
+  "health-safety": "Health & Safety",
+  veh: "Veh.",
+  corp: "Corp.",
+  ins: "Ins.",
+  prob: "Prob.",
+};
+
+const CODE_FORMS: CodeForm[] = [
+  {
+    kind: "statute",
+    pattern: new RegExp(String.raw`\b(\d{1,2})\s+(U\.?\s?S\.?\s?C\.?(?:\s?A\.?)?|USCA?)(?![A-Za-z])\s*(§§?)?\s*(\d+[A-Za-z]*(?:-\d+[A-Za-z]*)*)` + SUB, "g"),
+    code: (name) => ({ code: "usc", name: letters(name) === "usca" ? "U.S.C.A." : "U.S.C." }),
+    sign: true,
+  },
+  {
+    kind: "regulation",
+    pattern: new RegExp(String.raw`\b(\d{1,2})\s+(C\.?\s?F\.?\s?R\.?|CFR)(?![A-Za-z])\s*(§§?)?\s*(\d+(?:\.\d+[A-Za-z]*(?:-\d+)?)?)` + SUB, "g"),
+    code: () => ({ code: "cfr", name: "C.F.R." }),
+    sign: true,
+  },
+  {
+    kind: "rule",
+    pattern: new RegExp(
+      String.raw`()\b(Fed\.?\s?R\.?\s?(?:Civ|Crim|App|Bankr)\.?\s?P\.?|Fed\.?\s?R\.?\s?Evid\.?|FRCP|FRCrP|FRAP|FRBP|FRE)\s*()(\d+(?:\.\d+)?)(?![\d.]*\d)` + SUB,
+      "g"
+    ),
+    code: (name) => FEDERAL_RULES[letters(name)],
+    sign: false,
+  },
+  {
+    kind: "statute",
+    pattern: new RegExp(
+      String.raw`()\b(Cal\.\s?(?:Code\s)?(?:Civ\.\s?Proc\.|Civ\.|Penal|Evid\.|Bus\.\s?&\s?Prof\.|Gov(?:'|’)t|Lab\.|Fam\.|Health\s&\sSafety|Veh\.|Corp\.|Ins\.|Prob\.)(?:\sCode)?(?:\sAnn\.)?)\s*(§§?)?\s*(\d+[a-z]?(?:\.\d+)?)` + SUB,
+      "g"
+    ),
+    code: (name) => {
+      const key = slug(name.replace(/^Cal\./, ""));
+      return { code: `cal-${key}`, name: `Cal. ${CALIFORNIA_CODES[key] || name.replace(/^Cal\.\s?|\s?Code|\s?Ann\./g, "")} Code${/Ann\.$/.test(name) ? " Ann." : ""}` };
+    },
+    sign: true,
+  },
+  {
+    kind: "rule",
+    pattern: new RegExp(String.raw`()\b(N\.Y\.\s?(?:C\.\s?P\.\s?L\.\s?R\.|CPLR))(?:\s+(?:R(?:ule)?\.?|§))?\s*()(\d+)` + SUB, "g"),
+    code: () => ({ code: "ny-cplr", name: "N.Y. C.P.L.R." }),
+    sign: false,
+  },
+  {
+    kind: "statute",
+    pattern: new RegExp(String.raw`()\b(N\.Y\.\s?(?:[A-Z][A-Za-z.'’]*\s|&\s){1,5}Law)\s*(§§?)?\s*(\d+(?:[-.][\dA-Za-z]+)*)` + SUB, "g"),
+    code: (name) => ({ code: `ny-${slug(name.replace(/^N\.Y\./, ""))}`, name: name.replace(/\s+/g, " ") }),
+    sign: true,
+  },
+  {
+    kind: "statute",
+    pattern: new RegExp(String.raw`()\b(Tex\.\s?(?:[A-Z][A-Za-z.'’]*\s|&\s){1,7}Code(?:\sAnn\.)?)\s*(§§?)?\s*(\d+\.\d+[A-Za-z]?)` + SUB, "g"),
+    code: (name) => ({ code: `tex-${slug(name.replace(/^Tex\./, ""))}`, name: name.replace(/\s+/g, " ").replace(/ Code$/, " Code Ann.") }),
+    sign: true,
+  },
+  {
+    kind: "statute",
+    pattern: new RegExp(String.raw`()\b(Fla\.\s?Stat\.(?:\sAnn\.)?)\s*(§§?)?\s*(\d+\.\d+)` + SUB, "g"),
+    code: (name) => ({ code: "fla-stat", name: /Ann\.$/.test(name) ? "Fla. Stat. Ann." : "Fla. Stat." }),
+    sign: true,
+  },
+  {
+    kind: "statute",
+    pattern: new RegExp(String.raw`\b(\d{1,3})\s+(Ill\.\s?Comp\.\s?Stat\.(?:\sAnn\.)?|ILCS)\s*()(\d+\/\d+(?:[-.]\d+)*)` + SUB, "g"),
+    code: (name) => ({ code: "ill-comp-stat", name: /Ann\.$/.test(name) ? "Ill. Comp. Stat. Ann." : "Ill. Comp. Stat." }),
+    sign: false,
+  },
+];
+
+// The form a citation was written in, matched again for the parts the citation does not keep
+function parseForm(statute: StatuteCitation): { form: CodeForm; match: RegExpExecArray } | null {
+  for (const form of CODE_FORMS) {
+    if (form.kind !== statute.kind) continue;
+    const match = new RegExp(`^(?:${form.pattern.source})$`).exec(statute.text);
+    if (match && form.code(match[2]).code === statute.code) return { form, match };
+  }
+  return null;
+}
+
+const formatCite = (title: number | null, name: string, sign: boolean, section: string, subsections: string) =>
+  `${title !== null ? `${title} ` : ""}${name} ${sign ? "§ " : ""}${section}${subsections}`;
+
+// After "§§": the separator before the next section of a list ("1331, 1343") or range ("1981–1983")
+const LIST_SEPARATOR = /^(?:\s*,\s*(?:(?:and|&)\s+)?|\s+(?:and|&|to|through)\s+|\s*[-–—]\s*)/;
+const RANGE_SEPARATOR = /^(?:\s*[-–—]\s*|\s+(?:to|through)\s+)$/;
+const LIST_SECTION = new RegExp(String.raw`^(\d+[A-Za-z]*(?:[-.]\d+[A-Za-z]*)*)` + SUB);
+const MAX_LIST_SECTIONS = 20;
+
+type ListedSection = Pick<StatuteCitation, "section" | "subsections" | "start" | "end" | "partialRange">;
+
+/**
+ * The sections a "§§" citation names, each with its own offsets: "28 U.S.C. §§ 1331, 1343"
+ * names 1331 and 1343, and a range "§§ 1981-1983" every section in it, those between the
+ * ends spanning the whole range. A range too long to list within MAX_LIST_SECTIONS keeps
+ * its two ends, marked as only partly checked. Hyphenated section numbers ("2000e-2") are
+ * kept whole.
+ */
+function listedSections(text: string, at: number, section: string, subsections: string): ListedSection[] {
+  const sections: ListedSection[] = [];
+  const addRange = (from: ListedSection, to: number, end: number, subs = "") => {
+    const last: ListedSection = { section: String(to), subsections: subs, start: end - subs.length - String(to).length, end };
+    if (sections.length + to - Number(from.section) > MAX_LIST_SECTIONS) {
+      from.partialRange = last.partialRange = text.slice(from.start, end);
+    } else {
+      for (let n = Number(from.section) + 1; n < to; n++) sections.push({ section: String(n), subsections: "", start: from.start, end });
+    }
+    sections.push(last);
+  };
+  const add = (value: string, subs: string, start: number, separator = "") => {
+    const previous = sections[sections.length - 1];
+    const hyphenated = subs ? null : value.match(/^(\d+)-(\d+)$/);
+    if (hyphenated && Number(hyphenated[2]) > Number(hyphenated[1])) {
+      const from = { section: hyphenated[1], subsections: "", start, end: start + hyphenated[1].length };
+      sections.push(from);
+      addRange(from, Number(hyphenated[2]), start + value.length);
+    } else if (
+      previous &&
+      RANGE_SEPARATOR.test(separator) &&
+      !previous.subsections &&
+      /^\d+$/.test(value) &&
+      /^\d+$/.test(previous.section) &&
+      Number(value) > Number(previous.section)
+    ) {
+      // The sections between the ends are whole, whatever subsection the range ends on
+      addRange(previous, Number(value), start + value.length + subs.length, subs);
+    } else {
+      sections.push({ section: value, subsections: subs, start, end: start + value.length + subs.length });
+    }
+  };
+
+  add(section, subsections, at);
+  while (sections.length < MAX_LIST_SECTIONS) {
+    const end = sections[sections.length - 1].end;
+    const rest = text.slice(end);
+    const separator = rest.match(LIST_SEPARATOR);
+    const next = separator && rest.slice(separator[0].length).match(LIST_SECTION);
+    if (!separator || !next) break;
+    add(next[1], next[2] || "", end + separator[0].length, separator[0]);
+  }
+  return sections;
+}
+
+/**
+ * Finds citations to the U.S. Code, the C.F.R., the federal rules and the state codes
+ * the Bluebook tables cover best, with offsets into the text. Each section of a "§§" list
+ * or range is a citation of its own; the first keeps the code's name in its text. Like
+ * `extractCitations`, it is purely lexical.
+ */
+export function extractStatutes(text: string): StatuteCitation[] {
+  // One entry per match, so the sections of a list stay together when forms overlap
+  const found: Array<{ start: number; end: number; statutes: Array<Omit<StatuteCitation, "id">> }> = [];
+  for (const form of CODE_FORMS) {
+    form.pattern.lastIndex = 0;
+    for (const match of Array.from(text.matchAll(form.pattern))) {
+      const title = match[1] ? Number(match[1]) : null;
+      const { code, name } = form.code(match[2]);
+      const subsections = match[5] || "";
+      const sectionStart = match.index! + match[0].length - match[4].length - subsections.length;
+      const sections: ListedSection[] = match[3] === "§§" ? listedSections(text, sectionStart, match[4], subsections) : [{ section: match[4], subsections, start: sectionStart, end: match.index! + match[0].length }];
+      const statutes = sections.map((listed, i) => {
+        const start = i === 0 ? match.index! : listed.start;
+        return {
+          kind: form.kind,
+          code,
+          title,
+          section: listed.section,
+          subsections: listed.subsections,
+          start,
+          end: listed.end,
+          text: text.slice(start, listed.end),
+          canonical: formatCite(title, name, form.sign, listed.section, listed.subsections),
+          ...(listed.partialRange ? { partialRange: listed.partialRange } : {}),
+        };
+      });
+      found.push({ start: match.index!, end: Math.max(...statutes.map((statute) => statute.end)), statutes });
+    }
+  }
+  // A longer match wins where two forms overlap ("N.Y. C.P.L.R." is not an "N.Y. ... Law")
+  const kept = found
+    .sort((a, b) => a.start - b.start || b.end - a.end)
+    .filter((match, i, all) => !all.slice(0, i).some((other) => other.end > match.start))
+    .flatMap((match) => match.statutes);
+  return kept.map((statute, i) => ({ id: `statute-${i}`, ...statute }));
+}
+
+/**
+ * Checks the form of each statutory citation (Bluebook rules 12 and 14): the code's
+ * abbreviation, the section symbol and the space after it. One finding per citation, with
+ * the citation in Bluebook form as the recommendation.
+ */
+export function lintStatutes(text: string, statutes: StatuteCitation[]): FormattingIssue[] {
+  const issues: FormattingIssue[] = [];
+  for (const statute of statutes) {
+    const parsed = parseForm(statute);
+    if (!parsed) continue;
+    const { form, match } = parsed;
+
+    const problems: string[] = [];
+    const { name } = form.code(match[2]);
+    const written = match[2].replace(/\s+/g, " ");
+    // Several sections keep "§§"; one section takes "§"
+    const several = match[3] === "§§" && (LIST_SEPARATOR.test(text.slice(statute.end)) || /^\s*et seq\./.test(text.slice(statute.end)));
+    if (written !== name && !(statute.code === "usc" && written === "U.S.C.A.")) problems.push(`the code is abbreviated "${name}", not "${match[2]}"`);
+    if (form.sign && !match[3]) problems.push("the section number needs a section symbol (§)");
+    if (match[3] === "§§" && !several) problems.push('"§§" is for more than one section');
+    if (match[3] && !/§§?\s/.test(statute.text)) problems.push("the section symbol is followed by a space");
+    if (!problems.length) continue;
+
+    issues.push({
+      quote: statute.text,
+      start: statute.start,
+      end: statute.end,
+      citationId: statute.id,
+      source: "bluebook",
+      problem: `Statutory citation form: ${problems.join("; ")}.`,
+      recommendation: several ? statute.canonical.replace("§", "§§") : statute.canonical,
+      replacesQuote: true,
+    });
+  }
+  return issues;
+}
+
+// Parenthetical right after the citation: "(repealed 2015)", "(1994)"
+const TRAILING_PARENTHETICAL = /^\s*\(([^()]*)\)/;
+
+// A brief citing the section as it read before the change says so in a parenthetical
+function citesHistory(text: string, statute: StatuteCitation, record: CodeSection): boolean {
+  const parenthetical = text.slice(statute.end).match(TRAILING_PARENTHETICAL)?.[1];
+  if (!parenthetical) return false;
+  if (/repeal|abrogat|transferr|renumber|former|supersed|amended/i.test(parenthetical)) return true;
+  const years = (parenthetical.match(/\b(?:1[89]|20)\d{2}\b/g) || []).map(Number);
+  return !!record.effective && years.length > 0 && years.every((year) => year < Number(record.effective!.slice(0, 4)));
+}
+
+const leadingNumber = (section: string) => parseInt(section, 10);
+
+/**
+ * Looks one citation up in the code index: the cited subsection first ("803(24)"), then
+ * the section. A section the index does not list is `unlisted` when its number falls in
+ * the code's ranges and `not_found` when it does not.
+ */
+export function verifyStatute(text: string, statute: StatuteCitation, index: CodeIndexLookup | null): StatuteVerification {
+  const key = codeKey(statute.code, statute.title, statute.section);
+  const result = (status: StatuteStatus, detail: string, record?: CodeSection): StatuteVerification => ({
+    statuteId: statute.id,
+    status,
+    key,
+    record,
+    detail,
+    historical: !!record && status !== "current" && citesHistory(text, statute, record),
+  });
+  if (!index) return result("unchecked", "No code index is configured");
+
+  const parts = statute.subsections.match(/\([A-Za-z0-9]+\)/g) || [];
+  for (let depth = parts.length; depth >= 0; depth--) {
+    const record = index.section(codeKey(statute.code, statute.title, statute.section + parts.slice(0, depth).join("")));
+    if (record) return { ...result(record.status, record.heading || "", record), key: codeKey(record.code, record.title, record.section) };
+  }
+
+  const titles = statute.title !== null ? index.titles(statute.code) : undefined;
+  if (titles && statute.title !== null && (statute.title < titles[0] || statute.title > titles[1])) {
+    return result("not_found", `There is no title ${statute.title}; titles run ${titles[0]}-${titles[1]}`);
+  }
+  const ranges = index.ranges(statute.code, statute.title);
+  if (!ranges) return result("unchecked", `${index.source} does not cover this code`);
+  const number = leadingNumber(statute.section);
+  if (!ranges.some(([from, to]) => number >= from && number <= to)) {
+    return result("not_found", `Sections run ${ranges.map(([from, to]) => (from === to ? `${from}` : `${from}-${to}`)).join(", ")}`);
+  }
+  return result("unlisted", `Within the code's sections, but ${index.source} does not list it`);
+}
+
+export function verifyStatutes(text: string, statutes: StatuteCitation[], index: CodeIndexLookup | null): StatuteReport {
+  return {
+    source: index?.source || null,
+    citations: statutes,
+    verifications: statutes.map((statute) => verifyStatute(text, statute, index)),
+  };
+}
+
+const effectiveDate = (record: CodeSection) => {
+  if (!record.effective) return "";
+  const [year, month, day] = record.effective.split("-").map(Number);
+  return month && day
+    ? ` effective ${new Date(Date.UTC(year, month - 1, day)).toLocaleDateString("en-US", { timeZone: "UTC", month: "long", day: "numeric", year: "numeric" })}`
+    : ` in ${year}`;
+};
+
+/**
+ * Turns code-index results into memo findings: a section that does not exist is a
+ * hallucination signal; a repealed or renumbered one is bad law, unless the brief marks
+ * the citation as historical.
+ */
+export function statuteFindings(text: string, report: StatuteReport): { hallucinationSignals: HallucinationSignal[]; criticalIssues: CriticalIssue[] } {
+  const hallucinationSignals: HallucinationSignal[] = [];
+  const criticalIssues: CriticalIssue[] = [];
+  const byId = new Map(report.citations.map((statute) => [statute.id, statute]));
+
+  for (const verification of report.verifications) {
+    const statute = byId.get(verification.statuteId);
+    if (!statute || verification.historical) continue;
+    const anchor = { quote: text.slice(statute.start, statute.end), start: statute.start, end: statute.end, citationId: statute.id, source: "code-index" as const };
+    const record = verification.record;
+
+    if (verification.status === "not_found") {
+      hallucinationSignals.push({
+        ...anchor,
+        pattern: "Statutory citation not found in code index",
+        risk: `${verification.detail} in ${report.source}, so ${statute.canonical} does not exist. Confirm the citation before filing.`,
+      });
+    } else if (verification.status === "repealed" && record) {
+      criticalIssues.push({
+        ...anchor,
+        problem: `${statute.canonical}${record.heading ? ` (${record.heading})` : ""} was repealed${effectiveDate(record)}.`,
+        missingAuthority: record.replacedBy ? `Current provision: ${record.replacedBy}` : "The provision in force, or a parenthetical noting the repeal",
+      });
+    } else if (verification.status === "renumbered" && record) {
+      criticalIssues.push({
+        ...anchor,
+        problem: `${statute.canonical}${record.heading ? ` (${record.heading})` : ""} was renumbered${record.replacedBy ? ` as ${record.replacedBy}` : ""}${effectiveDate(record)}.`,
+        // Subsections below the renumbered part carry over: § 1973(a) is § 10301(a)
+        missingAuthority: record.replacedBy ? `Current citation: ${record.replacedBy}${(statute.section + statute.subsections).slice(record.section.length)}` : "The section's current number",
+      });
+    }
+  }
+  return { hallucinationSignals, criticalIssues };
+}
+
+/** The statutory citation and its lookup behind an issue, when the issue was raised on one. */
+export function statuteForIssue(
+  issue: { citationId?: string; start?: number; end?: number },
+  report: StatuteReport | null
+): { statute: StatuteCitation; verification: StatuteVerification } | null {
+  if (!report) return null;
+  const statute = report.citations.find((candidate) =>
+    issue.citationId ? candidate.id === issue.citationId : issue.start !== undefined && issue.end !== undefined && candidate.start < issue.end && candidate.end > issue.start
+  );
+  const verification = statute && report.verifications.find((candidate) => candidate.statuteId === statute.id);
+  return statute && verification ? { statute, verification } : null;
+}
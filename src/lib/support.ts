@@ -0,0 +1,324 @@
+import { shortCaseName, type Citation } from "./citations";
+import { pageAt } from "./documents";
+import { extractJson, InvalidModelOutputError, LlmError, MAX_REPAIR_ATTEMPTS, type ChatMessage, type LlmProvider } from "./llm";
+import { describeCorpus, loadOpinion, verifiedRecord } from "./opinions";
+import { buildSupportPrompt, SUPPORT_PROMPT_VERSION, SUPPORT_SYSTEM_PROMPT } from "./prompts";
+import type { Opinion } from "./quotations";
+import { sentenceAround } from "./rewrite";
+import type { CriticalIssue, Severity, SupportEvidence, SupportPassage, SupportStatus } from "./types";
+import type { VerificationReport } from "./verification";
+
+// One model call per citation; a brief with more cites than this has the rest left unchecked
+const MAX_SUPPORT_CHECKS = 25;
+const MAX_PASSAGES = 3;
+const MAX_PASSAGE_CHARS = 1_200;
+// A citation sentence ("See Celotex, 477 U.S. at 322.") supports the sentence before it
+const MIN_PROPOSITION_WORDS = 4;
+
+const SUPPORT_STATUSES: SupportStatus[] = ["supported", "partially_supported", "unsupported"];
+
+const WORD = /[A-Za-z0-9]+(?:['’][A-Za-z]+)*/g;
+const STOPWORDS = new Set(
+  "the and that this with for from was were are not but has have had its into upon which when where who whom whose than then there their them they such any all may must shall will would could should been being only also other see court held".split(" ")
+);
+
+// The outcome for one citation whose case has an opinion in the corpus
+export interface SupportCheck extends SupportEvidence {
+  citationId: string;
+  // Offsets of the proposition in the brief
+  start: number;
+  end: number;
+}
+
+export interface SupportReport {
+  // Description of the corpus consulted, e.g. "opinions (1,204 opinions)"
+  source: string;
+  promptVersion: string;
+  checks: SupportCheck[];
+  // Citations whose case was not verified, has no opinion text, or fell past MAX_SUPPORT_CHECKS
+  unchecked: number;
+  // Citations the model could not judge
+  failed: number;
+}
+
+// Each judgment as a finding; retrieval grounds the model, but it is still the model's call
+const STATUS_ASSESSMENTS: Record<Exclude<SupportStatus, "supported">, { severity: Severity; confidence: number }> = {
+  unsupported: { severity: "high", confidence: 0.7 },
+  partially_supported: { severity: "medium", confidence: 0.6 },
+};
+
+const terms = (text: string) =>
+  (text.match(WORD) || [])
+    .map((word) => word.toLowerCase().replace(/['’]s$/, ""))
+    .filter((word) => word.length > 2 && !STOPWORDS.has(word));
+
+// Introductory signals left dangling once the citation after them is removed
+const SIGNAL = /\b(?:see(?:,? e\.g\.,?| also| generally)?|cf\.|but see|but cf\.|accord|compare|contra|e\.g\.,?)\s*$/i;
+
+// A sentence's text without its citations; a case named mid-sentence ("In Iqbal, ..., the Court held") keeps its short name
+function withoutCitations(text: string, span: { start: number; end: number }, citations: Citation[]): string {
+  let result = "";
+  let at = span.start;
+  for (const citation of citations) {
+    if (citation.fullEnd <= at || citation.fullStart >= span.end) continue;
+    result += text.slice(at, Math.max(citation.fullStart, at));
+    at = Math.max(at, citation.fullEnd);
+    const continues = /^,\s+[a-z]/.test(text.slice(at, span.end));
+    result = continues && citation.caseName ? result + shortCaseName(citation.caseName) : result.replace(SIGNAL, "");
+  }
+  return (result + text.slice(at, Math.max(span.end, at)))
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,.;:])/g, "$1")
+    .replace(/([.;:,])[.;:,]+/g, "$1")
+    .trim();
+}
+
+/**
+ * The sentence a citation is offered for, without the citations in it. A citation that
+ * stands as its own sentence supports the one before it. The span covers both, so the
+ * finding highlights the claim and its citation together.
+ */
+function propositionFor(text: string, citation: Citation, citations: Citation[]): { start: number; end: number; text: string } {
+  const sentence = sentenceAround(text, citation.fullStart, citation.fullEnd);
+  let span = sentence;
+  let proposition = withoutCitations(text, sentence, citations);
+  if (terms(proposition).length < MIN_PROPOSITION_WORDS && sentence.start > 1) {
+    const previous = sentenceAround(text, sentence.start - 2, sentence.start - 1);
+    span = { start: previous.start, end: sentence.end };
+    proposition = withoutCitations(text, { start: previous.start, end: sentence.start }, citations);
+  }
+  const passage = text.slice(span.start, span.end);
+  const start = span.start + passage.length - passage.trimStart().length;
+  return { start, end: span.start + passage.trimEnd().length, text: proposition };
+}
+
+// "322", "322-23" or "322 n.5" as the first and last page cited
+function pinPages(pinpoint: string | undefined): { first: number; last: number } | null {
+  const match = pinpoint?.match(/^(\d+)(?:\s*[-–]\s*(\d+))?/);
+  if (!match) return null;
+  const first = Number(match[1]);
+  if (!match[2]) return { first, last: first };
+  // "322-23" drops the digits the two pages share
+  const last = Number(match[1].slice(0, Math.max(match[1].length - match[2].length, 0)) + match[2]);
+  return { first, last: Math.max(first, last) };
+}
+
+interface OpinionPassage extends SupportPassage {
+  start: number;
+  end: number;
+  lastPage: number | null;
+}
+
+// Paragraphs of the opinion, with long ones split at sentence ends
+function passagesOf(opinion: Opinion): OpinionPassage[] {
+  const passages: OpinionPassage[] = [];
+  const push = (start: number, end: number) => {
+    const text = opinion.text.slice(start, end).trim();
+    if (!text) return;
+    passages.push({ text, start, end, page: pageAt(opinion.pages, start), lastPage: pageAt(opinion.pages, end - 1) });
+  };
+
+  for (const paragraph of Array.from(opinion.text.matchAll(/[^\n]+(?:\n(?!\s*\n)[^\n]*)*/g))) {
+    const start = paragraph.index!;
+    const end = start + paragraph[0].length;
+    let at = start;
+    for (const boundary of Array.from(paragraph[0].matchAll(/[.!?]["”’)]*\s+/g))) {
+      const sentenceEnd = start + boundary.index! + boundary[0].length;
+      if (sentenceEnd - at > MAX_PASSAGE_CHARS) {
+        push(at, sentenceEnd);
+        at = sentenceEnd;
+      }
+    }
+    push(at, end);
+  }
+  return passages;
+}
+
+/**
+ * The opinion passages most relevant to a proposition: within the pin-cited pages when
+ * the opinion marks its pages, otherwise the whole opinion. Passages are ranked by the
+ * proposition's terms they share, rarer terms counting for more, and returned in
+ * opinion order.
+ */
+export function retrievePassages(
+  opinion: Opinion,
+  proposition: string,
+  pinpoint?: string
+): { passages: SupportPassage[]; scope: SupportEvidence["scope"] } {
+  const all = passagesOf(opinion);
+  const pin = opinion.pages ? pinPages(pinpoint) : null;
+  const atPin = pin
+    ? all.filter((passage) => passage.page !== null && passage.page <= pin.last && (passage.lastPage ?? passage.page) >= pin.first)
+    : [];
+  const candidates = atPin.length ? atPin : all;
+
+  const documentFrequency = new Map<string, number>();
+  const passageTerms = all.map((passage) => new Set(terms(passage.text)));
+  for (const set of passageTerms) set.forEach((term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  const wanted = Array.from(new Set(terms(proposition)));
+  const score = (passage: OpinionPassage) => {
+    const present = passageTerms[all.indexOf(passage)];
+    return wanted.reduce((sum, term) => (present.has(term) ? sum + Math.log(all.length / documentFrequency.get(term)!) + 1 : sum), 0);
+  };
+
+  const ranked = candidates
+    .map((passage) => ({ passage, score: score(passage) }))
+    .filter(({ score }) => score > 0 || atPin.length > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, MAX_PASSAGES)
+    .map(({ passage }) => passage)
+    .sort((a, b) => a.start - b.start);
+
+  return {
+    passages: ranked.map(({ text, page }) => ({ text, page })),
+    scope: atPin.length ? "pin" : "opinion",
+  };
+}
+
+/**
+ * Asks the model whether the passages support the proposition, feeding validation errors
+ * back for up to MAX_REPAIR_ATTEMPTS further turns.
+ */
+async function judgeSupport(
+  provider: LlmProvider,
+  input: Parameters<typeof buildSupportPrompt>[0],
+  signal?: AbortSignal
+): Promise<{ status: SupportStatus; explanation: string }> {
+  const conversation: ChatMessage[] = [
+    { role: "system", content: SUPPORT_SYSTEM_PROMPT },
+    { role: "user", content: buildSupportPrompt(input) },
+  ];
+
+  let errors: string[] = [];
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    const content = await provider.complete(conversation, signal);
+    const parsed = extractJson(content);
+    const value = "value" in parsed ? (parsed.value as Record<string, unknown> | null) : null;
+
+    errors = "error" in parsed ? [parsed.error] : [];
+    if (!errors.length && !SUPPORT_STATUSES.includes(value?.status as SupportStatus)) {
+      errors.push(`status must be one of ${SUPPORT_STATUSES.join(", ")}`);
+    }
+    if (!errors.length && (typeof value?.explanation !== "string" || !value.explanation.trim())) {
+      errors.push("explanation must be a non-empty string");
+    }
+    if (!errors.length && value) {
+      return { status: value.status as SupportStatus, explanation: (value.explanation as string).trim() };
+    }
+
+    console.warn(`Support judgment failed validation (attempt ${attempt + 1}/${MAX_REPAIR_ATTEMPTS + 1}):`, errors);
+    conversation.push(
+      { role: "assistant", content },
+      { role: "user", content: `Your previous response failed validation:\n${errors.map((error) => `- ${error}`).join("\n")}\n\nReturn the corrected JSON object only.` }
+    );
+  }
+
+  throw new InvalidModelOutputError(errors);
+}
+
+function supportFinding(text: string, check: SupportCheck): CriticalIssue | null {
+  if (check.status === "supported") return null;
+  const at = check.passages[0]?.page ? ` at ${check.passages[0].page}` : "";
+  return {
+    quote: text.slice(check.start, check.end),
+    start: check.start,
+    end: check.end,
+    citationId: check.citationId,
+    source: "support-check",
+    ...STATUS_ASSESSMENTS[check.status],
+    problem:
+      check.status === "unsupported"
+        ? `${check.caseName}${at} does not support this proposition. ${check.explanation}`
+        : `${check.caseName}${at} supports this proposition only in part. ${check.explanation}`,
+    missingAuthority:
+      check.status === "unsupported"
+        ? "Authority that holds this proposition, or a statement of it the cited case bears out"
+        : `Narrow the proposition to what ${check.caseName} holds, or add authority for the rest`,
+    support: {
+      caseName: check.caseName,
+      proposition: check.proposition,
+      status: check.status,
+      explanation: check.explanation,
+      passages: check.passages,
+      scope: check.scope,
+    },
+  };
+}
+
+/**
+ * Checks each citation to a verified case against the passages of its opinion that bear
+ * on the sentence it is cited for. Unsupported and partly supported propositions become
+ * critical issues carrying the passages as evidence. Returns null when no corpus is installed.
+ */
+export async function checkSupport(
+  text: string,
+  citations: Citation[],
+  verification: VerificationReport | null,
+  provider: LlmProvider,
+  signal?: AbortSignal
+): Promise<{ report: SupportReport; issues: CriticalIssue[] } | null> {
+  const source = await describeCorpus();
+  if (!source) return null;
+
+  const report: SupportReport = { source, promptVersion: SUPPORT_PROMPT_VERSION, checks: [], unchecked: 0, failed: 0 };
+  const issues: CriticalIssue[] = [];
+  const opinions = new Map<string, Opinion | null>();
+  const seen = new Set<number>();
+  let unavailable: LlmError | null = null;
+
+  for (const citation of citations) {
+    // Parallel cites share one span; check the decision once
+    if (seen.has(citation.fullStart)) continue;
+    seen.add(citation.fullStart);
+
+    const full = citation.kind === "full" ? citation : citations.find((candidate) => candidate.id === citation.antecedentId);
+    const record = full ? verifiedRecord(full, verification) : null;
+    if (record && !opinions.has(record.id)) opinions.set(record.id, await loadOpinion(record.id));
+    const opinion = record && opinions.get(record.id);
+    if (!record || !opinion || report.checks.length + report.failed >= MAX_SUPPORT_CHECKS) {
+      report.unchecked++;
+      continue;
+    }
+    if (unavailable) {
+      report.failed++;
+      continue;
+    }
+
+    const proposition = propositionFor(text, citation, citations);
+    const { passages, scope } = retrievePassages(opinion, proposition.text, citation.pinpoint);
+    try {
+      const judgment = passages.length
+        ? await judgeSupport(
+            provider,
+            {
+              proposition: proposition.text,
+              citation: text.slice(citation.fullStart, citation.fullEnd),
+              caseName: record.caseName,
+              passages,
+            },
+            signal
+          )
+        : { status: "unsupported" as const, explanation: "No passage of the opinion shares the proposition's terms." };
+      const check: SupportCheck = {
+        citationId: citation.id,
+        start: proposition.start,
+        end: proposition.end,
+        caseName: record.caseName,
+        proposition: proposition.text,
+        ...judgment,
+        passages,
+        scope,
+      };
+      report.checks.push(check);
+      const issue = supportFinding(text, check);
+      if (issue) issues.push(issue);
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      console.error(`Support check failed for ${citation.id}:`, error);
+      report.failed++;
+      // An unreachable or unauthorised model will fail every call the same way
+      if (error instanceof LlmError && !(error instanceof InvalidModelOutputError)) unavailable = error;
+    }
+  }
+  return { report, issues };
+}
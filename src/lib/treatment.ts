@@ -0,0 +1,278 @@
+import type { Citation } from "./citations";
+import { findCourt } from "./courts";
+import type { CriticalIssue, FormattingIssue } from "./types";
+import { citeKey, type VerificationReport } from "./verification";
+
+// Direct history (the same case on appeal) and later treatment by other decisions or statutes
+export type TreatmentKind = "affirmed" | "reversed" | "vacated" | "overruled" | "abrogated" | "superseded";
+
+export const TREATMENT_KINDS: TreatmentKind[] = ["affirmed", "reversed", "vacated", "overruled", "abrogated", "superseded"];
+
+export const TREATMENT_LABELS: Record<TreatmentKind, string> = {
+  affirmed: "Affirmed",
+  reversed: "Reversed",
+  vacated: "Vacated",
+  overruled: "Overruled",
+  abrogated: "Abrogated",
+  superseded: "Superseded by statute",
+};
+
+// Treatments that take the decision away as authority; an affirmance only has to be cited
+export const NEGATIVE_TREATMENTS = new Set<TreatmentKind>(["reversed", "vacated", "overruled", "abrogated", "superseded"]);
+const DIRECT_HISTORY = new Set<TreatmentKind>(["affirmed", "reversed", "vacated"]);
+
+// The later authority that treated a decision
+export interface CitingAuthority {
+  name: string;
+  // "597 U.S. 215", or a statute's "Pub. L. No. 102-166, 105 Stat. 1071"
+  citation: string;
+  court?: string;
+  year?: number;
+}
+
+// One relationship in the citator dataset
+export interface Treatment {
+  // Reporter cite of the treated decision, e.g. "410 U.S. 113"
+  cited: string;
+  citedName?: string;
+  treatment: TreatmentKind;
+  // "in part", "on other grounds"; absent when the whole decision was affected
+  scope?: string;
+  citing: CitingAuthority;
+}
+
+export interface CitatorLookup {
+  // Description of the dataset, e.g. "citator.jsonl (812 relationships)"
+  source: string;
+  // Relationships recorded against a reporter cite, as written in a brief or the case index
+  treatments(cite: string): Treatment[];
+}
+
+// A cited decision the dataset has later history for
+export interface TreatmentCheck {
+  citationId: string;
+  caseName: string;
+  treatments: Treatment[];
+  // Subsequent history the brief gives after the citation
+  history: TreatmentKind[];
+  // Offset where the citation and its subsequent history end
+  historyEnd: number;
+}
+
+export interface TreatmentReport {
+  source: string;
+  // Full citations looked up, history citations aside
+  checked: number;
+  checks: TreatmentCheck[];
+}
+
+// One link of subsequent history: ", rev'd in part on other grounds sub nom. ", " (overruled by "
+const HISTORY_LINK =
+  /^\s*[,(]?\s*(aff['’]d|rev['’]d|vacated|overruled|abrogated|superseded|modified|cert\.\s+(?:denied|granted|dismissed)|reh['’]g(?:\s+en\s+banc)?\s+denied|appeal\s+dismissed)((?:\s+(?:in\s+part|on\s+other\s+grounds|as\s+moot|in\s+relevant\s+part|by\s+statute))*)(?:\s+sub\s+nom\.)?(?:\s+by)?,?\s*/;
+
+// The history phrase as Bluebook rule 10.7 writes it
+const HISTORY_VERBS: Record<TreatmentKind, string> = {
+  affirmed: "aff'd",
+  reversed: "rev'd",
+  vacated: "vacated",
+  overruled: "overruled",
+  abrogated: "abrogated",
+  superseded: "superseded",
+};
+
+function historyKind(phrase: string): TreatmentKind | null {
+  if (/^aff/.test(phrase)) return "affirmed";
+  if (/^rev['’]d/.test(phrase)) return "reversed";
+  return (TREATMENT_KINDS as string[]).includes(phrase) ? (phrase as TreatmentKind) : null;
+}
+
+/**
+ * The subsequent history written after a full citation: each linking phrase and the
+ * citation it introduces, up to the first text that is neither. Returns the treatments
+ * named, where the chain ends, and the ids of the citations inside it.
+ */
+export function findSubsequentHistory(
+  text: string,
+  citation: Citation,
+  citations: Citation[]
+): { history: TreatmentKind[]; end: number; citationIds: string[] } {
+  const history: TreatmentKind[] = [];
+  const citationIds: string[] = [];
+  let at = citation.fullEnd;
+
+  for (;;) {
+    const link = text.slice(at, at + 200).match(HISTORY_LINK);
+    if (!link) break;
+    const kind = historyKind(link[1]);
+    if (kind) history.push(kind);
+
+    // The decision the phrase introduces starts right after it, with or without its name.
+    // "superseded by statute, Pub. L. No. ..." names no reporter, so the chain stops there.
+    const after = at + link[0].length;
+    const next = citations.find((candidate) => candidate.kind === "full" && candidate.start >= after && Math.min(candidate.fullStart, candidate.start) <= after + 2);
+    if (!next) break;
+    citationIds.push(next.id, ...next.parallel);
+    at = Math.max(after, next.fullEnd);
+    const close = text.slice(at).match(/^\)/);
+    if (close) at += close[0].length;
+  }
+  return { history, end: at, citationIds };
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+
+/**
+ * The history phrase to add for a treatment, e.g. "rev'd sub nom. Bell Atlantic Corp. v.
+ * Twombly, 550 U.S. 544 (2007)" or "overruled by Dobbs v. Jackson Women's Health
+ * Organization, 597 U.S. 215 (2022)".
+ */
+export function describeTreatment(treatment: Treatment, caseName: string): string {
+  const { citing } = treatment;
+  const verb = `${HISTORY_VERBS[treatment.treatment]}${treatment.scope ? ` ${treatment.scope}` : ""}`;
+
+  if (treatment.treatment === "superseded") return `${verb} by statute, ${citingAuthority(citing)}`;
+  if (!DIRECT_HISTORY.has(treatment.treatment)) return `${verb} by ${citingAuthority(citing)}`;
+  // The same case on appeal is named again only when its name changed
+  const renamed = normalizeName(citing.name) !== normalizeName(caseName);
+  return `${verb}${renamed ? ` sub nom. ${citing.name}` : ""}, ${citingAuthority(citing, false)}`;
+}
+
+/** The later authority as a citation: "Dobbs v. Jackson Women's Health Organization, 597 U.S. 215 (2022)". */
+export function citingAuthority(citing: CitingAuthority, named = true): string {
+  const court = findCourt(citing.court)?.abbreviation || citing.court;
+  // Supreme Court parentheticals carry only the year
+  const parenthetical = citing.year ? ` (${court && court !== "U.S." ? `${court} ` : ""}${citing.year})` : "";
+  return `${named ? `${citing.name}, ` : ""}${citing.citation}${parenthetical}`;
+}
+
+// "overruled in part by Bell Atlantic Corp. v. Twombly, 550 U.S. 544 (2007)", for prose
+const treatmentProse = (treatment: Treatment) =>
+  `${treatment.treatment}${treatment.scope ? ` ${treatment.scope}` : ""} by ${treatment.treatment === "superseded" ? "statute, " : ""}${citingAuthority(treatment.citing)}`;
+
+/**
+ * Looks every full citation up in the citator, through its parallel cites and the cites
+ * the case index holds for the decision. Citations inside another's subsequent history
+ * are not checked themselves.
+ */
+export function checkTreatments(
+  text: string,
+  citations: Citation[],
+  verification: VerificationReport | null,
+  citator: CitatorLookup
+): TreatmentReport {
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const inHistory = new Set<string>();
+  const seen = new Set<number>();
+  const checks: TreatmentCheck[] = [];
+  let checked = 0;
+
+  for (const citation of citations) {
+    if (citation.kind !== "full" || inHistory.has(citation.id) || seen.has(citation.fullStart)) continue;
+    // Parallel cites share one span; check the decision once
+    seen.add(citation.fullStart);
+    const found = findSubsequentHistory(text, citation, citations);
+    for (const id of found.citationIds) inHistory.add(id);
+
+    const group = [citation, ...citation.parallel.map((id) => byId.get(id)).filter((c): c is Citation => !!c)];
+    const ids = group.map((c) => c.id);
+    const record = verification?.verifications.find((v) => ids.includes(v.citationId) && v.status === "verified" && v.match)?.match;
+    const cites = new Set([
+      ...group.filter((c) => c.reporter).map((c) => citeKey(c.volume, c.reporter, c.page)),
+      ...(record?.citations || []),
+    ]);
+    if (cites.size === 0) continue;
+    checked++;
+
+    const treatments: Treatment[] = [];
+    const recorded = new Set<string>();
+    for (const cite of Array.from(cites)) {
+      for (const treatment of citator.treatments(cite)) {
+        const key = `${treatment.treatment} ${treatment.citing.citation}`;
+        if (recorded.has(key)) continue;
+        recorded.add(key);
+        treatments.push(treatment);
+      }
+    }
+    if (treatments.length === 0) continue;
+
+    checks.push({
+      citationId: citation.id,
+      caseName: record?.caseName || citation.caseName || treatments[0].citedName || citation.text,
+      treatments,
+      history: found.history,
+      historyEnd: found.end,
+    });
+  }
+  return { source: citator.source, checked, checks };
+}
+
+/** Treatments a check's subsequent history leaves out. */
+export const omittedTreatments = (check: TreatmentCheck) => check.treatments.filter((treatment) => !check.history.includes(treatment.treatment));
+
+/**
+ * Turns citator results into memo findings. A reversal, vacatur, overruling or
+ * supersession the citation does not disclose is bad law; one limited to part of the
+ * decision or to other grounds is medium severity. An affirmance left out of the
+ * citation is a formatting finding whose recommendation adds the history.
+ */
+export function treatmentFindings(
+  text: string,
+  citations: Citation[],
+  report: TreatmentReport
+): { criticalIssues: CriticalIssue[]; formattingIssues: FormattingIssue[] } {
+  const criticalIssues: CriticalIssue[] = [];
+  const formattingIssues: FormattingIssue[] = [];
+
+  for (const check of report.checks) {
+    const citation = citations.find((candidate) => candidate.id === check.citationId);
+    if (!citation) continue;
+    const omitted = omittedTreatments(check);
+    const negative = omitted.filter((treatment) => NEGATIVE_TREATMENTS.has(treatment.treatment));
+    const affirmed = omitted.filter((treatment) => !NEGATIVE_TREATMENTS.has(treatment.treatment));
+    const anchor = { start: citation.fullStart, citationId: citation.id, source: "citator" as const };
+
+    if (negative.length) {
+      criticalIssues.push({
+        ...anchor,
+        quote: text.slice(citation.fullStart, citation.fullEnd),
+        end: citation.fullEnd,
+        problem: `${check.caseName} was ${negative.map(treatmentProse).join("; ")}. The brief cites it without that subsequent history.`,
+        missingAuthority: `Subsequent history: ${negative.map((treatment) => describeTreatment(treatment, check.caseName)).join(", ")}`,
+        ...(negative.every((treatment) => treatment.scope) ? { severity: "medium" as const, confidence: 0.85 } : {}),
+      });
+    }
+
+    if (affirmed.length) {
+      const quote = text.slice(citation.fullStart, check.historyEnd);
+      const phrases = affirmed.map((treatment) => describeTreatment(treatment, check.caseName));
+      formattingIssues.push({
+        ...anchor,
+        quote,
+        end: check.historyEnd,
+        problem: `${check.caseName} was ${affirmed.map(treatmentProse).join("; ")}. Bluebook rule 10.7 requires the subsequent history in the citation.`,
+        recommendation: `${quote}, ${phrases.join(", ")}`,
+        replacesQuote: true,
+      });
+    }
+  }
+  return { criticalIssues, formattingIssues };
+}
+
+/** The citator check for the citation behind an issue: the one it was raised on, or the first full citation its span overlaps. */
+export function treatmentForIssue(
+  issue: { citationId?: string; start?: number; end?: number },
+  citations: Citation[],
+  report: TreatmentReport | null
+): TreatmentCheck | null {
+  if (!report) return null;
+  let citation = issue.citationId ? citations.find((candidate) => candidate.id === issue.citationId) : undefined;
+  if (!citation && issue.start !== undefined && issue.end !== undefined) {
+    citation = citations.find((candidate) => candidate.kind === "full" && candidate.fullStart < issue.end! && candidate.fullEnd > issue.start!);
+  }
+  if (citation && citation.kind !== "full" && citation.antecedentId) {
+    citation = citations.find((candidate) => candidate.id === citation!.antecedentId);
+  }
+  if (!citation) return null;
+  const ids = [citation.id, ...citation.parallel];
+  return report.checks.find((check) => ids.includes(check.citationId)) || null;
+}
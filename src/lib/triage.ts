@@ -0,0 +1,108 @@
+import { CATEGORY_FIELDS, HIGHLIGHT_CATEGORIES, type HighlightCategory } from "./anchoring";
+import type { CriticalIssue, FormattingIssue, HallucinationSignal, IssueTriage, LegalReviewMemo, StoredReview, TriageRequest, TriageStatus } from "./types";
+
+export const TRIAGE_STATUSES: TriageStatus[] = ["open", "confirmed", "dismissed", "resolved"];
+
+export const TRIAGE_LABELS: Record<TriageStatus, string> = {
+  open: "Open",
+  confirmed: "Confirmed",
+  dismissed: "Dismissed",
+  resolved: "Resolved",
+};
+
+type Issue = HallucinationSignal | CriticalIssue | FormattingIssue;
+
+const MAX_REASON_CHARS = 500;
+const MAX_NOTES_CHARS = 5_000;
+const MAX_ASSIGNEE_CHARS = 120;
+
+// A triage decision that cannot be recorded; `status` is the HTTP status to surface
+export class TriageError extends Error {
+  constructor(message: string, public status: number) {
+    super(message);
+    this.name = "TriageError";
+  }
+}
+
+/**
+ * Checks the body of POST /api/reviews/[id]/triage. Returns the typed request, or an
+ * error message suitable for a 400 response.
+ */
+export function parseTriageRequest(body: unknown): TriageRequest | string {
+  if (!body || typeof body !== "object") return "Request body must be a JSON object";
+  const { category, index, status, reason, notes, assignee } = body as Record<string, unknown>;
+
+  if (!HIGHLIGHT_CATEGORIES.includes(category as HighlightCategory)) {
+    return `category must be one of ${HIGHLIGHT_CATEGORIES.join(", ")}`;
+  }
+  if (typeof index !== "number" || !Number.isInteger(index) || index < 0) return "index must be a non-negative integer";
+  if (!TRIAGE_STATUSES.includes(status as TriageStatus)) return `status must be one of ${TRIAGE_STATUSES.join(", ")}`;
+  if (reason !== undefined && (typeof reason !== "string" || reason.length > MAX_REASON_CHARS)) {
+    return `reason must be a string of at most ${MAX_REASON_CHARS} characters`;
+  }
+  if (status === "dismissed" && !(reason as string | undefined)?.trim()) return "Dismissing a finding requires a reason";
+  if (notes !== undefined && (typeof notes !== "string" || notes.length > MAX_NOTES_CHARS)) {
+    return `notes must be a string of at most ${MAX_NOTES_CHARS.toLocaleString()} characters`;
+  }
+  if (assignee !== undefined && (typeof assignee !== "string" || assignee.length > MAX_ASSIGNEE_CHARS)) {
+    return `assignee must be a string of at most ${MAX_ASSIGNEE_CHARS} characters`;
+  }
+
+  return {
+    category: category as HighlightCategory,
+    index,
+    status: status as TriageStatus,
+    reason: (reason as string | undefined)?.trim() || undefined,
+    notes: (notes as string | undefined)?.trim() || undefined,
+    assignee: (assignee as string | undefined)?.trim() || undefined,
+  };
+}
+
+/** Turns a triage request into the entry stored on the review. */
+export function resolveTriage(review: StoredReview, request: TriageRequest): IssueTriage {
+  if (!review.memo[CATEGORY_FIELDS[request.category]][request.index]) {
+    throw new TriageError("Issue not found in this review", 404);
+  }
+  return {
+    key: `${request.category}-${request.index}`,
+    category: request.category,
+    index: request.index,
+    status: request.status,
+    // A reason only explains a dismissal; reopening drops it
+    reason: request.status === "dismissed" ? request.reason! : null,
+    notes: request.notes || "",
+    assignee: request.assignee || null,
+    updatedAt: new Date().toISOString(),
+  };
+}
+
+/** The review with `entry` recorded, replacing any earlier decision on the same finding. */
+export function withTriage(review: StoredReview, entry: IssueTriage): StoredReview {
+  const triage = (review.triage || []).filter((existing) => existing.key !== entry.key);
+  return { ...review, triage: [...triage, entry] };
+}
+
+/** Dismissed and resolved findings no longer count against the brief. */
+export const isClosed = (entry: IssueTriage | undefined) => entry?.status === "dismissed" || entry?.status === "resolved";
+
+/**
+ * The memo as the reviewer has triaged it: dismissed and resolved findings removed, and
+ * confirmed ones at full confidence, so a confirmed critical finding forces do_not_file.
+ * Indices no longer match the stored memo, so use it for scoring and counts only.
+ */
+export function triagedMemo<T extends Pick<LegalReviewMemo, "hallucinationSignals" | "criticalIssues" | "quotationIssues" | "formattingIssues">>(
+  memo: T,
+  triage: IssueTriage[] = []
+): T {
+  if (triage.length === 0) return memo;
+  const byKey = new Map(triage.map((entry) => [entry.key, entry]));
+  const triaged = { ...memo };
+  for (const category of HIGHLIGHT_CATEGORIES) {
+    const field = CATEGORY_FIELDS[category];
+    (triaged[field] as Issue[]) = (memo[field] as Issue[])
+      .map((issue, index) => ({ issue, entry: byKey.get(`${category}-${index}`) }))
+      .filter(({ entry }) => !isClosed(entry))
+      .map(({ issue, entry }) => (entry?.status === "confirmed" ? { ...issue, confidence: 1 } : issue));
+  }
+  return triaged;
+}
@@ -0,0 +1,349 @@
+import type { HighlightCategory } from "./anchoring";
+import type { TableOfAuthorities } from "./authorities";
+import type { Citation } from "./citations";
+import type { CourtCompliance } from "./court-profiles";
+import type { DiffPart } from "./diff";
+import type { PageSpan } from "./documents";
+import type { QuotationReport } from "./quotations";
+import type { ScoringModel } from "./scoring";
+import type { StatuteReport } from "./statutes";
+import type { SupportReport } from "./support";
+import type { TreatmentReport } from "./treatment";
+import type { VerificationReport } from "./verification";
+
+export type AnalysisStatus = "idle" | "analyzing" | "complete";
+export type FilingReadiness = "safe_to_file" | "file_with_caution" | "do_not_file";
+
+// Where a finding came from: the model, or one of the deterministic checks
+export type IssueSource = "model" | "citation-parser" | "case-index" | "code-index" | "citator" | "court-profile" | "bluebook" | "opinion-corpus" | "support-check" | "toa";
+
+export type Severity = "critical" | "high" | "medium" | "low";
+
+// Character offsets into the submitted document, when the finding is anchored
+interface IssueAnchor {
+  start?: number;
+  end?: number;
+  // How closely the quote matched the text at [start, end); 1 when exact
+  anchorConfidence?: number;
+  citationId?: string;
+  source?: IssueSource;
+  // How serious the finding is and how sure its source was (0-1); see scoring.ts for defaults
+  severity?: Severity;
+  confidence?: number;
+}
+
+export interface FilingVerdict {
+  readiness: FilingReadiness;
+  // The risk score the verdict was set from; absent on the model's own verdict
+  score?: number;
+  justification: string[];
+}
+
+export interface CriticalIssue extends IssueAnchor {
+  quote: string;
+  problem: string;
+  missingAuthority: string;
+  // The opinion passages behind a support-check finding
+  support?: SupportEvidence;
+}
+
+export interface HallucinationSignal extends IssueAnchor {
+  quote: string;
+  pattern: string;
+  risk: string;
+}
+
+export interface OpposingCounselAttack {
+  vulnerability: string;
+  likelyChallenge: string;
+}
+
+export interface FormattingIssue extends IssueAnchor {
+  quote: string;
+  problem: string;
+  recommendation: string;
+  // True when `recommendation` is text to put in place of the quote; advice and bare values cannot be accepted as a fix
+  replacesQuote?: boolean;
+}
+
+// How a quoted passage compares with the opinion it is attributed to; exact quotes are not findings
+export type QuotationStatus = "exact" | "altered" | "missing_ellipsis" | "missing_brackets" | "not_found";
+
+export interface QuotationIssue extends IssueAnchor {
+  // The words inside the quotation marks, as the brief has them
+  quote: string;
+  status: Exclude<QuotationStatus, "exact">;
+  caseName: string;
+  problem: string;
+  // The opinion's own words, to quote instead; empty when the quote was not found
+  recommendation: string;
+  // Opinion page the passage was found on, when the opinion has page markers
+  opinionPage: number | null;
+  // Word diff from the opinion's text to the brief's quote
+  diff: DiffPart[];
+}
+
+// How far the cited opinion bears out the proposition the brief cites it for
+export type SupportStatus = "supported" | "partially_supported" | "unsupported";
+
+export interface SupportPassage {
+  text: string;
+  // Opinion page the passage starts on, when the opinion has page markers
+  page: number | null;
+}
+
+export interface SupportEvidence {
+  caseName: string;
+  // The brief's sentence the citation is offered for, without the citation itself
+  proposition: string;
+  status: SupportStatus;
+  // The model's reasons, grounded in the passages
+  explanation: string;
+  passages: SupportPassage[];
+  // "pin" when the passages come from the pin-cited pages; "opinion" when the whole opinion was searched
+  scope: "pin" | "opinion";
+}
+
+export interface LegalReviewMemo {
+  filingVerdict: FilingVerdict;
+  criticalIssues: CriticalIssue[];
+  hallucinationSignals: HallucinationSignal[];
+  formattingIssues: FormattingIssue[];
+  quotationIssues: QuotationIssue[];
+  opposingCounselPerspective: OpposingCounselAttack[];
+  jurisdictionNotes: string;
+  citations: Citation[];
+  // Null when no local case index was available to check against
+  verification: VerificationReport | null;
+  // Quotations checked against the local opinion corpus; null when there is no corpus
+  quotations: QuotationReport | null;
+  // Cited propositions judged against retrieved opinion passages; null when there is no corpus
+  support: SupportReport | null;
+  // Citations to codes and rules, looked up in the code index; null for reviews saved before it existed
+  statutes: StatuteReport | null;
+  // Later history of the cited decisions from the citator dataset; null when there is none
+  treatment: TreatmentReport | null;
+  // The authorities the brief cites, grouped and paged; null for reviews saved before it existed
+  tableOfAuthorities: TableOfAuthorities | null;
+  // Deterministic checks against the target court's local rules; null when no court was selected
+  court: CourtCompliance | null;
+  coverage: ReviewCoverage;
+  promptVersion: string;
+  // The scoring model the verdict and risk score were computed with; the default when absent
+  scoring?: ScoringModel;
+  // Null for reviews saved without the model that produced them
+  model: ModelInfo | null;
+  // Page boundaries of the reviewed text; null when the source had no pages
+  pages: PageSpan[] | null;
+}
+
+export type ProviderId = "openrouter" | "openai-compatible" | "mock";
+
+export interface ModelInfo {
+  provider: ProviderId;
+  name: string;
+}
+
+// What the model returns for one section of the document
+export type ModelReview = Omit<LegalReviewMemo, "quotationIssues" | "citations" | "verification" | "quotations" | "support" | "statutes" | "treatment" | "tableOfAuthorities" | "court" | "coverage" | "promptVersion" | "scoring" | "model" | "pages">;
+
+export interface SectionCoverage {
+  index: number;
+  start: number;
+  end: number;
+  status: "reviewed" | "failed";
+  // Why a failed section could not be reviewed
+  error?: string;
+}
+
+// Which parts of the document the model actually reviewed
+export interface ReviewCoverage {
+  totalChars: number;
+  sections: SectionCoverage[];
+}
+
+export interface AnalysisOptions {
+  // Characters per model call; clamped server-side
+  sectionChars?: number;
+  // Court the brief will be filed in, e.g. "9th Cir."
+  jurisdiction?: string;
+  // Override the server's default provider/model, within its allowlist
+  provider?: ProviderId;
+  model?: string;
+}
+
+// Body of POST /api/investigate
+export interface InvestigateRequest {
+  text: string;
+  fileName?: string;
+  // From /api/extract, so findings can cite the page they appear on
+  pages?: PageSpan[];
+  options?: AnalysisOptions;
+}
+
+// Error body returned by the API routes
+export interface ApiErrorResponse {
+  error: string;
+  // Present when the model's output never passed validation
+  validationErrors?: string[];
+}
+
+// A completed review as stored under data/reviews
+export interface StoredReview {
+  id: string;
+  createdAt: string;
+  fileName: string | null;
+  // Client matter the brief belongs to, e.g. "Acme v. Widget Co. (2024-0113)"
+  matter: string | null;
+  // SHA-256 of the reviewed text, so a reader can tell which draft was reviewed
+  documentHash: string;
+  document: string;
+  memo: LegalReviewMemo;
+  // Edits the reviewer accepted; absent on reviews that have none yet
+  acceptedFixes?: AcceptedFix[];
+  // Reviewer decisions on findings; a finding without an entry is open
+  triage?: IssueTriage[];
+  // The review of the previous draft of the same brief, if the reviewer linked one
+  previousReviewId?: string | null;
+  // SHA-256 of the key that manages share links; the key itself is only returned when the review is saved
+  ownerKeyHash?: string;
+}
+
+// Response of POST /api/reviews: the saved review and the key that manages its share links
+export interface SavedReview extends StoredReview {
+  ownerKey: string;
+}
+
+// A review as a share link's reader receives it: without the ids that would outlast the link
+export type SharedReview = Omit<StoredReview, "id" | "previousReviewId" | "ownerKeyHash">;
+
+// One saved review in a list, e.g. the earlier drafts of a matter
+export interface ReviewSummary {
+  id: string;
+  createdAt: string;
+  fileName: string | null;
+  matter: string | null;
+  // Risk score and verdict from open findings, as the dashboard shows them
+  score: number;
+  readiness: FilingReadiness;
+}
+
+// An earlier review of a matter, as the upload screen offers it. Knowing a matter's name
+// is not access to its reviews, so the draft is named by a handle that only links to it.
+export interface MatterDraft {
+  draft: string;
+  createdAt: string;
+  fileName: string | null;
+  score: number;
+  readiness: FilingReadiness;
+}
+
+// Body of POST /api/reviews
+export interface SaveReviewRequest {
+  document: string;
+  fileName?: string;
+  matter?: string;
+  previousReviewId?: string;
+  // A MatterDraft handle, resolved to previousReviewId when the review is saved
+  previousDraft?: string;
+  memo: LegalReviewMemo;
+}
+
+// "recommendation": a formatting finding's corrected version; "rewrite": a grounded rewrite
+export type FixSource = "recommendation" | "rewrite";
+
+// An accepted edit to the reviewed text, exported as a Word tracked change
+export interface AcceptedFix {
+  // `${category}-${index}`: one accepted fix per finding
+  key: string;
+  category: HighlightCategory;
+  index: number;
+  source: FixSource;
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+  acceptedAt: string;
+}
+
+// Body of POST /api/reviews/[id]/fixes; rewrites carry the span and text they replace
+export interface AcceptFixRequest {
+  category: HighlightCategory;
+  index: number;
+  source: FixSource;
+  start?: number;
+  end?: number;
+  replacement?: string;
+}
+
+// "confirmed": a real problem; "dismissed": not a problem (with a reason); "resolved": fixed in the draft
+export type TriageStatus = "open" | "confirmed" | "dismissed" | "resolved";
+
+// A reviewer's decision on one finding
+export interface IssueTriage {
+  // `${category}-${index}`, as for accepted fixes
+  key: string;
+  category: HighlightCategory;
+  index: number;
+  status: TriageStatus;
+  // Why a dismissed finding is not a problem, e.g. "Cite checked on Westlaw"
+  reason: string | null;
+  notes: string;
+  assignee: string | null;
+  updatedAt: string;
+}
+
+// Body of POST /api/reviews/[id]/triage
+export interface TriageRequest {
+  category: HighlightCategory;
+  index: number;
+  status: TriageStatus;
+  reason?: string;
+  notes?: string;
+  assignee?: string;
+}
+
+// Read-only access to one review; the token never reveals the review id
+export interface ShareLink {
+  token: string;
+  reviewId: string;
+  createdAt: string;
+  expiresAt: string;
+  revokedAt: string | null;
+}
+
+// Body of POST /api/rewrite: one finding of a stored review
+export interface RewriteRequest {
+  reviewId: string;
+  category: HighlightCategory;
+  index: number;
+  options?: Pick<AnalysisOptions, "provider" | "model">;
+}
+
+// An authority the rewrite may cite, formatted from the case index rather than the brief
+export interface VerifiedAuthority {
+  // Token the model cites it by, e.g. "A1"
+  id: string;
+  citationId: string;
+  citation: string;
+  // True when the brief cited this case with a wrong name, court or year
+  corrected: boolean;
+}
+
+export interface RewriteResponse {
+  // The sentence(s) around the flagged quote that the rewrite replaces
+  start: number;
+  end: number;
+  original: string;
+  replacement: string;
+  diff: DiffPart[];
+  // Authorities the replacement actually cites
+  authorities: VerifiedAuthority[];
+  // "[CITATION NEEDED: ...]" markers the author still has to fill
+  placeholders: string[];
+  // Citations the model wrote that were not verified, replaced with placeholders
+  removed: string[];
+  explanation: string;
+  model: ModelInfo;
+  promptVersion: string;
+}
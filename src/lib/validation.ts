@@ -0,0 +1,118 @@
+import { anchorQuote } from "./anchoring";
+import { SEVERITIES } from "./scoring";
+import type { FilingReadiness, ModelReview, Severity } from "./types";
+
+const READINESS: FilingReadiness[] = ["safe_to_file", "file_with_caution", "do_not_file"];
+
+// Field lists for each issue array; every field is a required string
+const ISSUE_FIELDS = {
+  criticalIssues: ["quote", "problem", "missingAuthority"],
+  hallucinationSignals: ["quote", "pattern", "risk"],
+  formattingIssues: ["quote", "problem", "recommendation"],
+  opposingCounselPerspective: ["vulnerability", "likelyChallenge"],
+} as const;
+
+export type ValidationResult = { ok: true; review: ModelReview } | { ok: false; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === "object" && !Array.isArray(value);
+
+const preview = (value: string) => (value.length > 80 ? `${value.slice(0, 77)}...` : value);
+
+/**
+ * Checks a parsed model reply against the ModelReview shape, and that every quoted
+ * passage actually appears in `sourceText` (the text the model was shown). Returns all
+ * problems at once so they can be fed back to the model in a single repair turn.
+ */
+export function validateModelReview(value: unknown, sourceText: string): ValidationResult {
+  const errors: string[] = [];
+  if (!isObject(value)) return { ok: false, errors: ["Response must be a JSON object"] };
+
+  const verdict = value.filingVerdict;
+  if (!isObject(verdict)) {
+    errors.push("filingVerdict must be an object");
+  } else {
+    if (!READINESS.includes(verdict.readiness as FilingReadiness)) {
+      errors.push(`filingVerdict.readiness must be one of ${READINESS.map((r) => `"${r}"`).join(", ")}`);
+    }
+    if (!Array.isArray(verdict.justification) || !verdict.justification.every((item) => typeof item === "string")) {
+      errors.push("filingVerdict.justification must be an array of strings");
+    }
+  }
+
+  for (const [key, fields] of Object.entries(ISSUE_FIELDS)) {
+    const items = value[key];
+    if (!Array.isArray(items)) {
+      errors.push(`${key} must be an array (use [] when there are none)`);
+      continue;
+    }
+    items.forEach((item, index) => {
+      if (!isObject(item)) {
+        errors.push(`${key}[${index}] must be an object`);
+        return;
+      }
+      for (const field of fields) {
+        if (typeof item[field] !== "string" || !(item[field] as string).trim()) {
+          errors.push(`${key}[${index}].${field} must be a non-empty string`);
+        }
+      }
+      if (key !== "opposingCounselPerspective") {
+        if (item.severity !== undefined && !SEVERITIES.includes(item.severity as Severity)) {
+          errors.push(`${key}[${index}].severity must be one of ${SEVERITIES.map((s) => `"${s}"`).join(", ")}`);
+        }
+        if (item.confidence !== undefined && (typeof item.confidence !== "number" || item.confidence < 0 || item.confidence > 1)) {
+          errors.push(`${key}[${index}].confidence must be a number from 0 to 1`);
+        }
+      }
+      // Spacing, quote marks and elisions may differ from the document; the wording may not
+      if (typeof item.quote === "string" && item.quote.trim() && !anchorQuote(sourceText, item.quote, { fuzzy: false })) {
+        errors.push(`${key}[${index}].quote does not occur in the document: "${preview(item.quote)}"`);
+      }
+    });
+  }
+
+  if (typeof value.jurisdictionNotes !== "string") {
+    errors.push("jurisdictionNotes must be a string");
+  }
+
+  if (errors.length > 0) return { ok: false, errors };
+
+  // Keep only the known fields so nothing unexpected rides along into the memo
+  const review: ModelReview = {
+    filingVerdict: {
+      readiness: (verdict as Record<string, unknown>).readiness as FilingReadiness,
+      justification: (verdict as Record<string, unknown>).justification as string[],
+    },
+    criticalIssues: (value.criticalIssues as ModelReview["criticalIssues"]).map(({ quote, problem, missingAuthority, severity, confidence }) => ({
+      quote,
+      problem,
+      missingAuthority,
+      source: "model" as const,
+      severity,
+      confidence,
+    })),
+    hallucinationSignals: (value.hallucinationSignals as ModelReview["hallucinationSignals"]).map(({ quote, pattern, risk, severity, confidence }) => ({
+      quote,
+      pattern,
+      risk,
+      source: "model" as const,
+      severity,
+      confidence,
+    })),
+    formattingIssues: (value.formattingIssues as ModelReview["formattingIssues"]).map(({ quote, problem, recommendation, severity, confidence }) => ({
+      quote,
+      problem,
+      recommendation,
+      // The prompt asks for the corrected version of the quote
+      replacesQuote: true,
+      source: "model" as const,
+      severity,
+      confidence,
+    })),
+    opposingCounselPerspective: (value.opposingCounselPerspective as ModelReview["opposingCounselPerspective"]).map(
+      ({ vulnerability, likelyChallenge }) => ({ vulnerability, likelyChallenge })
+    ),
+    jurisdictionNotes: value.jurisdictionNotes as string,
+  };
+  return { ok: true, review };
+}
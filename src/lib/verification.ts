@@ -0,0 +1,181 @@
+import type { Citation } from "./citations";
+import { findCourt } from "./courts";
+import type { CriticalIssue, HallucinationSignal } from "./types";
+
+// One decision in the local case index
+export interface CaseRecord {
+  id: string;
+  caseName: string;
+  court: string;
+  year: number;
+  // Every reporter cite for the decision, e.g. ["410 U.S. 113", "93 S. Ct. 705"]
+  citations: string[];
+}
+
+export type VerificationStatus = "verified" | "mismatch" | "not_found" | "unchecked";
+
+export interface Discrepancy {
+  field: "caseName" | "court" | "year";
+  cited: string;
+  actual: string;
+}
+
+export interface CitationVerification {
+  citationId: string;
+  status: VerificationStatus;
+  // "410 U.S. 113" as looked up
+  citeKey: string;
+  match?: CaseRecord;
+  discrepancies: Discrepancy[];
+}
+
+export interface VerificationReport {
+  // Description of the index consulted, e.g. "courtlistener-2024-10 (48,211 cases)"
+  source: string;
+  indexSize: number;
+  verifications: CitationVerification[];
+}
+
+export function citeKey(volume: number | undefined, reporter: string | undefined, page: number | undefined): string {
+  return `${volume} ${reporter} ${page}`;
+}
+
+const NAME_NOISE = new Set(["inc", "co", "corp", "llc", "ltd", "the", "of", "and", "a", "an", "et", "al", "in", "re"]);
+
+const nameTokens = (name: string) =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, " ")
+    .split(/\s+/)
+    .filter((token) => token.length > 1 && token !== "v" && !NAME_NOISE.has(token));
+
+// Case names are abbreviated inconsistently, so only demand that the parties overlap
+export function caseNamesMatch(cited: string, actual: string): boolean {
+  const actualTokens = new Set(nameTokens(actual));
+  const citedTokens = nameTokens(cited);
+  if (citedTokens.length === 0) return true;
+  const shared = citedTokens.filter((token) => actualTokens.has(token)).length;
+  return shared / citedTokens.length >= 0.5;
+}
+
+/**
+ * Compares one full citation against what the index holds for its reporter cite.
+ * `candidates` are all records filed under that cite (usually zero or one).
+ */
+export function compareCitation(citation: Citation, candidates: CaseRecord[]): CitationVerification {
+  const key = citeKey(citation.volume, citation.reporter, citation.page);
+  if (candidates.length === 0) {
+    return { citationId: citation.id, status: "not_found", citeKey: key, discrepancies: [] };
+  }
+
+  const scored = candidates.map((record) => {
+    const discrepancies: Discrepancy[] = [];
+    if (citation.caseName && !caseNamesMatch(citation.caseName, record.caseName)) {
+      discrepancies.push({ field: "caseName", cited: citation.caseName, actual: record.caseName });
+    }
+    const citedCourt = findCourt(citation.court);
+    const actualCourt = findCourt(record.court);
+    if (citedCourt && actualCourt && citedCourt.id !== actualCourt.id) {
+      discrepancies.push({ field: "court", cited: citedCourt.abbreviation, actual: actualCourt.abbreviation });
+    }
+    if (citation.year && record.year && citation.year !== record.year) {
+      discrepancies.push({ field: "year", cited: String(citation.year), actual: String(record.year) });
+    }
+    return { record, discrepancies };
+  });
+  scored.sort((a, b) => a.discrepancies.length - b.discrepancies.length);
+
+  const best = scored[0];
+  return {
+    citationId: citation.id,
+    status: best.discrepancies.length === 0 ? "verified" : "mismatch",
+    citeKey: key,
+    match: best.record,
+    discrepancies: best.discrepancies,
+  };
+}
+
+const FIELD_LABELS: Record<Discrepancy["field"], string> = {
+  caseName: "case name",
+  court: "court",
+  year: "year",
+};
+
+/**
+ * Turns verification results into memo findings: cites the index has never heard of are
+ * hallucination signals, cites that resolve to a different case/court/year are critical.
+ */
+export function verificationFindings(
+  text: string,
+  citations: Citation[],
+  report: VerificationReport
+): { hallucinationSignals: HallucinationSignal[]; criticalIssues: CriticalIssue[] } {
+  const hallucinationSignals: HallucinationSignal[] = [];
+  const criticalIssues: CriticalIssue[] = [];
+  const byId = new Map(citations.map((citation) => [citation.id, citation]));
+  const reported = new Set<number>();
+
+  for (const verification of report.verifications) {
+    const citation = byId.get(verification.citationId);
+    if (!citation) continue;
+
+    // Parallel cites share one span; report the decision once
+    if (reported.has(citation.fullStart)) continue;
+    const anchor = {
+      quote: text.slice(citation.fullStart, citation.fullEnd),
+      start: citation.fullStart,
+      end: citation.fullEnd,
+      citationId: citation.id,
+      source: "case-index" as const,
+    };
+
+    if (verification.status === "not_found") {
+      // A parallel cite that did resolve is enough to establish the decision exists
+      const parallelFound = report.verifications.some(
+        (other) => citation.parallel.includes(other.citationId) && other.status !== "not_found"
+      );
+      if (parallelFound) continue;
+      reported.add(citation.fullStart);
+      hallucinationSignals.push({
+        ...anchor,
+        pattern: "Citation not found in case index",
+        risk: `No decision is indexed at ${verification.citeKey} in ${report.source}. Confirm the citation before filing.`,
+      });
+    } else if (verification.status === "mismatch" && verification.match) {
+      reported.add(citation.fullStart);
+      const court = findCourt(verification.match.court)?.abbreviation || verification.match.court;
+      const fields = verification.discrepancies.map((d) => `${FIELD_LABELS[d.field]} (cited "${d.cited}", actual "${d.actual}")`);
+      criticalIssues.push({
+        ...anchor,
+        problem: `${verification.citeKey} is ${verification.match.caseName} (${court} ${verification.match.year}); the brief has the wrong ${fields.join(", ")}.`,
+        missingAuthority: `Corrected citation for ${verification.match.caseName}, ${verification.match.citations.join(", ")}`,
+      });
+    }
+  }
+
+  return { hallucinationSignals, criticalIssues };
+}
+
+/**
+ * The verification backing an issue: the citation it was raised on, or failing that
+ * the first citation whose span overlaps the issue's quote.
+ */
+export function verificationForIssue(
+  issue: { quote: string; start?: number; end?: number; citationId?: string },
+  citations: Citation[],
+  verifications: CitationVerification[]
+): { citation: Citation; verification: CitationVerification } | null {
+  let citation = issue.citationId ? citations.find((c) => c.id === issue.citationId) : undefined;
+  if (!citation && issue.start !== undefined && issue.end !== undefined) {
+    citation = citations.find((c) => c.kind === "full" && c.fullStart < issue.end! && c.fullEnd > issue.start!);
+  }
+  if (!citation) {
+    citation = citations.find((c) => c.kind === "full" && issue.quote.includes(c.text));
+  }
+  if (citation && citation.kind !== "full" && citation.antecedentId) {
+    citation = citations.find((c) => c.id === citation!.antecedentId);
+  }
+  if (!citation) return null;
+  const verification = verifications.find((v) => v.citationId === citation!.id);
+  return verification ? { citation, verification } : null;
+}